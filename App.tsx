@@ -1,5 +1,5 @@
-import React, { useState, useMemo, useRef } from 'react';
-import { ListPlus, CheckCircle, XCircle, AlertCircle, Settings as SettingsIcon } from 'lucide-react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { ListPlus, CheckCircle, XCircle, AlertCircle, Settings as SettingsIcon, Undo2, Redo2, History, Download, Upload, Tags, ArchiveRestore, Receipt, ListChecks } from 'lucide-react';
 import FileUploader from './components/FileUploader';
 import TrackTable from './components/TrackTable';
 import LibraryDashboard from './components/LibraryDashboard';
@@ -8,24 +8,89 @@ import ProcessingStatsDisplay from './components/ProcessingStats';
 import EnrichmentWarningModal from './components/EnrichmentWarningModal';
 import PlaylistNameModal from './components/PlaylistNameModal';
 import SettingsModal from './components/SettingsModal';
-import { parseRekordboxXML, exportRekordboxXML, updateTrackNode, generateSmartPlaylists } from './services/parser';
+import PlaylistSidebar from './components/PlaylistSidebar';
+import ExportPreviewModal from './components/ExportPreviewModal';
+import HistoryPanel from './components/HistoryPanel';
+import BackupsModal from './components/BackupsModal';
+import UsageModal from './components/UsageModal';
+import ReviewQueueModal, { ReviewDecision } from './components/ReviewQueueModal';
+import TrackDetailsModal from './components/TrackDetailsModal';
+import RecentSessions from './components/RecentSessions';
+import SpreadsheetImportModal from './components/SpreadsheetImportModal';
+import TaxonomyEditorModal from './components/TaxonomyEditorModal';
+import TagMigrationModal from './components/TagMigrationModal';
+import LibraryReloadModal from './components/LibraryReloadModal';
+import { exportRekordboxXML, updateTrackNode, generateSmartPlaylists, stripCrateBatchTags, extractAnalysisFromComments } from './services/parser';
+import { exportTraktorNML, generateTraktorPlaylists, TRAKTOR_FOLDER_NAME } from './services/traktor';
+import { FieldSnapshot, snapshotTrackFields, buildExportPreview, revertExcludedChanges, changeReportToCSV } from './services/exportDiff';
+import { loadLibrary, restoreLibrary } from './services/libraryLoader';
+import { listSessions, loadSession, saveSession, deleteSession, loadSettings, saveSettings } from './services/sessionStore';
+import { DEFAULT_FIELD_MAPPING, DIMENSION_LABELS } from './services/fieldMapping';
+import { canWriteTrackField } from './services/fields';
+import { DEFAULT_TAXONOMY, setActiveTaxonomy, upgradeTaxonomy } from './services/taxonomy';
+import { DEFAULT_AI_PROVIDER_SETTINGS, setActiveAIProvider } from './services/aiProviders';
+import { getImportPath, chooseSavePath, saveLibraryFile, watchLibraryFile, onLibraryFileChanged } from './services/libraryFiles';
+import { mergeReloadedLibrary, remapJournal, remapPlaylists, remapReviewQueue } from './services/libraryMerge';
+import { findTagMigrations, migrateTrackTags, migrateAnalysis } from './services/tagMigration';
+import { SpreadsheetImport, tracksToCSV, tracksToJSON, diffSpreadsheet, applySpreadsheetChanges, editedDimensions, mappingForEdits } from './services/spreadsheet';
+import { createJournalJob, createJournalEntries, applyJournalEntries, findUndoableJob, withJobAnalyses, journalAnalysesFor } from './services/journal';
 import { generateTagsBatch, interpretSearchQuery } from './services/ai';
-import { chunkArray, calculateLibraryStats, findDuplicates, runConcurrent } from './services/utils';
-import { RekordboxTrack, ParseStatus, ProcessingStats, CustomPlaylist, AIAnalysis, AppSettings } from './types';
+import { createJobController, runJob, JobController, JobState } from './services/jobRunner';
+import { estimateEnrichmentCost, jobSpendingCap, createSpendingGuard } from './services/budget';
+import { getMonthSpend, recordUsage } from './services/usageLedger';
+import { holdForReview, mergeReviewItems, applyReviewValue, DEFAULT_REVIEW_THRESHOLD } from './services/reviewQueue';
+import { chunkArray, calculateLibraryStats, findDuplicates, downloadFile, hasTag, trackMainGenre, trackSubGenre } from './services/utils';
+import { RekordboxTrack, ParseStatus, ProcessingStats, CustomPlaylist, AIAnalysis, AppSettings, AnalysisDimension, FieldWrite, FieldMapping, JournalJob, JournalEntry, JournalAnalysis, SessionData, SessionSummary, LibraryFormat, PlaylistNode, ParseProgress, ExportPreview, Taxonomy, TagMigration, LibraryReloadSummary, CostEstimate, ReviewItem } from './types';
+
+// How often a changed session is written to disk
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+// Settings saved by older versions may lack newer sections
+const mergeSavedSettings = (current: AppSettings, saved: AppSettings): AppSettings => ({
+  ...current,
+  ...saved,
+  export: { ...current.export, ...saved.export },
+  import: { ...current.import, ...saved.import },
+  tags: { ...current.tags, ...saved.tags },
+  mapping: { ...current.mapping, ...saved.mapping },
+  taxonomy: saved.taxonomy ? upgradeTaxonomy(saved.taxonomy) : current.taxonomy,
+  ai: { ...current.ai, ...saved.ai, openai: { ...current.ai.openai, ...saved.ai?.openai } },
+  budget: { ...current.budget, ...saved.budget }
+});
 
 const App: React.FC = () => {
   const [tracks, setTracks] = useState<RekordboxTrack[]>([]);
   const [status, setStatus] = useState<ParseStatus>(ParseStatus.IDLE);
+  const [libraryFormat, setLibraryFormat] = useState<LibraryFormat>('rekordbox');
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
   const [isEnriching, setIsEnriching] = useState(false);
   const [isStatsVisible, setIsStatsVisible] = useState(false);
   const [terminalLog, setTerminalLog] = useState<string>("");
   const [searchInput, setSearchInput] = useState(""); 
   const [activeSearchQuery, setActiveSearchQuery] = useState("");
   const [savedPlaylists, setSavedPlaylists] = useState<CustomPlaylist[]>([]);
+  const [libraryPlaylists, setLibraryPlaylists] = useState<PlaylistNode[]>([]);
   const [showDuplicateModal, setShowDuplicateModal] = useState(false);
   const [showEnrichmentWarning, setShowEnrichmentWarning] = useState(false);
+  const [enrichmentEstimates, setEnrichmentEstimates] = useState<{ filtered: CostEstimate, total: CostEstimate, monthSpent: number } | 'unavailable' | null>(null);
   const [showPlaylistModal, setShowPlaylistModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [exportPreview, setExportPreview] = useState<ExportPreview | null>(null);
+  const [journal, setJournal] = useState<JournalJob[]>([]);
+  const [redoStack, setRedoStack] = useState<string[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showBackups, setShowBackups] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [reviewQueue, setReviewQueue] = useState<ReviewItem[]>([]);
+  const [showReviewQueue, setShowReviewQueue] = useState(false);
+  const [detailsTrackId, setDetailsTrackId] = useState<string | null>(null);
+  const [showTaxonomyEditor, setShowTaxonomyEditor] = useState(false);
+  const [recentSessions, setRecentSessions] = useState<SessionSummary[]>([]);
+  const [spreadsheetImport, setSpreadsheetImport] = useState<{ fileName: string, diff: SpreadsheetImport } | null>(null);
+  const [tagMigrations, setTagMigrations] = useState<TagMigration[] | null>(null);
+  const [watchedPath, setWatchedPath] = useState<string | null>(null);
+  const [pendingReload, setPendingReload] = useState(false);
+  const [libraryReload, setLibraryReload] = useState<LibraryReloadSummary | null>(null);
   const [toastMessage, setToastMessage] = useState<{ message: string, type: 'success' | 'error' | 'info' } | null>(null);
   
   // Settings State
@@ -33,21 +98,40 @@ const App: React.FC = () => {
     export: {
       filenameFormat: 'cratebatch_export.xml',
       folderName: 'AI_GENERATED',
-      backup: true
+      backup: true,
+      backupCount: 5,
+      nestSubGenres: false
     },
     import: {
       validateOnImport: false
+    },
+    mapping: DEFAULT_FIELD_MAPPING,
+    tags: {
+      confidenceThreshold: 0.5,
+      reviewThreshold: DEFAULT_REVIEW_THRESHOLD
+    },
+    taxonomy: DEFAULT_TAXONOMY,
+    ai: DEFAULT_AI_PROVIDER_SETTINGS,
+    budget: {
+      perJob: 0,
+      perMonth: 0
     }
   });
 
   const fullXmlDataRef = useRef<any>(null);
+  const sessionRef = useRef<{ id: string, name: string, sourcePath?: string } | null>(null);
+  const settingsLoadedRef = useRef(false);
+  const importSnapshotRef = useRef<FieldSnapshot>(new Map());
   const mainScrollRef = useRef<HTMLElement>(null);
+  const spreadsheetInputRef = useRef<HTMLInputElement>(null);
   
   const [processingStats, setProcessingStats] = useState<ProcessingStats>({
     totalCost: 0, totalInputTokens: 0, totalOutputTokens: 0, songsProcessed: 0, 
     totalSongs: 0, startTime: 0, currentSpeed: 0, etaSeconds: 0, currentBatchLatency: 0,
-    totalDuration: 0
+    totalDuration: 0, cacheHits: 0, cacheSavings: 0, inferredGenres: 0, failedSongs: 0, unprocessedIds: [], budgetReached: false
   });
+  const [jobState, setJobState] = useState<JobState>('running');
+  const jobControllerRef = useRef<JobController | null>(null);
 
   const [activeFilterName, setActiveFilterName] = useState<string | null>(null);
   const [dashboardFilter, setDashboardFilter] = useState<{ type: string, value: string } | null>(null);
@@ -57,7 +141,116 @@ const App: React.FC = () => {
   // Focus Mode State
   const [focusMode, setFocusMode] = useState<{ label: string, ids: Set<string> } | null>(null);
 
-  const stats = useMemo(() => calculateLibraryStats(tracks), [tracks]);
+  const confidenceThreshold = settings.tags.confidenceThreshold;
+  // Genre roll-ups depend on the taxonomy's genre hierarchy
+  const stats = useMemo(() => calculateLibraryStats(tracks, confidenceThreshold), [tracks, confidenceThreshold, settings.taxonomy]);
+
+  // Restore saved settings and the recent sessions list on launch
+  useEffect(() => {
+    loadSettings()
+      .then(saved => {
+        if (!saved) return;
+        const merged = mergeSavedSettings(settings, saved);
+        setActiveTaxonomy(merged.taxonomy);
+        setSettings(merged);
+      })
+      .catch(e => console.error("Failed to load settings", e))
+      .finally(() => { settingsLoadedRef.current = true; });
+    listSessions().then(setRecentSessions).catch(e => console.error("Failed to list sessions", e));
+  }, []);
+
+  // Prompts and comment parsing read the taxonomy from the taxonomy module
+  useEffect(() => {
+    setActiveTaxonomy(settings.taxonomy);
+  }, [settings.taxonomy]);
+
+  // Enrichment and search go to the provider chosen in the settings
+  useEffect(() => {
+    setActiveAIProvider(settings.ai);
+  }, [settings.ai]);
+
+  // Desktop: watch the imported file so a re-export from Rekordbox/Traktor is picked up
+  useEffect(() => {
+    watchLibraryFile(watchedPath).catch(e => console.error("Failed to watch library file", e));
+    if (!watchedPath) return;
+    return onLibraryFileChanged(() => setPendingReload(true));
+  }, [watchedPath]);
+
+  useEffect(() => {
+    // Don't overwrite the saved settings with the defaults before they have been loaded
+    if (!settingsLoadedRef.current) return;
+    saveSettings(settings).catch(e => console.error("Failed to save settings", e));
+  }, [settings]);
+
+  const buildSessionData = (): SessionData | null => {
+    if (!sessionRef.current || !fullXmlDataRef.current) return null;
+    const analysis: Record<string, AIAnalysis> = {};
+    tracks.forEach(t => { if (t.Analysis) analysis[t.TrackID] = t.Analysis; });
+    return {
+      ...sessionRef.current,
+      format: libraryFormat,
+      trackCount: tracks.length,
+      analyzedCount: Object.keys(analysis).length,
+      savedAt: Date.now(),
+      fullData: fullXmlDataRef.current,
+      analysis,
+      importSnapshot: Array.from(importSnapshotRef.current.entries()),
+      savedPlaylists,
+      settings,
+      journal,
+      reviewQueue
+    };
+  };
+
+  const persistSession = async () => {
+    const session = buildSessionData();
+    if (!session) return;
+    try {
+      await saveSession(session);
+    } catch (e: any) {
+      console.error("Session save failed", e);
+      setToastMessage({ message: `Session Save Failed: ${e.message}`, type: "error" });
+      setTimeout(() => setToastMessage(null), 5000);
+    }
+  };
+
+  // Changes only mark the session dirty; the autosave below writes it at most once per interval,
+  // so a long enrichment doesn't re-serialize the whole library after every batch
+  const sessionDirtyRef = useRef(false);
+  const persistSessionRef = useRef(persistSession);
+  persistSessionRef.current = persistSession;
+
+  useEffect(() => {
+    if (status === ParseStatus.SUCCESS) sessionDirtyRef.current = true;
+  }, [tracks, savedPlaylists, settings, journal, reviewQueue, status]);
+
+  // Autosave so enrichment survives a restart
+  useEffect(() => {
+    if (status !== ParseStatus.SUCCESS) return;
+    let saving = false;
+    const timer = setInterval(async () => {
+      if (!sessionDirtyRef.current || saving) return;
+      sessionDirtyRef.current = false;
+      saving = true;
+      try {
+        await persistSessionRef.current();
+      } finally {
+        saving = false;
+      }
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  // Lookup of imported playlist id -> TrackIDs for the sidebar filter
+  const playlistTrackIndex = useMemo(() => {
+    const index = new Map<string, Set<string>>();
+    const walk = (nodes: PlaylistNode[]) => nodes.forEach(n => {
+      if (n.type === 'playlist') index.set(n.id, new Set(n.trackIds));
+      walk(n.children);
+    });
+    walk(libraryPlaylists);
+    return index;
+  }, [libraryPlaylists]);
 
   const visibleTracks = useMemo(() => {
     let result = tracks;
@@ -76,11 +269,13 @@ const App: React.FC = () => {
              const valLower = value.toLowerCase();
              const mainGenreMatch = (t.Genre || "").toLowerCase().includes(valLower);
              const subGenreMatch = (t.Analysis?.subGenre || "").toLowerCase().includes(valLower);
-             return mainGenreMatch || subGenreMatch;
+             return mainGenreMatch || subGenreMatch || trackMainGenre(t) === value;
         }
-        if (type === 'vibe') return t.Analysis?.vibe === value;
+        if (type === 'subGenre') return (trackSubGenre(t) || "Unsorted") === value;
+        if (type === 'vibe') return hasTag(t.Analysis, 'vibe', value, confidenceThreshold);
         if (type === 'year') return (t.Year || t.Analysis?.year || "").startsWith(value);
         if (type === 'key') return t.Tonality === value;
+        if (type === 'playlist') return !!playlistTrackIndex.get(value)?.has(t.TrackID);
         return true;
       });
     }
@@ -90,14 +285,14 @@ const App: React.FC = () => {
       result = result.filter(track => {
         // A. Match Genres (Sub-Genre or Main Genre)
         const genreMatch = smartFilter.subGenres.length === 0 || smartFilter.subGenres.some((g: string) => 
-          (track.Analysis?.subGenre === g) || (track.Genre && track.Genre.includes(g))
+          hasTag(track.Analysis, 'subGenre', g, confidenceThreshold) || (track.Genre && track.Genre.includes(g))
         );
 
         // B. Match Vibes
-        const vibeMatch = smartFilter.vibes.length === 0 || smartFilter.vibes.includes(track.Analysis?.vibe);
+        const vibeMatch = smartFilter.vibes.length === 0 || smartFilter.vibes.some((v: string) => hasTag(track.Analysis, 'vibe', v, confidenceThreshold));
 
         // C. Match Situations
-        const situationMatch = smartFilter.situations.length === 0 || smartFilter.situations.includes(track.Analysis?.situation);
+        const situationMatch = smartFilter.situations.length === 0 || smartFilter.situations.some((s: string) => hasTag(track.Analysis, 'situation', s, confidenceThreshold));
 
         // D. Match BPM Range
         const bpm = parseFloat(track.AverageBpm || "0");
@@ -124,7 +319,7 @@ const App: React.FC = () => {
     }
 
     return result;
-  }, [tracks, activeSearchQuery, dashboardFilter, smartFilter, focusMode]);
+  }, [tracks, activeSearchQuery, dashboardFilter, smartFilter, focusMode, playlistTrackIndex, confidenceThreshold]);
 
   const handleSearch = async (query: string) => {
     query = query.trim();
@@ -161,48 +356,282 @@ const App: React.FC = () => {
 
   const handleFileSelect = async (file: File) => {
     setStatus(ParseStatus.PARSING);
-    if (window.electron && (file as any).path) {
-       const { success, data } = await window.electron.readFile((file as any).path);
-       if (success && data) {
-         const result = await parseRekordboxXML(data);
-         setTracks(result.tracks);
-         fullXmlDataRef.current = result.fullData; 
-         setStatus(ParseStatus.SUCCESS);
-         
-         // Validation On Import Check
-         if (settings.import.validateOnImport) {
-            const { duplicateCount } = findDuplicates(result.tracks);
-            const missingYears = result.tracks.filter(t => !t.Year || t.Year === "0").length;
-            if (duplicateCount > 0 || missingYears > 0) {
-                 setToastMessage({ message: `Imported with Warnings: ${duplicateCount} dupes, ${missingYears} missing years.`, type: "info" });
-            } else {
-                 setToastMessage({ message: "Import Successful & Clean", type: "success" });
-                 setTimeout(() => setToastMessage(null), 3000);
-            }
+    setParseProgress({ bytesRead: 0, totalBytes: file.size, tracksFound: 0 });
+    try {
+      // The File is streamed from disk inside the parser worker (works in both browser and Electron)
+      const result = await loadLibrary(file, setParseProgress);
+      setTracks(result.tracks);
+      setLibraryFormat(result.format);
+      setLibraryPlaylists(result.playlists);
+      fullXmlDataRef.current = result.fullData; 
+      importSnapshotRef.current = snapshotTrackFields(result.tracks);
+      sessionRef.current = { id: `session_${Date.now()}`, name: file.name, sourcePath: getImportPath(file) };
+      setWatchedPath(sessionRef.current.sourcePath || null);
+      setSavedPlaylists([]);
+      setJournal([]);
+      setRedoStack([]);
+      setReviewQueue([]);
+      setStatus(ParseStatus.SUCCESS);
+      offerTagMigrations(result.tracks);
+      
+      // Validation On Import Check
+      if (settings.import.validateOnImport) {
+         const { duplicateCount } = findDuplicates(result.tracks);
+         const missingYears = result.tracks.filter(t => !t.Year || t.Year === "0").length;
+         if (duplicateCount > 0 || missingYears > 0) {
+              setToastMessage({ message: `Imported with Warnings: ${duplicateCount} dupes, ${missingYears} missing years.`, type: "info" });
+         } else {
+              setToastMessage({ message: "Import Successful & Clean", type: "success" });
+              setTimeout(() => setToastMessage(null), 3000);
          }
-       }
+      }
+    } catch (e: any) {
+      console.error("Import failed", e);
+      setStatus(ParseStatus.ERROR);
+      setToastMessage({ message: `Import Failed: ${e.message}`, type: "error" });
+      setTimeout(() => setToastMessage(null), 5000);
+    } finally {
+      setParseProgress(null);
+    }
+  };
+
+  // New jobs start a fresh branch of history, so anything undone can no longer be redone from the toolbar
+  const startJournalJob = (label: string): JournalJob => {
+    const job = createJournalJob(label);
+    setJournal(prev => [...prev, job]);
+    setRedoStack([]);
+    return job;
+  };
+
+  const appendJournalEntries = (jobId: string, entries: JournalEntry[]) => {
+    if (entries.length === 0) return;
+    setJournal(prev => prev.map(job => job.id === jobId ? { ...job, entries: [...job.entries, ...entries] } : job));
+  };
+
+  // Keep the analyses a job replaced, so undo and redo restore them along with the attributes
+  const recordJournalAnalyses = (jobId: string, changes: Record<string, JournalAnalysis>) => {
+    if (Object.keys(changes).length === 0) return;
+    setJournal(prev => prev.map(job => job.id === jobId ? withJobAnalyses(job, changes) : job));
+  };
+
+  // Applies results to the XML nodes, journals every write and returns the changed columns per TrackID
+  const writeResultsToLibrary = (
+    jobId: string,
+    chunk: RekordboxTrack[],
+    results: Record<string, AIAnalysis>,
+    mode: 'full' | 'missing_genre' | 'missing_year',
+    mapping: FieldMapping = settings.mapping
+  ) => {
+    const written: Record<string, Record<string, string>> = {};
+    const entries: JournalEntry[] = [];
+    chunk.forEach(t => {
+      if (!results[t.TrackID]) return;
+      const writes: FieldWrite[] = updateTrackNode(t, results[t.TrackID], mode, mapping, settings.tags.confidenceThreshold);
+      if (writes.length > 0) {
+        written[t.TrackID] = Object.fromEntries(writes.map(w => [w.field, w.after]));
+        entries.push(...createJournalEntries(jobId, t, writes));
+      }
+    });
+    appendJournalEntries(jobId, entries);
+    return written;
+  };
+
+  // Undo or redo journal entries and bring the table columns back in line with the XML
+  const applyJournalChange = (entries: JournalEntry[], direction: 'undo' | 'redo') => {
+    const { applied, conflicts } = applyJournalEntries(tracks, entries, direction);
+    const analyses = journalAnalysesFor(journal, applied, direction);
+    const appliedIds = new Set(applied.map(e => e.id));
+    setJournal(prev => prev.map(job => ({
+      ...job,
+      entries: job.entries.map(e => appliedIds.has(e.id) ? { ...e, undone: direction === 'undo' } : e)
+    })));
+
+    const columnsByTrack = new Map<string, Record<string, string>>();
+    applied.forEach(e => {
+      const columns = columnsByTrack.get(e.trackId) || {};
+      columns[e.field] = direction === 'undo' ? e.before : e.after;
+      columnsByTrack.set(e.trackId, columns);
+    });
+    setTracks(prev => prev.map(t => {
+      const columns = columnsByTrack.get(t.TrackID);
+      if (!columns) return t;
+      if (analyses.has(t.TrackID)) return { ...t, ...columns, Analysis: analyses.get(t.TrackID) };
+      // Jobs from older sessions didn't keep analyses: tags are read back from the comment, as on import
+      if (columns.Comments !== undefined) return { ...t, ...columns, Analysis: extractAnalysisFromComments(columns.Comments) };
+      return { ...t, ...columns };
+    }));
+
+    const verb = direction === 'undo' ? 'Undid' : 'Redid';
+    const skipped = conflicts.length > 0 ? ` (${conflicts.length} skipped, changed again later)` : '';
+    setToastMessage({ message: `${verb} ${applied.length} changes${skipped}`, type: conflicts.length > 0 ? "info" : "success" });
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const handleUndo = () => {
+    const job = findUndoableJob(journal);
+    if (!job) return;
+    applyJournalChange(job.entries, 'undo');
+    setRedoStack(prev => [...prev, job.id]);
+  };
+
+  const handleRedo = () => {
+    const job = journal.find(j => j.id === redoStack[redoStack.length - 1]);
+    setRedoStack(prev => prev.slice(0, -1));
+    if (job) applyJournalChange(job.entries, 'redo');
+  };
+
+  const handleResumeSession = async (id: string) => {
+    setStatus(ParseStatus.PARSING);
+    try {
+      const session = await loadSession(id);
+      if (!session) throw new Error("Session not found");
+
+      // The session's taxonomy has to be active before its comments are parsed
+      const restoredSettings = mergeSavedSettings(settings, session.settings);
+      setActiveTaxonomy(restoredSettings.taxonomy);
+
+      // Rebuild tracks from the saved tree, then lay the saved analysis back on top
+      const result = restoreLibrary(session.fullData, session.format);
+      const restoredTracks = result.tracks.map(t => session.analysis[t.TrackID] ? { ...t, Analysis: migrateAnalysis(session.analysis[t.TrackID]) } : t);
+      setTracks(restoredTracks);
+      setLibraryFormat(result.format);
+      setLibraryPlaylists(result.playlists);
+      fullXmlDataRef.current = result.fullData;
+      importSnapshotRef.current = new Map(session.importSnapshot);
+      sessionRef.current = { id: session.id, name: session.name, sourcePath: session.sourcePath };
+      setWatchedPath(session.sourcePath || null);
+      setSavedPlaylists(session.savedPlaylists);
+      setSettings(restoredSettings);
+      setJournal(session.journal);
+      setReviewQueue(session.reviewQueue || []);
+      setRedoStack([]);
+      setStatus(ParseStatus.SUCCESS);
+      offerTagMigrations(restoredTracks);
+      setToastMessage({ message: `Resumed ${session.name}`, type: "success" });
+      setTimeout(() => setToastMessage(null), 3000);
+    } catch (e: any) {
+      console.error("Resume failed", e);
+      setStatus(ParseStatus.ERROR);
+      setToastMessage({ message: `Resume Failed: ${e.message}`, type: "error" });
+      setTimeout(() => setToastMessage(null), 5000);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setRecentSessions(await listSessions());
+    } catch (e) {
+      console.error("Session delete failed", e);
+    }
+  };
+
+  const handleCloseLibrary = async () => {
+    await persistSession();
+    sessionRef.current = null;
+    setWatchedPath(null);
+    setTracks([]);
+    setLibraryPlaylists([]);
+    setJournal([]);
+    setReviewQueue([]);
+    setRedoStack([]);
+    setStatus(ParseStatus.IDLE);
+    listSessions().then(setRecentSessions).catch(e => console.error("Failed to list sessions", e));
+  };
+
+  // Re-read the open library after it changed on disk and merge it into the session
+  const handleLibraryReload = async () => {
+    setPendingReload(false);
+    const session = sessionRef.current;
+    if (!session?.sourcePath || !window.electron) return;
+    try {
+      const file = await window.electron.readFile(session.sourcePath);
+      if (!file.success) throw new Error(file.error);
+      const result = await loadLibrary(file.data);
+      const merge = mergeReloadedLibrary(tracks, importSnapshotRef.current, result);
+
+      setTracks(merge.tracks);
+      setLibraryFormat(result.format);
+      setLibraryPlaylists(result.playlists);
+      fullXmlDataRef.current = result.fullData;
+      importSnapshotRef.current = merge.snapshot;
+      setJournal(prev => remapJournal(prev, merge.idMap));
+      setSavedPlaylists(prev => remapPlaylists(prev, merge.idMap));
+      setReviewQueue(prev => remapReviewQueue(prev, merge.idMap));
+      setFocusMode(null);
+      setLibraryReload({
+        fileName: session.name,
+        addedIds: merge.added.map(t => t.TrackID),
+        removedCount: merge.removedCount,
+        reappliedCount: merge.reappliedCount
+      });
+    } catch (e: any) {
+      console.error("Library reload failed", e);
+      setToastMessage({ message: `Reload Failed: ${e.message}`, type: "error" });
+      setTimeout(() => setToastMessage(null), 5000);
     }
   };
 
+  // Running jobs and an open export preview hold on to the current tracks, so reload after them
+  useEffect(() => {
+    if (pendingReload && !isEnriching && !exportPreview) handleLibraryReload();
+  }, [pendingReload, isEnriching, exportPreview]);
+
+  // Price both choices of the enrichment prompt before anything is sent
+  useEffect(() => {
+    setEnrichmentEstimates(null);
+    if (!showEnrichmentWarning) return;
+    let stale = false;
+    Promise.all([
+      estimateEnrichmentCost(visibleTracks.filter(needsEnrichment), 'full'),
+      estimateEnrichmentCost(tracks.filter(needsEnrichment), 'full'),
+      getMonthSpend()
+    ]).then(([filtered, total, monthSpent]) => {
+      if (!stale) setEnrichmentEstimates({ filtered, total, monthSpent });
+    }).catch(e => {
+      console.error("Cost estimate failed", e);
+      if (!stale) setEnrichmentEstimates('unavailable');
+    });
+    return () => { stale = true; };
+  }, [showEnrichmentWarning]);
+
   const processBatch = async (targetTracks: RekordboxTrack[], mode: 'full' | 'missing_genre' | 'missing_year') => {
     if (targetTracks.length === 0) {
          setToastMessage({ message: "No tracks match criteria.", type: "info" });
          setTimeout(() => setToastMessage(null), 3000);
          return;
     }
+
+    // Batches stop being scheduled once the job reaches its cap; the rest are reported as unprocessed
+    const spendingCap = jobSpendingCap(settings.budget, await getMonthSpend());
+    if (spendingCap <= 0) {
+         setToastMessage({ message: "This month's AI budget is used up. Raise it in Settings to continue.", type: "error" });
+         setTimeout(() => setToastMessage(null), 5000);
+         return;
+    }
     
     // Enable Focus Mode for visual clarity
     setFocusMode({ label: `Processing: ${mode.replace('missing_', 'Fix ')}`, ids: new Set(targetTracks.map(t => t.TrackID)) });
 
+    const job = startJournalJob(`${mode === 'full' ? 'AI Enrich' : mode === 'missing_genre' ? 'Fix Genres' : 'Fix Years'} (${targetTracks.length} tracks)`);
+
     setIsEnriching(true);
     setIsStatsVisible(true);
-    setTerminalLog(`[${new Date().toLocaleTimeString()}] JOB START: ${mode.toUpperCase()} (${targetTracks.length} items)...`);
+    setTerminalLog(`[${new Date().toLocaleTimeString()}] JOB START: ${mode.toUpperCase()} (${targetTracks.length} items)...${isFinite(spendingCap) ? ` Budget: $${spendingCap.toFixed(2)}` : ''}`);
+    // Mappings saved for another library format may point at fields this one doesn't have
+    Object.entries(settings.mapping).forEach(([dimension, rule]) => {
+      if (!rule.target || canWriteTrackField(libraryFormat, rule.target)) return;
+      setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] NOT WRITTEN: ${DIMENSION_LABELS[dimension as AnalysisDimension]} is mapped to ${rule.target}, which this library doesn't have. Change the mapping in Settings.`);
+    });
     
     const startTime = performance.now();
-    let jobCost = 0;
+    const guard = createSpendingGuard(spendingCap);
     let processedCount = 0;
     let totalIn = 0;
     let totalOut = 0;
+    let cacheHits = 0;
+    let cacheSavings = 0;
+    let inferredGenres = 0;
     
     setProcessingStats({ 
       totalSongs: targetTracks.length, 
@@ -214,219 +643,493 @@ const App: React.FC = () => {
       totalDuration: 0,
       currentSpeed: 0,
       etaSeconds: 0,
-      currentBatchLatency: 0
+      currentBatchLatency: 0,
+      cacheHits: 0,
+      cacheSavings: 0,
+      inferredGenres: 0,
+      failedSongs: 0,
+      unprocessedIds: [],
+      budgetReached: false
     });
 
     const failedTracks: RekordboxTrack[] = [];
+    let failedCount = 0;
+    const unprocessed: RekordboxTrack[] = [];
+    let budgetReached = false;
+    let heldCount = 0;
+    const unpricedModels = new Set<string>();
 
-    // Increase batch size to 100 to improve throughput
-    const chunks = chunkArray<RekordboxTrack>(targetTracks, 100);
-    const totalBatches = chunks.length;
-
-    const tasks = chunks.map((chunk, idx) => async () => {
-      const chunkIds = chunk.map(t => t.TrackID);
-      setActiveProcessingIds(prev => {
-        const next = new Set(prev);
-        chunkIds.forEach(id => next.add(id));
-        return next;
-      });
+    const controller = createJobController();
+    jobControllerRef.current = controller;
+    setJobState('running');
 
-      const chunkStart = performance.now();
-      const { results, usage, error } = await generateTagsBatch(chunk, mode);
-      
-      const chunkDuration = performance.now() - chunkStart;
-      
-      if (error || Object.keys(results).length === 0) {
-          failedTracks.push(...chunk);
-      } else {
-        jobCost += usage.cost;
-        processedCount += chunk.length;
-        totalIn += usage.inputTokens;
-        totalOut += usage.outputTokens;
-      }
-      
+    const updateStats = (chunkDuration: number, showEta: boolean) => {
       const durationSoFarMin = (performance.now() - startTime) / 60000;
       const currentSpm = processedCount / (durationSoFarMin || 0.0001);
-      
       const remainingSongs = targetTracks.length - processedCount;
-      const etaSec = (remainingSongs / (currentSpm || 1)) * 60;
 
       setProcessingStats(prev => ({
         ...prev,
         songsProcessed: processedCount,
-        totalCost: jobCost,
+        totalCost: guard.spent,
+        cacheHits,
+        cacheSavings,
+        inferredGenres,
+        failedSongs: failedCount,
         totalInputTokens: totalIn,
         totalOutputTokens: totalOut,
         currentSpeed: currentSpm,
         currentBatchLatency: chunkDuration,
         totalDuration: performance.now() - startTime,
-        etaSeconds: etaSec
+        etaSeconds: showEta ? (remainingSongs / (currentSpm || 1)) * 60 : 0
       }));
+      return currentSpm;
+    };
 
-      const log = formatLogLine(`Batch ${idx+1}/${totalBatches}`, chunk.length, chunkDuration, usage, jobCost, currentSpm, error);
-      setTerminalLog(prev => prev + '\n' + log);
+    const applyResults = (chunk: RekordboxTrack[], batchResults: Record<string, AIAnalysis>) => {
+      // Low-confidence values wait in the review queue; the rest is written now
+      const { results, held } = holdForReview(chunk, batchResults, mode, settings.tags.reviewThreshold);
+      if (held.length > 0) {
+        heldCount += held.length;
+        setReviewQueue(prev => mergeReviewItems(prev, held));
+      }
 
-      setTracks(prev => prev.map(t => {
-        if (!results[t.TrackID]) return t;
-        const res = results[t.TrackID];
-        
-        if (mode === 'missing_genre') {
-            // For 'missing_genre' mode, we use the mainGenre if available, else subGenre
-            const genreToUse = res.mainGenre || res.subGenre;
-            return { 
-              ...t, 
-              Genre: genreToUse !== "Unknown" ? genreToUse : t.Genre, // Update main genre col
-               Analysis: t.Analysis ? { ...t.Analysis, subGenre: res.subGenre } : { subGenre: res.subGenre, vibe: 'Unknown', situation: 'Unknown', year: '0' } as AIAnalysis 
-            };
-        }
-        if (mode === 'missing_year') {
-             return { 
-                ...t, 
-                Year: (res.year && res.year !== "0") ? res.year : t.Year,
-                Analysis: t.Analysis ? { ...t.Analysis, year: res.year } : { subGenre: 'Unknown', vibe: 'Unknown', situation: 'Unknown', year: res.year } as AIAnalysis 
-              };
-        }
-        return { ...t, Analysis: res };
-      }));
+      // Write to the XML first so the table shows exactly what the field mapping wrote
+      const written = writeResultsToLibrary(job.id, chunk, results, mode);
 
+      const analyses: Record<string, JournalAnalysis> = {};
       chunk.forEach(t => {
-        if (results[t.TrackID]) {
-           updateTrackNode(t, results[t.TrackID], mode);
-        }
+        const res = results[t.TrackID];
+        if (!res) return;
+        const after = mode === 'missing_genre'
+          ? (t.Analysis ? { ...t.Analysis, mainGenre: res.mainGenre } : { subGenre: 'Unknown', vibe: 'Unknown', situation: 'Unknown', year: '0', mainGenre: res.mainGenre } as AIAnalysis)
+          : mode === 'missing_year'
+            ? (t.Analysis ? { ...t.Analysis, year: res.year, yearSources: res.yearSources } : { subGenre: 'Unknown', vibe: 'Unknown', situation: 'Unknown', year: res.year, yearSources: res.yearSources } as AIAnalysis)
+            : res;
+        analyses[t.TrackID] = { before: t.Analysis, after };
       });
+      recordJournalAnalyses(job.id, analyses);
+
+      setTracks(prev => prev.map(t => analyses[t.TrackID]
+        ? { ...t, ...written[t.TrackID], Analysis: analyses[t.TrackID].after }
+        : t));
+    };
 
+    // One log line per track that came back without a result
+    const logTrackFailures = (missing: RekordboxTrack[], reasonFor: (t: RekordboxTrack) => string, isRetry: boolean) => {
+      if (missing.length === 0) return;
+      const verb = isRetry ? 'FAILED' : 'REQUEUED';
+      setTerminalLog(prev => prev + missing.map(t => `\n    ${verb} #${t.TrackID} ${t.Artist} - ${t.Name}: ${reasonFor(t)}`).join(''));
+    };
+
+    const setActive = (chunk: RekordboxTrack[], active: boolean) => {
       setActiveProcessingIds(prev => {
         const next = new Set(prev);
-        chunkIds.forEach(id => next.delete(id));
+        chunk.forEach(t => active ? next.add(t.TrackID) : next.delete(t.TrackID));
         return next;
       });
-    });
+    };
+
+    // One pass over the chunks. Failed chunks of the first pass are collected for the deep retry pass.
+    const runPass = async (chunks: RekordboxTrack[][], label: string, isRetry: boolean, concurrency: number, delay: number) => {
+      const tasks = chunks.map((chunk, idx) => async (signal: AbortSignal) => {
+        // Batches in flight hold their estimated cost against the cap, so parallel batches can't overshoot it
+        const estimate = isFinite(spendingCap) ? (await estimateEnrichmentCost(chunk, mode, isRetry)).cost : 0;
+        if (!guard.reserve(estimate)) {
+          if (!budgetReached) setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] BUDGET REACHED ($${guard.spent.toFixed(4)} spent, $${guard.reserved.toFixed(4)} in flight, of $${spendingCap.toFixed(2)}). No new batches will start.`);
+          budgetReached = true;
+          unprocessed.push(...chunk);
+          return;
+        }
+        let settled = false;
+        setActive(chunk, true);
+        try {
+          const chunkStart = performance.now();
+          const { results, usage, error, cache, inferred, failures, repaired } = await generateTagsBatch(chunk, mode, isRetry, signal);
+          const chunkDuration = performance.now() - chunkStart;
+
+          guard.settle(estimate, usage.cost);
+          settled = true;
+          // The batch is settled and paid for: a failed ledger write is reported, not retried with it
+          await recordUsage(job, mode, usage).catch(e => {
+            console.error("Failed to record usage", e);
+            setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] USAGE NOT RECORDED: ${e.message}. This batch's $${usage.cost.toFixed(4)} is missing from the usage ledger.`);
+          });
+          totalIn += usage.inputTokens;
+          totalOut += usage.outputTokens;
+          usage.models?.filter(m => m.unpriced && !unpricedModels.has(m.model)).forEach(m => {
+            unpricedModels.add(m.model);
+            setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] NO PRICE for model ${m.model}. Its cost is estimated at Gemini 3 Flash rates.`);
+          });
+
+          // Tracks the answer left out are retried on their own; the rest of the batch still counts
+          const missing = chunk.filter(t => !results[t.TrackID]);
+          processedCount += chunk.length - missing.length;
+          if (missing.length < chunk.length) {
+            cacheHits += cache?.hits || 0;
+            cacheSavings += cache?.savedCost || 0;
+            inferredGenres += inferred || 0;
+          }
+          if (isRetry) failedCount += missing.length;
+          else failedTracks.push(...missing);
+
+          const currentSpm = updateStats(chunkDuration, !isRetry);
+          const partial = missing.length > 0 && missing.length < chunk.length ? ` | ${missing.length} missing` : '';
+          setTerminalLog(prev => prev + '\n' + formatLogLine(`${label} ${idx+1}/${chunks.length}`, chunk.length, chunkDuration, usage, guard.spent, currentSpm, error) + partial + (repaired ? ' | repaired JSON' : ''));
+          // A whole failed batch is retried anyway; its error is on the line above
+          if (isRetry || partial) logTrackFailures(missing, t => failures?.[t.TrackID] || error || "No result", isRetry);
+          applyResults(chunk, results);
+        } finally {
+          if (!settled) guard.settle(estimate, 0);
+          setActive(chunk, false);
+        }
+      });
 
-    await runConcurrent(tasks, 8, 250);
+      const outcomes = await runJob(tasks, {
+        concurrency,
+        delayBetweenTasks: delay,
+        onRetry: (idx, attempt, wait, e) => {
+          setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] ${label} ${idx+1}/${chunks.length}: ${e.status === 429 ? 'rate limited' : `server error ${e.status}`}, retry ${attempt} in ${(wait/1000).toFixed(1)}s`);
+        }
+      }, controller);
+
+      // Chunks that never got an answer: retries ran out, or the job was cancelled
+      outcomes.forEach((outcome, idx) => {
+        const chunk = chunks[idx];
+        if (outcome.status === 'cancelled') {
+          unprocessed.push(...chunk);
+        } else if (outcome.status === 'failed') {
+          setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] ${label} ${idx+1}/${chunks.length} FAILED after ${outcome.attempts} attempts: ${outcome.error}`);
+          if (isRetry) {
+            logTrackFailures(chunk, () => outcome.error, true);
+            failedCount += chunk.length;
+          } else {
+            failedTracks.push(...chunk);
+          }
+        }
+      });
+    };
+
+    // Increase batch size to 100 to improve throughput
+    await runPass(chunkArray<RekordboxTrack>(targetTracks, 100), 'Batch', false, 8, 250);
 
     // RETRY LOGIC for failed tracks
     if (failedTracks.length > 0) {
-        setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] Retrying ${failedTracks.length} failed tracks...`);
-        const retryChunks = chunkArray<RekordboxTrack>(failedTracks, 50);
-        const retryTasks = retryChunks.map((chunk, idx) => async () => {
-             const chunkIds = chunk.map(t => t.TrackID);
-              setActiveProcessingIds(prev => {
-                const next = new Set(prev);
-                chunkIds.forEach(id => next.add(id));
-                return next;
-              });
-
-              const chunkStart = performance.now();
-              // Pass isRetry=true
-              const { results, usage, error } = await generateTagsBatch(chunk, mode, true);
-               const chunkDuration = performance.now() - chunkStart;
-               
-               if (!error && Object.keys(results).length > 0) {
-                    jobCost += usage.cost;
-                    processedCount += chunk.length;
-                    totalIn += usage.inputTokens;
-                    totalOut += usage.outputTokens;
-               }
-
-              const durationSoFarMin = (performance.now() - startTime) / 60000;
-              const currentSpm = processedCount / (durationSoFarMin || 0.0001);
-
-              setProcessingStats(prev => ({
-                ...prev,
-                songsProcessed: processedCount,
-                totalCost: jobCost,
-                totalInputTokens: totalIn,
-                totalOutputTokens: totalOut,
-                currentSpeed: currentSpm,
-                currentBatchLatency: chunkDuration,
-                totalDuration: performance.now() - startTime,
-                etaSeconds: 0
-              }));
-
-              const log = formatLogLine(`Retry ${idx+1}/${retryChunks.length}`, chunk.length, chunkDuration, usage, jobCost, currentSpm, error);
-              setTerminalLog(prev => prev + '\n' + log);
-
-              setTracks(prev => prev.map(t => {
-                if (!results[t.TrackID]) return t;
-                const res = results[t.TrackID];
-                
-                if (mode === 'missing_genre') {
-                    const genreToUse = res.mainGenre || res.subGenre;
-                    return { 
-                      ...t, 
-                      Genre: genreToUse !== "Unknown" ? genreToUse : t.Genre
-                    };
-                }
-                if (mode === 'missing_year') {
-                     return { 
-                        ...t, 
-                        Year: (res.year && res.year !== "0") ? res.year : t.Year,
-                         Analysis: t.Analysis ? { ...t.Analysis, year: res.year } : { subGenre: 'Unknown', vibe: 'Unknown', situation: 'Unknown', year: res.year } as AIAnalysis 
-                      };
-                }
-                return { ...t, Analysis: res };
-              }));
-
-              chunk.forEach(t => {
-                if (results[t.TrackID]) {
-                   updateTrackNode(t, results[t.TrackID], mode);
-                }
-              });
-
-              setActiveProcessingIds(prev => {
-                const next = new Set(prev);
-                chunkIds.forEach(id => next.delete(id));
-                return next;
-              });
-        });
-        await runConcurrent(retryTasks, 4, 500);
+        if (controller.signal.aborted || budgetReached) {
+            unprocessed.push(...failedTracks);
+        } else {
+            setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] Retrying ${failedTracks.length} failed tracks...`);
+            await runPass(chunkArray<RekordboxTrack>(failedTracks, 50), 'Retry', true, 4, 500);
+        }
     }
     
+    jobControllerRef.current = null;
     setIsEnriching(false);
     const finalDuration = performance.now() - startTime;
-    setProcessingStats(prev => ({ ...prev, totalDuration: finalDuration, etaSeconds: 0 }));
-    setTerminalLog(prev => prev + `\n\n[${new Date().toLocaleTimeString()}] DONE. Total Cost: $${jobCost.toFixed(4)}`);
+    setProcessingStats(prev => ({ ...prev, totalDuration: finalDuration, etaSeconds: 0, failedSongs: failedCount, unprocessedIds: unprocessed.map(t => t.TrackID), budgetReached }));
+    const outcome = controller.signal.aborted ? 'CANCELLED' : budgetReached ? 'BUDGET REACHED' : 'DONE';
+    const skipped = `${failedCount > 0 ? ` | ${failedCount} failed` : ''}${unprocessed.length > 0 ? ` | ${unprocessed.length} not processed` : ''}${heldCount > 0 ? ` | ${heldCount} values held for review` : ''}`;
+    setTerminalLog(prev => prev + `\n\n[${new Date().toLocaleTimeString()}] ${outcome}. Total Cost: $${guard.spent.toFixed(4)}${cacheHits > 0 ? ` | Cache: ${cacheHits} hits, saved $${cacheSavings.toFixed(4)}` : ''}${inferredGenres > 0 ? ` | ${inferredGenres} genres inferred locally` : ''}${skipped}`);
+    if (heldCount > 0) setShowReviewQueue(true);
+  };
+
+  const handlePauseJob = () => {
+    if (!jobControllerRef.current) return;
+    jobControllerRef.current.pause();
+    setJobState('paused');
+    setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] PAUSED. Batches in flight will finish.`);
+  };
+
+  const handleResumeJob = () => {
+    if (!jobControllerRef.current) return;
+    jobControllerRef.current.resume();
+    setJobState('running');
+    setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] RESUMED.`);
   };
 
-  const handleExport = () => {
+  const handleCancelJob = () => {
+    if (!jobControllerRef.current) return;
+    jobControllerRef.current.cancel();
+    setJobState('cancelled');
+    setTerminalLog(prev => prev + `\n[${new Date().toLocaleTimeString()}] CANCELLING...`);
+  };
+
+  const exportFolderName = libraryFormat === 'traktor' ? TRAKTOR_FOLDER_NAME : settings.export.folderName;
+
+  const openExportPreview = () => {
     const { ids } = findDuplicates(tracks);
-    // Use settings for folder name and playlist generation
-    generateSmartPlaylists(fullXmlDataRef.current, tracks, ids, savedPlaylists, settings.export.folderName);
-    
-    const xml = exportRekordboxXML(fullXmlDataRef.current);
-    const url = URL.createObjectURL(new Blob([xml], { type: 'text/xml' }));
+    setExportPreview(buildExportPreview(tracks, importSnapshotRef.current, libraryPlaylists, ids, savedPlaylists, exportFolderName, confidenceThreshold, settings.export.nestSubGenres));
+  };
+
+  const handleSaveChangeReport = (format: 'json' | 'csv', excludedIds: Set<string>) => {
+    if (!exportPreview) return;
+    const included: ExportPreview = {
+      attributes: exportPreview.attributes.filter(c => !excludedIds.has(c.id)),
+      playlists: exportPreview.playlists.filter(p => p.action === 'remove' || !excludedIds.has(p.id))
+    };
+    const date = new Date().toISOString().split('T')[0];
+    if (format === 'csv') {
+      downloadFile(changeReportToCSV(included), `cratebatch_changes_${date}.csv`, 'text/csv');
+    } else {
+      const report = { generatedAt: new Date().toISOString(), format: libraryFormat, ...included };
+      downloadFile(JSON.stringify(report, null, 2), `cratebatch_changes_${date}.json`, 'application/json');
+    }
+  };
+
+  // On desktop the file is saved in place (or where the save dialog says); the browser downloads it
+  const handleExport = async (excludedIds: Set<string>, saveAs: boolean = false) => {
+    if (!exportPreview) return;
+    const { ids } = findDuplicates(tracks);
+    const isTraktor = libraryFormat === 'traktor';
+
+    // Excluded attribute edits are reverted only while the file is built
+    const restoreExcluded = revertExcludedChanges(tracks, exportPreview.attributes, excludedIds);
+    const skipLocationIds = new Set(exportPreview.attributes.filter(c => c.field === 'Location' && excludedIds.has(c.id)).map(c => c.trackId));
+
+    let xml: string;
+    try {
+      // Use settings for folder name and playlist generation
+      // Traktor playlists always go under the CrateBatch folder
+      if (isTraktor) {
+          generateTraktorPlaylists(fullXmlDataRef.current, tracks, ids, savedPlaylists, exportFolderName, excludedIds, confidenceThreshold, settings.export.nestSubGenres);
+      } else {
+          generateSmartPlaylists(fullXmlDataRef.current, tracks, ids, savedPlaylists, exportFolderName, excludedIds, confidenceThreshold, settings.export.nestSubGenres);
+      }
+      xml = isTraktor ? exportTraktorNML(fullXmlDataRef.current) : exportRekordboxXML(fullXmlDataRef.current, skipLocationIds);
+    } finally {
+      restoreExcluded();
+    }
     
     // Construct Filename based on settings
-    let filename = settings.export.filenameFormat || 'cratebatch_export.xml';
-    if (!filename.endsWith('.xml')) filename += '.xml';
+    const extension = isTraktor ? '.nml' : '.xml';
+    let filename = (settings.export.filenameFormat || 'cratebatch_export.xml').replace(/\.(xml|nml)$/i, '');
+    filename += extension;
     
+    if (window.electron) {
+      const filePath = !saveAs && sessionRef.current?.sourcePath ? sessionRef.current.sourcePath : await chooseSavePath(filename);
+      if (!filePath) return;
+      try {
+        await saveLibraryFile(filePath, xml, settings.export.backup ? settings.export.backupCount : 0);
+      } catch (e: any) {
+        setToastMessage({ message: `Save Failed: ${e.message}`, type: "error" });
+        setTimeout(() => setToastMessage(null), 5000);
+        return;
+      }
+      setExportPreview(null);
+      setToastMessage({ message: `Saved to ${filePath}`, type: "success" });
+      setTimeout(() => setToastMessage(null), 3000);
+      return;
+    }
+
+    // Downloads can't be backed up, so the date in the name keeps earlier exports apart
     if (settings.export.backup) {
         const date = new Date().toISOString().split('T')[0];
-        filename = filename.replace('.xml', `_${date}.xml`);
+        filename = filename.replace(extension, `_${date}${extension}`);
     }
 
-    const a = document.createElement('a'); a.href = url; a.download = filename; a.click();
+    downloadFile(xml, filename, 'text/xml');
+    setExportPreview(null);
     setToastMessage({ message: `Exported to ${filename}`, type: "success" });
     setTimeout(() => setToastMessage(null), 3000);
   };
 
+  const handleBackupRestored = (filePath: string) => {
+    // The open library is picked up by the file watcher; anything else has to be imported
+    const isOpen = filePath === sessionRef.current?.sourcePath;
+    setToastMessage({ message: isOpen ? `Restored ${filePath}. Reloading it into this session.` : `Restored ${filePath}. Import it to work from that version.`, type: "success" });
+    setTimeout(() => setToastMessage(null), 5000);
+  };
+
+  const handleExportView = (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().split('T')[0];
+    if (format === 'csv') {
+      downloadFile(tracksToCSV(visibleTracks), `cratebatch_tracks_${date}.csv`, 'text/csv');
+    } else {
+      downloadFile(tracksToJSON(visibleTracks), `cratebatch_tracks_${date}.json`, 'application/json');
+    }
+  };
+
+  const handleSpreadsheetFile = async (file: File) => {
+    try {
+      setSpreadsheetImport({ fileName: file.name, diff: diffSpreadsheet(tracks, await file.text()) });
+    } catch (e: any) {
+      console.error("Spreadsheet import failed", e);
+      setToastMessage({ message: `Spreadsheet Import Failed: ${e.message}`, type: "error" });
+      setTimeout(() => setToastMessage(null), 5000);
+    }
+  };
+
+  const handleApplySpreadsheet = (acceptedIds: Set<string>) => {
+    if (!spreadsheetImport) return;
+    const accepted = spreadsheetImport.diff.changes.filter(c => acceptedIds.has(c.id));
+    const analyses = applySpreadsheetChanges(tracks, accepted);
+    const changedTracks = tracks.filter(t => analyses[t.TrackID]);
+    const edited = editedDimensions(accepted);
+
+    const job = startJournalJob(`Spreadsheet Import (${accepted.length} changes)`);
+    const written: Record<string, Record<string, string>> = {};
+    changedTracks.forEach(t => {
+      const dimensions = edited.get(t.TrackID) || new Set();
+      const mapping = mappingForEdits(settings.mapping, dimensions);
+      written[t.TrackID] = { ...writeResultsToLibrary(job.id, [t], analyses, 'full', mapping)[t.TrackID] };
+      if (dimensions.has('mainGenre')) Object.assign(written[t.TrackID], writeResultsToLibrary(job.id, [t], analyses, 'missing_genre', mapping)[t.TrackID]);
+    });
+    recordJournalAnalyses(job.id, Object.fromEntries(changedTracks.map(t => [t.TrackID, { before: t.Analysis, after: analyses[t.TrackID] }])));
+
+    setTracks(prev => prev.map(t => analyses[t.TrackID]
+      ? { ...t, ...written[t.TrackID], Analysis: analyses[t.TrackID] }
+      : t));
+    setSpreadsheetImport(null);
+    setToastMessage({ message: `Applied ${accepted.length} spreadsheet changes to ${changedTracks.length} tracks`, type: "success" });
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const handleStripTags = () => {
+    const job = startJournalJob("Strip CrateBatch Tags");
+    const entries: JournalEntry[] = [];
+    const analyses: Record<string, JournalAnalysis> = {};
+    const cleaned = tracks.map(t => {
+      const write = stripCrateBatchTags(t);
+      if (!write) return t;
+      entries.push(...createJournalEntries(job.id, t, [write]));
+      // The analysis is whatever the comment still says, the same as on import
+      const analysis = extractAnalysisFromComments(write.after);
+      analyses[t.TrackID] = { before: t.Analysis, after: analysis };
+      return { ...t, Comments: write.after, Analysis: analysis };
+    });
+    appendJournalEntries(job.id, entries);
+    recordJournalAnalyses(job.id, analyses);
+    const strippedCount = entries.length;
+    setTracks(cleaned);
+    setShowSettingsModal(false);
+    setToastMessage({ message: `Stripped CrateBatch tags from ${strippedCount} tracks.`, type: "success" });
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const offerTagMigrations = (libraryTracks: RekordboxTrack[]) => {
+    const migrations = findTagMigrations(libraryTracks);
+    if (migrations.length > 0) setTagMigrations(migrations);
+  };
+
+  const handleApplyTagMigrations = () => {
+    if (!tagMigrations) return;
+    const affectedIds = new Set(tagMigrations.flatMap(m => m.trackIds));
+    const job = startJournalJob("Tag Migration");
+    const entries: JournalEntry[] = [];
+    const analyses: Record<string, JournalAnalysis> = {};
+    const migrated = tracks.map(t => {
+      if (!affectedIds.has(t.TrackID)) return t;
+      const writes = migrateTrackTags(t);
+      if (writes.length === 0) return t;
+      entries.push(...createJournalEntries(job.id, t, writes));
+      const columns = Object.fromEntries(writes.map(w => [w.field, w.after]));
+      const analysis = t.Analysis && migrateAnalysis(t.Analysis);
+      analyses[t.TrackID] = { before: t.Analysis, after: analysis };
+      return { ...t, ...columns, Analysis: analysis };
+    });
+    appendJournalEntries(job.id, entries);
+    recordJournalAnalyses(job.id, analyses);
+    setTracks(migrated);
+    setTagMigrations(null);
+    setToastMessage({ message: `Migrated tags on ${new Set(entries.map(e => e.trackId)).size} tracks.`, type: "success" });
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const handleSaveTaxonomy = (taxonomy: Taxonomy) => {
+    // Activate now rather than on the next render so the migration scan below sees the new rules
+    setActiveTaxonomy(taxonomy);
+    setSettings(prev => ({ ...prev, taxonomy }));
+    setShowTaxonomyEditor(false);
+    if (tracks.length === 0) return;
+
+    setTracks(prev => prev.map(t => {
+      const analysis = t.Analysis && migrateAnalysis(t.Analysis);
+      return analysis !== t.Analysis ? { ...t, Analysis: analysis } : t;
+    }));
+    offerTagMigrations(tracks);
+  };
+
   const handleAnalyzeSingle = async (trackId: string) => {
     const track = tracks.find(t => t.TrackID === trackId);
     if (!track) return;
     
+    // One track is still a job: it has to fit the per-job cap and what is left of the month's budget
+    const spendingCap = jobSpendingCap(settings.budget, await getMonthSpend());
+    const guard = createSpendingGuard(spendingCap);
+    const estimate = isFinite(spendingCap) ? (await estimateEnrichmentCost([track], 'full')).cost : 0;
+    if (spendingCap <= 0 || !guard.reserve(estimate)) {
+      const reason = spendingCap <= 0 ? "This month's AI budget is used up." : "Analyzing this track would go over your AI budget.";
+      setToastMessage({ message: `${reason} Raise it in Settings to continue.`, type: "error" });
+      setTimeout(() => setToastMessage(null), 5000);
+      return;
+    }
+
     setActiveProcessingIds(prev => new Set(prev).add(trackId));
-    const { results } = await generateTagsBatch([track], 'full');
-    
-    if (results[trackId]) {
-      setTracks(prev => prev.map(t => t.TrackID === trackId ? { ...t, Analysis: results[trackId] } : t));
-      updateTrackNode(track, results[trackId], 'full');
+    const label = `Analyze: ${track.Artist} - ${track.Name}`;
+    let settled = false;
+    try {
+      const batch = await generateTagsBatch([track], 'full');
+      guard.settle(estimate, batch.usage.cost);
+      settled = true;
+      await recordUsage({ id: `analyze_${Date.now()}`, label }, 'full', batch.usage);
+
+      const { results, held } = holdForReview([track], batch.results, 'full', settings.tags.reviewThreshold);
+      if (held.length > 0) {
+        setReviewQueue(prev => mergeReviewItems(prev, held));
+        setShowReviewQueue(true);
+      }
+      if (results[trackId]) {
+        const job = startJournalJob(label);
+        const columns = writeResultsToLibrary(job.id, [track], results, 'full')[trackId] || {};
+        recordJournalAnalyses(job.id, { [trackId]: { before: track.Analysis, after: results[trackId] } });
+        setTracks(prev => prev.map(t => t.TrackID === trackId ? { ...t, ...columns, Analysis: results[trackId] } : t));
+      }
+    } catch (e: any) {
+      setToastMessage({ message: `Analysis failed: ${e.message}`, type: "error" });
+      setTimeout(() => setToastMessage(null), 3000);
+    } finally {
+      if (!settled) guard.settle(estimate, 0);
+      setActiveProcessingIds(prev => {
+        const next = new Set(prev);
+        next.delete(trackId);
+        return next;
+      });
     }
-    
-    setActiveProcessingIds(prev => {
-      const next = new Set(prev);
-      next.delete(trackId);
-      return next;
+  };
+
+  // Write accepted review values, one journal job for the whole decision
+  const handleResolveReview = (decisions: ReviewDecision[]) => {
+    const resolvedIds = new Set(decisions.map(d => d.item.id));
+    setReviewQueue(prev => prev.filter(item => !resolvedIds.has(item.id)));
+
+    const accepted = decisions.flatMap(({ item, value }) => value !== null ? [{ item, value }] : []);
+    if (accepted.length === 0) return;
+
+    const byTrack = new Map<string, typeof accepted>();
+    accepted.forEach(d => byTrack.set(d.item.trackId, [...(byTrack.get(d.item.trackId) || []), d]));
+
+    const job = startJournalJob(`Review (${accepted.length} values)`);
+    const updates = new Map<string, { columns: Record<string, string>, analysis: AIAnalysis }>();
+    const analyses: Record<string, JournalAnalysis> = {};
+    tracks.forEach(t => {
+      const trackDecisions = byTrack.get(t.TrackID);
+      if (!trackDecisions) return;
+      const [first, ...rest] = trackDecisions;
+      const analysis = rest.reduce((current, d) => applyReviewValue(current, d.item, d.value), applyReviewValue(t.Analysis, first.item, first.value));
+      const modes = new Set(trackDecisions.map(d => d.item.mode));
+      const columns: Record<string, string> = {};
+      modes.forEach(mode => Object.assign(columns, writeResultsToLibrary(job.id, [t], { [t.TrackID]: analysis }, mode)[t.TrackID]));
+      updates.set(t.TrackID, { columns, analysis });
+      analyses[t.TrackID] = { before: t.Analysis, after: analysis };
     });
+    recordJournalAnalyses(job.id, analyses);
+
+    setTracks(prev => prev.map(t => {
+      const update = updates.get(t.TrackID);
+      return update ? { ...t, ...update.columns, Analysis: update.analysis } : t;
+    }));
+    setToastMessage({ message: `Wrote ${accepted.length} reviewed values`, type: "success" });
+    setTimeout(() => setToastMessage(null), 3000);
   };
 
   const clearFilters = () => {
@@ -441,6 +1144,8 @@ const App: React.FC = () => {
     setFocusMode(null);
   };
 
+  const detailsTrack = detailsTrackId ? tracks.find(t => t.TrackID === detailsTrackId) : undefined;
+
   const needsEnrichment = (t: RekordboxTrack) => {
       return !t.Analysis || t.Analysis.vibe === 'Unknown' || t.Analysis.vibe === undefined;
   };
@@ -462,16 +1167,30 @@ const App: React.FC = () => {
               onKeyDown={e => e.key === 'Enter' && handleSearch(searchInput)} 
               className="bg-dj-panel border border-dj-border rounded-none py-1.5 px-6 text-sm focus:outline-none focus:border-dj-neon w-80 transition-all focus:w-96 text-white placeholder-dj-dim font-mono" 
             />
+            <div className="flex items-center">
+              <button onClick={handleUndo} disabled={isEnriching || !findUndoableJob(journal)} title="Undo last job" className="p-2 hover:bg-white/10 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"><Undo2 className="w-4 h-4 text-dj-dim hover:text-white" /></button>
+              <button onClick={handleRedo} disabled={isEnriching || redoStack.length === 0} title="Redo" className="p-2 hover:bg-white/10 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"><Redo2 className="w-4 h-4 text-dj-dim hover:text-white" /></button>
+              <button onClick={() => setShowHistory(true)} title="Change history" className="p-2 hover:bg-white/10 rounded-full transition-colors"><History className="w-4 h-4 text-dj-dim hover:text-white" /></button>
+              {window.electron && <button onClick={() => setShowBackups(true)} title="Library backups" className="p-2 hover:bg-white/10 rounded-full transition-colors"><ArchiveRestore className="w-4 h-4 text-dj-dim hover:text-white" /></button>}
+              <button onClick={() => setShowUsage(true)} title="AI usage and spend" className="p-2 hover:bg-white/10 rounded-full transition-colors"><Receipt className="w-4 h-4 text-dj-dim hover:text-white" /></button>
+              {reviewQueue.length > 0 && (
+                <button onClick={() => setShowReviewQueue(true)} title="Values waiting for review" className="flex items-center gap-1 p-2 hover:bg-white/10 rounded-full transition-colors">
+                  <ListChecks className="w-4 h-4 text-yellow-400" />
+                  <span className="text-[10px] font-mono text-yellow-400">{reviewQueue.length}</span>
+                </button>
+              )}
+            </div>
+            <button onClick={() => setShowTaxonomyEditor(true)} title="Edit taxonomy" className="p-2 hover:bg-white/10 rounded-full transition-colors"><Tags className="w-4 h-4 text-dj-dim hover:text-white" /></button>
             <button onClick={() => setShowSettingsModal(true)} className="p-2 hover:bg-white/10 rounded-full transition-colors"><SettingsIcon className="w-4 h-4 text-dj-dim hover:text-white" /></button>
             <button onClick={() => setShowEnrichmentWarning(true)} className="bg-dj-neon text-black border border-dj-neon px-5 py-1.5 rounded-sm text-xs font-bold uppercase hover:bg-white hover:border-white transition-all tracking-wider">ENRICH</button>
-            <button onClick={handleExport} className="bg-transparent text-dj-neon border border-dj-neon px-5 py-1.5 rounded-sm text-xs font-bold uppercase hover:bg-dj-neon/10 transition-all tracking-wider">EXPORT XML</button>
-            <button onClick={() => { setTracks([]); setStatus(ParseStatus.IDLE); }} className="text-[10px] px-3 py-1.5 rounded-sm border border-dj-border text-dj-dim hover:text-red-500 hover:border-red-500 uppercase tracking-wider">CLOSE</button>
+            <button onClick={openExportPreview} className="bg-transparent text-dj-neon border border-dj-neon px-5 py-1.5 rounded-sm text-xs font-bold uppercase hover:bg-dj-neon/10 transition-all tracking-wider">EXPORT {libraryFormat === 'traktor' ? 'NML' : 'XML'}</button>
+            <button onClick={handleCloseLibrary} className="text-[10px] px-3 py-1.5 rounded-sm border border-dj-border text-dj-dim hover:text-red-500 hover:border-red-500 uppercase tracking-wider">CLOSE</button>
           </div>
         )}
       </header>
       <main className="flex-1 overflow-y-auto overflow-x-hidden no-scrollbar" ref={mainScrollRef as React.RefObject<HTMLDivElement>}>
         <div className="p-6 flex flex-col min-h-full">
-          {status === ParseStatus.IDLE && <div className="flex-1 flex flex-col items-center justify-center mt-20"><h2 className="text-2xl font-bold mb-4 tracking-tight">IMPORT COLLECTION</h2><FileUploader onFileSelect={handleFileSelect} isLoading={false} /></div>}
+          {(status === ParseStatus.IDLE || status === ParseStatus.PARSING || status === ParseStatus.ERROR) && <div className="flex-1 flex flex-col items-center justify-center mt-20"><h2 className="text-2xl font-bold mb-4 tracking-tight">IMPORT COLLECTION</h2><FileUploader onFileSelect={handleFileSelect} isLoading={status === ParseStatus.PARSING} progress={parseProgress} />{status !== ParseStatus.PARSING && <RecentSessions sessions={recentSessions} onResume={handleResumeSession} onDelete={handleDeleteSession} />}{status !== ParseStatus.PARSING && window.electron && <button onClick={() => setShowBackups(true)} className="mt-6 flex items-center gap-1.5 text-[10px] font-bold uppercase text-dj-dim hover:text-white transition-colors"><ArchiveRestore className="w-3 h-3" /> Restore a Library Backup</button>}</div>}
           {status === ParseStatus.SUCCESS && (
             <div className="flex flex-col gap-6 animate-fade-in">
                {isStatsVisible && (
@@ -483,6 +1202,11 @@ const App: React.FC = () => {
                        setIsStatsVisible(false);
                      }} 
                      isProcessing={isEnriching} 
+                     jobState={jobState}
+                     onPause={handlePauseJob}
+                     onResume={handleResumeJob}
+                     onCancel={handleCancelJob}
+                     onShowUnprocessed={() => setFocusMode({ label: `Not Processed (${processingStats.unprocessedIds.length})`, ids: new Set(processingStats.unprocessedIds) })}
                    />
                  </div>
                )}
@@ -523,17 +1247,59 @@ const App: React.FC = () => {
                      </button>
                    )}
                  </div>
-                 {(activeFilterName || activeSearchQuery || focusMode) && <button onClick={() => setShowPlaylistModal(true)} className="flex items-center gap-1.5 px-3 py-1 bg-green-500/10 border border-green-500 rounded-sm text-[10px] font-bold text-green-500 hover:bg-green-500 hover:text-black uppercase"><ListPlus className="w-3 h-3" />Save Playlist</button>}
+                 <div className="flex items-center gap-2">
+                   <button onClick={() => handleExportView('csv')} title="Export the tracks in this view" className="flex items-center gap-1.5 px-3 py-1 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-white hover:border-white transition-colors"><Download className="w-3 h-3" />CSV</button>
+                   <button onClick={() => handleExportView('json')} title="Export the tracks in this view" className="flex items-center gap-1.5 px-3 py-1 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-white hover:border-white transition-colors"><Download className="w-3 h-3" />JSON</button>
+                   <button onClick={() => spreadsheetInputRef.current?.click()} disabled={isEnriching} title="Import an edited CSV" className="flex items-center gap-1.5 px-3 py-1 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-white hover:border-white transition-colors disabled:opacity-30"><Upload className="w-3 h-3" />Import CSV</button>
+                   <input
+                     ref={spreadsheetInputRef}
+                     type="file"
+                     accept=".csv"
+                     className="hidden"
+                     onChange={e => { const file = e.target.files?.[0]; e.target.value = ""; if (file) handleSpreadsheetFile(file); }}
+                   />
+                   {(activeFilterName || activeSearchQuery || focusMode) && <button onClick={() => setShowPlaylistModal(true)} className="flex items-center gap-1.5 px-3 py-1 bg-green-500/10 border border-green-500 rounded-sm text-[10px] font-bold text-green-500 hover:bg-green-500 hover:text-black uppercase"><ListPlus className="w-3 h-3" />Save Playlist</button>}
+                 </div>
+               </div>
+               <div className="flex gap-6 items-start">
+                 {libraryPlaylists.length > 0 && (
+                   <PlaylistSidebar 
+                     playlists={libraryPlaylists} 
+                     activeId={dashboardFilter?.type === 'playlist' ? dashboardFilter.value : null} 
+                     onSelect={node => { setDashboardFilter({ type: 'playlist', value: node.id }); setActiveFilterName(`playlist: ${node.name}`); }} 
+                   />
+                 )}
+                 <div className="flex-1 min-w-0">
+                   <TrackTable tracks={visibleTracks} onAnalyzeTrack={handleAnalyzeSingle} onShowDetails={setDetailsTrackId} analyzingIds={activeProcessingIds} scrollElement={mainScrollRef.current} />
+                 </div>
                </div>
-               <TrackTable tracks={visibleTracks} onAnalyzeTrack={handleAnalyzeSingle} analyzingIds={activeProcessingIds} scrollElement={mainScrollRef.current} />
             </div>
           )}
         </div>
       </main>
       {showDuplicateModal && <DuplicateReviewModal groups={stats.missingData.duplicateGroups} onClose={() => setShowDuplicateModal(false)} />}
-      {showEnrichmentWarning && <EnrichmentWarningModal filteredCount={visibleTracks.length} totalCount={tracks.length} onProcessFiltered={() => { setShowEnrichmentWarning(false); processBatch(visibleTracks.filter(needsEnrichment), 'full'); }} onProcessAll={() => { setShowEnrichmentWarning(false); processBatch(tracks.filter(needsEnrichment), 'full'); }} onCancel={() => setShowEnrichmentWarning(false)} />}
+      {showEnrichmentWarning && <EnrichmentWarningModal filteredCount={visibleTracks.length} totalCount={tracks.length} filteredEstimate={enrichmentEstimates === 'unavailable' ? 'unavailable' : enrichmentEstimates?.filtered || null} totalEstimate={enrichmentEstimates === 'unavailable' ? 'unavailable' : enrichmentEstimates?.total || null} spendingCap={jobSpendingCap(settings.budget, enrichmentEstimates && enrichmentEstimates !== 'unavailable' ? enrichmentEstimates.monthSpent : 0)} onProcessFiltered={() => { setShowEnrichmentWarning(false); processBatch(visibleTracks.filter(needsEnrichment), 'full'); }} onProcessAll={() => { setShowEnrichmentWarning(false); processBatch(tracks.filter(needsEnrichment), 'full'); }} onCancel={() => setShowEnrichmentWarning(false)} />}
       {showPlaylistModal && <PlaylistNameModal defaultValue={activeFilterName || activeSearchQuery || focusMode?.label || "New Playlist"} count={visibleTracks.length} onSave={name => { setSavedPlaylists(prev => [...prev, { name, trackIds: visibleTracks.map(t => t.TrackID) }]); setShowPlaylistModal(false); setToastMessage({ message: `Playlist "${name}" saved!`, type: "success" }); setTimeout(() => setToastMessage(null), 3000); }} onClose={() => setShowPlaylistModal(false)} />}
-      {showSettingsModal && <SettingsModal settings={settings} onSave={newSettings => { setSettings(newSettings); setShowSettingsModal(false); }} onClose={() => setShowSettingsModal(false)} />}
+      {exportPreview && <ExportPreviewModal preview={exportPreview} saveTarget={window.electron ? sessionRef.current?.sourcePath || null : undefined} onExport={handleExport} onSaveReport={handleSaveChangeReport} onClose={() => setExportPreview(null)} />}
+      {detailsTrack && <TrackDetailsModal track={detailsTrack} pendingReview={reviewQueue.filter(item => item.trackId === detailsTrack.TrackID)} onOpenReview={() => { setDetailsTrackId(null); setShowReviewQueue(true); }} onClose={() => setDetailsTrackId(null)} />}
+      {showReviewQueue && reviewQueue.length > 0 && !isEnriching && <ReviewQueueModal items={reviewQueue} threshold={settings.tags.reviewThreshold} onResolve={handleResolveReview} onClose={() => setShowReviewQueue(false)} />}
+      {showUsage && <UsageModal monthlyBudget={settings.budget.perMonth} onClose={() => setShowUsage(false)} />}
+      {showBackups && <BackupsModal backupCount={settings.export.backupCount} onRestored={handleBackupRestored} onClose={() => setShowBackups(false)} />}
+      {spreadsheetImport && <SpreadsheetImportModal fileName={spreadsheetImport.fileName} diff={spreadsheetImport.diff} onApply={handleApplySpreadsheet} onClose={() => setSpreadsheetImport(null)} />}
+      {showHistory && (
+        <HistoryPanel
+          journal={journal}
+          disabled={isEnriching}
+          onUndoJob={job => applyJournalChange(job.entries, 'undo')}
+          onRedoJob={job => { applyJournalChange(job.entries, 'redo'); setRedoStack(prev => prev.filter(id => id !== job.id)); }}
+          onToggleEntry={entry => applyJournalChange([entry], entry.undone ? 'redo' : 'undo')}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+      {showTaxonomyEditor && <TaxonomyEditorModal taxonomy={settings.taxonomy} onSave={handleSaveTaxonomy} onClose={() => setShowTaxonomyEditor(false)} />}
+      {libraryReload && <LibraryReloadModal summary={libraryReload} onEnrichAdded={() => { const addedIds = new Set(libraryReload.addedIds); setLibraryReload(null); processBatch(tracks.filter(t => addedIds.has(t.TrackID) && needsEnrichment(t)), 'full'); }} onClose={() => setLibraryReload(null)} />}
+      {tagMigrations && <TagMigrationModal migrations={tagMigrations} onApply={handleApplyTagMigrations} onClose={() => setTagMigrations(null)} />}
+      {showSettingsModal && <SettingsModal settings={settings} onSave={newSettings => { setSettings(newSettings); setShowSettingsModal(false); }} onClose={() => setShowSettingsModal(false)} onStripTags={tracks.length > 0 ? handleStripTags : undefined} libraryFormat={tracks.length > 0 ? libraryFormat : undefined} />}
       
       {toastMessage && (
         <div className={`fixed bottom-8 left-1/2 -translate-x-1/2 z-[200] flex items-center gap-3 bg-dj-panel border ${toastMessage.type === 'error' ? 'border-red-500 text-red-100' : 'border-dj-neon/50 text-white'} px-6 py-3 rounded-none shadow-2xl animate-fade-in`}>
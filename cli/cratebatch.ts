@@ -0,0 +1,360 @@
+/// <reference types="node" />
+import { createReadStream } from 'node:fs';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { RekordboxTrack, ParsedCollection, AppSettings, AIAnalysis, EnrichmentMode, FieldMapping, BudgetSettings } from '../types';
+import { updateTrackNode, generateSmartPlaylists, exportRekordboxXML } from '../services/parser';
+import { generateTraktorPlaylists, exportTraktorNML, TRAKTOR_FOLDER_NAME } from '../services/traktor';
+import { generateTagsBatch } from '../services/ai';
+import { DEFAULT_AI_PROVIDER_SETTINGS, setActiveAIProvider } from '../services/aiProviders';
+import { setAnalysisCacheStore, flushAnalysisCache } from '../services/analysisCache';
+import { DEFAULT_TAXONOMY, setActiveTaxonomy, upgradeTaxonomy, parseTaxonomyJSON } from '../services/taxonomy';
+import { DEFAULT_FIELD_MAPPING } from '../services/fieldMapping';
+import { chunkArray, calculateLibraryStats, findDuplicates } from '../services/utils';
+import { createJobController, runJob } from '../services/jobRunner';
+import { holdForReview, DEFAULT_REVIEW_THRESHOLD } from '../services/reviewQueue';
+import { parseLibraryChunks } from '../services/libraryParse';
+import { estimateEnrichmentCost, jobSpendingCap, createSpendingGuard } from '../services/budget';
+import { setUsageLedgerStore, recordUsage, getMonthSpend } from '../services/usageLedger';
+
+// Headless CrateBatch: every line on stdout is one JSON event, so runs can be scripted and diffed.
+// Build with `npm run build:cli`, then run `node dist-cli/cratebatch.js <command> <library> [flags]`.
+
+const USAGE = `Usage: cratebatch <command> <library.xml|collection.nml> [flags]
+
+Commands:
+  enrich   Analyze tracks with the AI and write the tags into the library
+  stats    Print library statistics
+  dupes    List possible duplicate tracks
+  export   Add the generated playlists and write the library
+
+Flags:
+  --mode <full|missing_genre|missing_year>  What to enrich (default: full)
+  --all                      Re-analyze tracks that already have tags (full mode)
+  --concurrency <n>          Batches in flight at once (default: 8)
+  --chunk <n>                Tracks per AI request (default: 100)
+  --budget <usd>             Per-job budget, 0 for none (default: the per-job budget from
+                             --settings). The monthly budget from --settings applies too
+  --output <path>            Where to write the library (default: <name>_cratebatch.<ext>)
+  --settings <path>          CrateBatch settings.json (field mapping, taxonomy, AI provider, threshold)
+  --taxonomy <path>          Taxonomy JSON exported from the tag editor
+  --provider <id>            gemini-proxy or openai-compatible
+  --base-url <url>           OpenAI-compatible server, e.g. http://localhost:11434/v1
+  --model <name>             OpenAI-compatible model
+  --cache <path>             Analysis cache file (default: ~/.cratebatch/analysis-cache.json)
+  --no-cache                 Don't read or write the analysis cache
+  --ledger <path>            Usage ledger the spend is recorded in and the monthly budget is
+                             checked against (default: ~/.cratebatch/usage-ledger.json)
+  --threshold <0-1>          Confidence for secondary tags in playlists, stats and the tag block
+  --review <0-1>             Don't write AI values below this confidence; report them as
+                             "held" events. 0 writes everything (default: the review
+                             threshold from --settings, else 0.5 like the app)
+  --folder <name>            Root folder for generated playlists (default: AI_GENERATED)
+  --nest-sub-genres          Put Sub-Genre playlists in one folder per main genre`;
+
+const RETRY_CHUNK_SIZE = 50;
+const RETRY_CONCURRENCY = 4;
+
+// Tracks themselves are serialized without their XML nodes
+const emit = (event: string, data: Record<string, unknown> = {}) => {
+  process.stdout.write(JSON.stringify({ event, time: new Date().toISOString(), ...data }, (key, value) => key.startsWith('_') ? undefined : value) + '\n');
+};
+
+class UsageError extends Error {}
+
+const { values: flags, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    mode: { type: 'string', default: 'full' },
+    all: { type: 'boolean', default: false },
+    concurrency: { type: 'string', default: '8' },
+    chunk: { type: 'string', default: '100' },
+    budget: { type: 'string' },
+    output: { type: 'string' },
+    settings: { type: 'string' },
+    taxonomy: { type: 'string' },
+    provider: { type: 'string' },
+    'base-url': { type: 'string' },
+    model: { type: 'string' },
+    cache: { type: 'string', default: path.join(os.homedir(), '.cratebatch', 'analysis-cache.json') },
+    'no-cache': { type: 'boolean', default: false },
+    ledger: { type: 'string', default: path.join(os.homedir(), '.cratebatch', 'usage-ledger.json') },
+    threshold: { type: 'string' },
+    review: { type: 'string' },
+    folder: { type: 'string' },
+    'nest-sub-genres': { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false }
+  }
+});
+
+const positiveInt = (value: string | undefined, name: string): number => {
+  const n = parseInt(value || "", 10);
+  if (isNaN(n) || n < 1) throw new UsageError(`--${name} must be a positive whole number`);
+  return n;
+};
+
+const fraction = (value: string, name: string): number => {
+  const n = parseFloat(value);
+  if (isNaN(n) || n < 0 || n > 1) throw new UsageError(`--${name} must be between 0 and 1`);
+  return n;
+};
+
+// Same fallbacks the app uses for settings saved by older versions
+const loadCliSettings = async () => {
+  const saved: Partial<AppSettings> = flags.settings ? JSON.parse(await readFile(flags.settings, 'utf-8')) : {};
+  const mapping: FieldMapping = { ...DEFAULT_FIELD_MAPPING, ...saved.mapping };
+  const taxonomy = flags.taxonomy ? parseTaxonomyJSON(await readFile(flags.taxonomy, 'utf-8')) : upgradeTaxonomy(saved.taxonomy || DEFAULT_TAXONOMY);
+  const ai = { ...DEFAULT_AI_PROVIDER_SETTINGS, ...saved.ai, openai: { ...DEFAULT_AI_PROVIDER_SETTINGS.openai, ...saved.ai?.openai } };
+  if (flags.provider) {
+    if (flags.provider !== 'gemini-proxy' && flags.provider !== 'openai-compatible') throw new UsageError(`Unknown provider "${flags.provider}"`);
+    ai.provider = flags.provider;
+  }
+  if (flags['base-url']) ai.openai.baseUrl = flags['base-url'];
+  if (flags.model) ai.openai.model = flags.model;
+
+  return {
+    mapping,
+    taxonomy,
+    ai,
+    threshold: flags.threshold !== undefined ? fraction(flags.threshold, 'threshold') : saved.tags?.confidenceThreshold ?? 0.5,
+    reviewThreshold: flags.review !== undefined ? fraction(flags.review, 'review') : saved.tags?.reviewThreshold ?? DEFAULT_REVIEW_THRESHOLD,
+    budget: { perJob: 0, perMonth: 0, ...saved.budget } as BudgetSettings,
+    folderName: flags.folder || saved.export?.folderName || "AI_GENERATED",
+    nestSubGenres: flags['nest-sub-genres'] || !!saved.export?.nestSubGenres
+  };
+};
+
+// The analysis cache and usage ledger each live in one JSON file, rewritten whole like the desktop app's
+const jsonFileStore = <T>(file: string) => ({
+  load: async (): Promise<T[]> => {
+    try {
+      return JSON.parse(await readFile(file, 'utf-8'));
+    } catch (e) {
+      return [];
+    }
+  },
+  save: async (_changed: T[], all: T[]) => {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(all), 'utf-8');
+  }
+});
+
+// Streamed like the app's import, so large libraries are never held in memory as one string
+const loadCollection = (file: string): Promise<ParsedCollection> => parseLibraryChunks(createReadStream(file, { encoding: 'utf-8' }));
+
+const defaultOutputPath = (input: string) => {
+  const { dir, name, ext } = path.parse(input);
+  return path.join(dir, `${name}_cratebatch${ext}`);
+};
+
+const writeCollection = async (collection: ParsedCollection, output: string) => {
+  const content = collection.format === 'traktor' ? exportTraktorNML(collection.fullData) : exportRekordboxXML(collection.fullData);
+  await writeFile(output, content, 'utf-8');
+  emit('written', { output, bytes: Buffer.byteLength(content) });
+};
+
+// Same selection as the app's Enrich, Fix Genres and Fix Years actions
+const selectTracks = (tracks: RekordboxTrack[], mode: EnrichmentMode, all: boolean): RekordboxTrack[] => {
+  if (mode === 'missing_genre') return tracks.filter(t => !t.Genre);
+  if (mode === 'missing_year') return tracks.filter(t => !t.Year || t.Year === "0");
+  return all ? tracks : tracks.filter(t => !t.Analysis || t.Analysis.vibe === 'Unknown' || t.Analysis.vibe === undefined);
+};
+
+const mergeResult = (track: RekordboxTrack, result: AIAnalysis, mode: EnrichmentMode): AIAnalysis => {
+  const base = track.Analysis || { vibe: 'Unknown', subGenre: 'Unknown', situation: 'Unknown', year: '0' };
+  if (mode === 'missing_genre') return { ...base, mainGenre: result.mainGenre };
+  if (mode === 'missing_year') return { ...base, year: result.year, yearSources: result.yearSources };
+  return result;
+};
+
+const runEnrich = async (collection: ParsedCollection, input: string, mapping: FieldMapping, budgetSettings: BudgetSettings, reviewThreshold: number, threshold: number) => {
+  const mode = flags.mode as EnrichmentMode;
+  if (!['full', 'missing_genre', 'missing_year'].includes(mode)) throw new UsageError(`Unknown mode "${flags.mode}"`);
+  const concurrency = positiveInt(flags.concurrency, 'concurrency');
+  const chunkSize = positiveInt(flags.chunk, 'chunk');
+  const perJob = flags.budget !== undefined ? parseFloat(flags.budget) : budgetSettings.perJob;
+  if (isNaN(perJob) || perJob < 0) throw new UsageError("--budget must be a dollar amount");
+  const output = flags.output || defaultOutputPath(input);
+
+  // Same caps as the app: the per-job budget or what is left of the month's, whichever is lower
+  const monthSpent = await getMonthSpend();
+  const budget = jobSpendingCap({ ...budgetSettings, perJob }, monthSpent);
+  if (budget <= 0) throw new Error("This month's AI budget is used up");
+  const guard = createSpendingGuard(budget);
+
+  const targets = selectTracks(collection.tracks, mode, flags.all);
+  const job = { id: `cli_${Date.now()}`, label: `CLI ${mode} (${targets.length} tracks)` };
+  emit('start', { command: 'enrich', mode, library: input, totalTracks: collection.tracks.length, targetTracks: targets.length, concurrency, chunkSize, budget: isFinite(budget) ? budget : null, monthSpent });
+
+  const totals = { processed: 0, written: 0, held: 0, cost: 0, inputTokens: 0, outputTokens: 0, cacheHits: 0, cacheSavings: 0, inferred: 0 };
+  const failed: RekordboxTrack[] = [];
+  const skipped: RekordboxTrack[] = [];
+  const cancelled: RekordboxTrack[] = [];
+  const startTime = Date.now();
+  // Models missing from the price list are costed at fallback rates; each is reported once
+  const unpricedModels = new Set<string>();
+
+  // Ctrl-C stops the job but still writes what was enriched so far
+  const controller = createJobController();
+  process.once('SIGINT', () => {
+    emit('cancelling');
+    controller.cancel();
+  });
+
+  const runChunk = async (chunk: RekordboxTrack[], label: string, isRetry: boolean, signal: AbortSignal) => {
+    // Batches in flight hold their estimated cost against the cap, so parallel batches can't overshoot it
+    const estimate = isFinite(budget) ? (await estimateEnrichmentCost(chunk, mode, isRetry)).cost : 0;
+    if (!guard.reserve(estimate)) {
+      skipped.push(...chunk);
+      return;
+    }
+    const batchStart = Date.now();
+    let batch;
+    try {
+      batch = await generateTagsBatch(chunk, mode, isRetry, signal);
+    } catch (e) {
+      guard.settle(estimate, 0);
+      throw e;
+    }
+    const { usage, error, cache, inferred, failures, repaired } = batch;
+    guard.settle(estimate, usage.cost);
+    // The batch is settled and paid for: a failed ledger write is reported, not retried with it
+    await recordUsage(job, mode, usage).catch(e => emit('usage_not_recorded', { batch: label, cost: usage.cost, error: e.message }));
+    usage.models?.filter(m => m.unpriced && !unpricedModels.has(m.model)).forEach(m => {
+      unpricedModels.add(m.model);
+      emit('unpriced_model', { model: m.model });
+    });
+    const { results, held } = holdForReview(chunk, batch.results, mode, reviewThreshold);
+    held.forEach(item => emit('held', { ...item }));
+    totals.held += held.length;
+
+    totals.cost += usage.cost;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+
+    // Tracks the answer left out are retried on their own; the rest of the batch still counts
+    const missing = chunk.filter(track => !results[track.TrackID]);
+    missing.forEach(track => emit(isRetry ? 'track_failed' : 'track_requeued', { batch: label, trackId: track.TrackID, reason: failures?.[track.TrackID] || error || "No result" }));
+    if (!isRetry) failed.push(...missing);
+    if (missing.length < chunk.length) {
+      totals.processed += chunk.length - missing.length;
+      totals.cacheHits += cache?.hits || 0;
+      totals.cacheSavings += cache?.savedCost || 0;
+      totals.inferred += inferred || 0;
+      chunk.forEach(track => {
+        const result = results[track.TrackID];
+        if (!result) return;
+        totals.written += updateTrackNode(track, result, mode, mapping, threshold).length;
+        track.Analysis = mergeResult(track, result, mode);
+      });
+    }
+
+    emit('batch', {
+      batch: label,
+      tracks: chunk.length,
+      results: Object.keys(results).length,
+      latencyMs: Date.now() - batchStart,
+      cost: usage.cost,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      models: usage.models || [],
+      cacheHits: cache?.hits || 0,
+      inferred: inferred || 0,
+      totalCost: totals.cost,
+      ...(repaired ? { repaired } : {}),
+      ...(error ? { error } : {})
+    });
+  };
+
+  const runPass = async (chunks: RekordboxTrack[][], label: string, isRetry: boolean, passConcurrency: number) => {
+    const outcomes = await runJob(chunks.map((chunk, i) => (signal: AbortSignal) => runChunk(chunk, `${label}${i + 1}/${chunks.length}`, isRetry, signal)), {
+      concurrency: passConcurrency,
+      onRetry: (i, attempt, delay, error) => emit('backoff', { batch: `${label}${i + 1}/${chunks.length}`, attempt, delayMs: Math.round(delay), status: error.status, error: error.message })
+    }, controller);
+
+    outcomes.forEach((outcome, i) => {
+      if (outcome.status === 'cancelled') cancelled.push(...chunks[i]);
+      if (outcome.status !== 'failed') return;
+      emit('batch', { batch: `${label}${i + 1}/${chunks.length}`, tracks: chunks[i].length, results: 0, attempts: outcome.attempts, error: outcome.error });
+      if (!isRetry) failed.push(...chunks[i]);
+    });
+  };
+
+  await runPass(chunkArray(targets, chunkSize), '', false, concurrency);
+
+  if (failed.length > 0 && !controller.signal.aborted) {
+    emit('retry', { tracks: failed.length });
+    await runPass(chunkArray(failed, Math.min(chunkSize, RETRY_CHUNK_SIZE)), 'retry ', true, Math.min(concurrency, RETRY_CONCURRENCY));
+  } else if (failed.length > 0) {
+    cancelled.push(...failed);
+  }
+
+  if (skipped.length > 0) {
+    emit('budget_reached', { budget, spent: guard.spent, unprocessed: skipped.length, unprocessedIds: skipped.map(t => t.TrackID) });
+  }
+
+  await flushAnalysisCache();
+  await writeCollection(collection, output);
+  emit('done', {
+    command: 'enrich',
+    ...totals,
+    failed: targets.length - totals.processed - skipped.length - cancelled.length,
+    unprocessed: skipped.length,
+    cancelled: cancelled.length,
+    durationMs: Date.now() - startTime
+  });
+};
+
+const runExport = async (collection: ParsedCollection, input: string, options: { threshold: number; folderName: string; nestSubGenres: boolean }) => {
+  const { ids } = findDuplicates(collection.tracks);
+  if (collection.format === 'traktor') {
+    generateTraktorPlaylists(collection.fullData, collection.tracks, ids, [], TRAKTOR_FOLDER_NAME, new Set(), options.threshold, options.nestSubGenres);
+  } else {
+    generateSmartPlaylists(collection.fullData, collection.tracks, ids, [], options.folderName, new Set(), options.threshold, options.nestSubGenres);
+  }
+  await writeCollection(collection, flags.output || defaultOutputPath(input));
+  emit('done', { command: 'export', tracks: collection.tracks.length, duplicates: ids.length });
+};
+
+const main = async () => {
+  const [command, input] = positionals;
+  if (flags.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (!['enrich', 'stats', 'dupes', 'export'].includes(command)) throw new UsageError(`Unknown command "${command}"`);
+  if (!input) throw new UsageError("Missing library file");
+
+  const settings = await loadCliSettings();
+  // Comment tags are read with the taxonomy, so it has to be active before parsing
+  setActiveTaxonomy(settings.taxonomy);
+  setActiveAIProvider(settings.ai);
+  if (flags['no-cache']) setAnalysisCacheStore({ load: async () => [], save: async () => {} });
+  else setAnalysisCacheStore(jsonFileStore(flags.cache!));
+  setUsageLedgerStore(jsonFileStore(flags.ledger!));
+
+  const collection = await loadCollection(input);
+  emit('loaded', { library: input, format: collection.format, tracks: collection.tracks.length });
+
+  if (command === 'enrich') return runEnrich(collection, input, settings.mapping, settings.budget, settings.reviewThreshold, settings.threshold);
+  if (command === 'export') return runExport(collection, input, settings);
+
+  if (command === 'stats') {
+    const stats = calculateLibraryStats(collection.tracks, settings.threshold);
+    const { duplicateGroups, ...missingData } = stats.missingData;
+    emit('stats', { ...stats, missingData: { ...missingData, duplicateGroups: duplicateGroups.length } });
+    return;
+  }
+
+  const { groups, duplicateCount } = findDuplicates(collection.tracks);
+  groups.forEach(group => emit('duplicate', { fingerprint: group.fingerprint, tracks: group.tracks }));
+  emit('done', { command: 'dupes', groups: groups.length, duplicateCount });
+};
+
+main().catch(error => {
+  emit('error', { message: error.message });
+  if (error instanceof UsageError) console.error(`\n${USAGE}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, ArchiveRestore, RotateCcw } from 'lucide-react';
+import { LibraryBackup } from '../types';
+import { listBackups, restoreBackup } from '../services/libraryFiles';
+
+interface BackupsModalProps {
+  backupCount: number;
+  onRestored: (filePath: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { hour12: false, year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const BackupsModal: React.FC<BackupsModalProps> = ({ backupCount, onRestored, onClose }) => {
+  const [backups, setBackups] = useState<LibraryBackup[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const refresh = () => listBackups().then(setBackups).catch(e => setError(e.message));
+
+  useEffect(() => { refresh(); }, []);
+
+  // One group per library file, each newest first
+  const groups = useMemo(() => {
+    const byFile = new Map<string, LibraryBackup[]>();
+    (backups || []).forEach(b => byFile.set(b.filePath, [...(byFile.get(b.filePath) || []), b]));
+    return Array.from(byFile.entries());
+  }, [backups]);
+
+  const handleRestore = async (backup: LibraryBackup) => {
+    if (!window.confirm(`Replace ${backup.filePath} with the backup from ${formatTime(backup.createdAt)}? The current file is backed up first.`)) return;
+    setRestoringId(backup.id);
+    try {
+      const filePath = await restoreBackup(backup.id, backupCount);
+      setError(null);
+      onRestored(filePath);
+      await refresh();
+    } catch (e: any) {
+      setError(`Restore failed: ${e.message}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-3xl max-h-[85vh] rounded-xl flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="p-6 border-b border-dj-border flex justify-between items-center bg-dj-dark/50">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+              <ArchiveRestore className="w-6 h-6 text-dj-neon" /> Library Backups
+            </h2>
+            <p className="text-dj-dim text-sm mt-1">
+              Copies taken before each save overwrote a library file. The newest {backupCount} are kept per file.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {error && <div className="px-6 py-2 text-xs text-red-400 border-b border-dj-border/50">{error}</div>}
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {backups === null && <div className="py-20 text-center text-gray-500 text-sm">Loading…</div>}
+          {backups?.length === 0 && <div className="py-20 text-center text-gray-500 text-sm">No backups yet. They are made when a save overwrites an existing file.</div>}
+          {groups.map(([filePath, fileBackups]) => (
+            <div key={filePath} className="border-b border-dj-border/50">
+              <div className="px-6 py-3 bg-dj-dark/40 text-xs font-mono text-white truncate" title={filePath}>{filePath}</div>
+              {fileBackups.map(backup => (
+                <div key={backup.id} className="flex items-center gap-4 px-6 py-2 border-t border-dj-border/20 text-xs hover:bg-white/5">
+                  <span className="flex-1 font-mono text-dj-dim">{formatTime(backup.createdAt)}</span>
+                  <span className="font-mono text-dj-dim">{formatSize(backup.size)}</span>
+                  <button
+                    onClick={() => handleRestore(backup)}
+                    disabled={!!restoringId}
+                    className="flex items-center gap-1.5 px-3 py-1 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-white hover:border-white transition-colors disabled:opacity-40"
+                  >
+                    <RotateCcw className="w-3 h-3" /> {restoringId === backup.id ? "Restoring…" : "Restore"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupsModal;
@@ -1,17 +1,40 @@
 import React from 'react';
 import { AlertTriangle, ListFilter, Layers, XCircle } from 'lucide-react';
+import { CostEstimate } from '../types';
 
 interface EnrichmentWarningModalProps {
   filteredCount: number;
   totalCount: number;
+  // Null while the estimates are being worked out, 'unavailable' if they couldn't be
+  filteredEstimate: CostEstimate | 'unavailable' | null;
+  totalEstimate: CostEstimate | 'unavailable' | null;
+  spendingCap: number; // What a job may spend under the budgets; Infinity without one
   onProcessFiltered: () => void;
   onProcessAll: () => void;
   onCancel: () => void;
 }
 
+const formatCost = (cost: number) => cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`;
+
+const EstimateLine: React.FC<{ estimate: CostEstimate | 'unavailable' | null; spendingCap: number }> = ({ estimate, spendingCap }) => {
+  if (!estimate) return <div className="text-[10px] font-mono text-gray-500 mt-1">Estimating cost…</div>;
+  if (estimate === 'unavailable') return <div className="text-[10px] font-mono text-gray-500 mt-1">Cost estimate unavailable</div>;
+  const sent = estimate.tracks - estimate.local;
+  return (
+    <div className="text-[10px] font-mono mt-1">
+      <span className="text-green-400" title={`Includes about ${estimate.retries} tracks expected to need the deeper retry pass`}>≈ {formatCost(estimate.cost)}</span>
+      <span className="text-gray-500"> · {sent.toLocaleString()} to AI{estimate.local > 0 ? `, ${estimate.local.toLocaleString()} from cache` : ''}</span>
+      {estimate.cost > spendingCap && <div className="text-yellow-400">Over budget: stops at {formatCost(spendingCap)}</div>}
+    </div>
+  );
+};
+
 const EnrichmentWarningModal: React.FC<EnrichmentWarningModalProps> = ({ 
   filteredCount, 
   totalCount, 
+  filteredEstimate,
+  totalEstimate,
+  spendingCap,
   onProcessFiltered, 
   onProcessAll, 
   onCancel 
@@ -46,6 +69,7 @@ const EnrichmentWarningModal: React.FC<EnrichmentWarningModalProps> = ({
             <div>
               <div className="font-bold text-white">Process {filteredCount} Filtered Tracks</div>
               <div className="text-xs text-dj-dim">Only enrich the tracks currently visible.</div>
+              <EstimateLine estimate={filteredEstimate} spendingCap={spendingCap} />
             </div>
           </button>
 
@@ -59,6 +83,7 @@ const EnrichmentWarningModal: React.FC<EnrichmentWarningModalProps> = ({
             <div>
               <div className="font-bold text-white">Process All {totalCount} Tracks</div>
               <div className="text-xs text-dj-dim">Clear filters and enrich entire library.</div>
+              <EstimateLine estimate={totalEstimate} spendingCap={spendingCap} />
             </div>
           </button>
 
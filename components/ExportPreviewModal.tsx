@@ -0,0 +1,194 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { X, FileDiff, Download, FolderTree } from 'lucide-react';
+import { ExportPreview } from '../types';
+
+interface ExportPreviewModalProps {
+  preview: ExportPreview;
+  // Desktop only: the imported file's path (saved in place), or null when it has to be chosen
+  saveTarget?: string | null;
+  onExport: (excludedIds: Set<string>, saveAs?: boolean) => void;
+  onSaveReport: (format: 'json' | 'csv', excludedIds: Set<string>) => void;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<string, string> = {
+  add: 'text-green-400 border-green-500/50 bg-green-500/10',
+  replace: 'text-yellow-400 border-yellow-500/50 bg-yellow-500/10',
+  remove: 'text-red-400 border-red-500/50 bg-red-500/10'
+};
+
+const ExportPreviewModal: React.FC<ExportPreviewModalProps> = ({ preview, saveTarget, onExport, onSaveReport, onClose }) => {
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [fieldFilter, setFieldFilter] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Per-field counts for the filter chips
+  const fieldCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    preview.attributes.forEach(c => { counts[c.field] = (counts[c.field] || 0) + 1; });
+    return Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  }, [preview]);
+
+  const visibleChanges = useMemo(
+    () => fieldFilter ? preview.attributes.filter(c => c.field === fieldFilter) : preview.attributes,
+    [preview, fieldFilter]
+  );
+
+  const rowVirtualizer = useVirtualizer({
+    count: visibleChanges.length,
+    getScrollElement: () => listRef.current,
+    estimateSize: () => 44,
+    overscan: 20
+  });
+
+  const toggle = (id: string) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Include or exclude every change currently listed
+  const setAllVisible = (include: boolean) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      visibleChanges.forEach(c => include ? next.delete(c.id) : next.add(c.id));
+      return next;
+    });
+  };
+
+  const excludablePlaylists = preview.playlists.filter(p => p.action !== 'remove');
+  const includedCount = preview.attributes.filter(c => !excludedIds.has(c.id)).length
+    + excludablePlaylists.filter(p => !excludedIds.has(p.id)).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-6xl h-[90vh] rounded-xl flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="p-6 border-b border-dj-border flex justify-between items-center bg-dj-dark/50">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+              <FileDiff className="w-6 h-6 text-dj-neon" /> Export Preview
+            </h2>
+            <p className="text-dj-dim text-sm mt-1">
+              {preview.attributes.length.toLocaleString()} attribute changes and {preview.playlists.length} playlist changes since import. Uncheck anything you don't want written.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-3">
+          {/* Attribute Changes */}
+          <div className="col-span-2 flex flex-col min-h-0 border-r border-dj-border">
+            <div className="px-6 py-3 border-b border-dj-border/50 flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => setFieldFilter(null)}
+                className={`px-2 py-0.5 rounded-sm border text-[10px] font-mono uppercase ${fieldFilter === null ? 'border-dj-neon text-dj-neon' : 'border-dj-border text-dj-dim hover:text-white'}`}
+              >
+                All ({preview.attributes.length})
+              </button>
+              {fieldCounts.map(([field, count]) => (
+                <button
+                  key={field}
+                  onClick={() => setFieldFilter(field)}
+                  className={`px-2 py-0.5 rounded-sm border text-[10px] font-mono uppercase ${fieldFilter === field ? 'border-dj-neon text-dj-neon' : 'border-dj-border text-dj-dim hover:text-white'}`}
+                >
+                  {field} ({count})
+                </button>
+              ))}
+              <div className="ml-auto flex gap-3 text-[10px] font-mono uppercase">
+                <button onClick={() => setAllVisible(true)} className="text-dj-dim hover:text-white">Check All</button>
+                <button onClick={() => setAllVisible(false)} className="text-dj-dim hover:text-white">Uncheck All</button>
+              </div>
+            </div>
+
+            <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar">
+              {visibleChanges.length === 0 ? (
+                <div className="py-20 text-center text-gray-500 text-sm">No attribute changes.</div>
+              ) : (
+                <div style={{ height: `${rowVirtualizer.getTotalSize()}px`, position: 'relative' }}>
+                  {rowVirtualizer.getVirtualItems().map(virtualRow => {
+                    const change = visibleChanges[virtualRow.index];
+                    const isIncluded = !excludedIds.has(change.id);
+                    return (
+                      <div
+                        key={change.id}
+                        onClick={() => toggle(change.id)}
+                        className={`absolute top-0 left-0 w-full grid items-center gap-3 px-6 text-xs border-b border-dj-border/20 cursor-pointer hover:bg-white/5 ${isIncluded ? '' : 'opacity-40'}`}
+                        style={{ height: `${virtualRow.size}px`, transform: `translateY(${virtualRow.start}px)`, gridTemplateColumns: '20px 2fr 90px 2fr 2fr' }}
+                      >
+                        <input type="checkbox" checked={isIncluded} readOnly className="accent-dj-neon w-3.5 h-3.5 cursor-pointer" />
+                        <span className="truncate text-white" title={change.trackLabel}>{change.trackLabel}</span>
+                        <span className="truncate font-mono text-dj-neon uppercase text-[10px]">{change.field}</span>
+                        <span className="truncate font-mono text-red-300/80 line-through" title={change.before}>{change.before || '∅'}</span>
+                        <span className="truncate font-mono text-green-300" title={change.after}>{change.after || '∅'}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Playlist Changes */}
+          <div className="flex flex-col min-h-0">
+            <div className="px-6 py-3 border-b border-dj-border/50 flex items-center gap-2 text-[10px] uppercase text-dj-dim font-mono tracking-widest">
+              <FolderTree className="w-3.5 h-3.5 text-dj-neon" /> Playlist Nodes
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar">
+              {preview.playlists.map(p => {
+                const isRemoval = p.action === 'remove';
+                const isIncluded = isRemoval || !excludedIds.has(p.id);
+                return (
+                  <div
+                    key={p.id}
+                    onClick={() => !isRemoval && toggle(p.id)}
+                    className={`flex items-center gap-3 px-6 py-2 text-xs border-b border-dj-border/20 ${isRemoval ? '' : 'cursor-pointer hover:bg-white/5'} ${isIncluded ? '' : 'opacity-40'}`}
+                    title={isRemoval ? "Removed because the generated folder is rebuilt on export" : p.id}
+                  >
+                    <input type="checkbox" checked={isIncluded} disabled={isRemoval} readOnly className="accent-dj-neon w-3.5 h-3.5 cursor-pointer" />
+                    <span className={`shrink-0 px-1.5 py-0.5 rounded-sm border text-[9px] font-bold font-mono uppercase ${ACTION_STYLES[p.action]}`}>{p.action}</span>
+                    <span className="truncate flex-1 text-gray-300">{p.id}</span>
+                    {!isRemoval && <span className="shrink-0 font-mono text-dj-dim">{p.entries}</span>}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-dj-border bg-dj-dark/80 flex justify-between items-center px-8">
+          <div className="flex gap-3">
+            <button onClick={() => onSaveReport('json', excludedIds)} className="flex items-center gap-1.5 px-3 py-1.5 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-white hover:border-white transition-colors">
+              <Download className="w-3 h-3" /> Report JSON
+            </button>
+            <button onClick={() => onSaveReport('csv', excludedIds)} className="flex items-center gap-1.5 px-3 py-1.5 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-white hover:border-white transition-colors">
+              <Download className="w-3 h-3" /> Report CSV
+            </button>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-xs font-bold uppercase text-gray-400 hover:text-white transition-colors">
+              Cancel
+            </button>
+            {saveTarget && (
+              <button onClick={() => onExport(excludedIds, true)} className="px-4 py-2 border border-dj-border rounded-sm text-xs font-bold uppercase text-dj-dim hover:text-white hover:border-white transition-colors">
+                Save As…
+              </button>
+            )}
+            <button onClick={() => onExport(excludedIds)} title={saveTarget || undefined} className="px-6 py-2 bg-dj-neon text-black text-xs font-bold uppercase rounded-sm hover:bg-white transition-colors tracking-wider">
+              {saveTarget === undefined ? 'Export' : 'Save'} {includedCount.toLocaleString()} Changes{saveTarget === null ? '…' : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPreviewModal;
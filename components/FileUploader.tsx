@@ -1,11 +1,15 @@
 import React, { useCallback, useState } from 'react';
+import { ParseProgress } from '../types';
 
 interface FileUploaderProps {
   onFileSelect: (file: File) => void;
   isLoading: boolean;
+  progress?: ParseProgress | null;
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoading }) => {
+const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoading, progress }) => {
+  const percentage = progress && progress.totalBytes > 0 ? Math.round((progress.bytesRead / progress.totalBytes) * 100) : 0;
+
   const [isDragOver, setIsDragOver] = useState(false);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -24,10 +28,10 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoading })
     
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       const file = e.dataTransfer.files[0];
-      if (file.type === "text/xml" || file.name.endsWith(".xml")) {
+      if (file.type === "text/xml" || file.name.endsWith(".xml") || file.name.endsWith(".nml")) {
         onFileSelect(file);
       } else {
-        alert("Please upload a valid XML file.");
+        alert("Please upload a valid Rekordbox XML or Traktor NML file.");
       }
     }
   }, [onFileSelect]);
@@ -53,7 +57,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoading })
     >
       <input
         type="file"
-        accept=".xml"
+        accept=".xml,.nml"
         onChange={handleInputChange}
         disabled={isLoading}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
@@ -61,7 +65,20 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoading })
       
       <div className="flex flex-col items-center justify-center gap-4">
         {isLoading ? (
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-dj-neon"></div>
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-dj-neon"></div>
+            {progress && (
+              <div className="w-64 flex flex-col gap-2">
+                <div className="h-2 bg-dj-dark rounded-full overflow-hidden border border-dj-border">
+                  <div className="h-full bg-dj-neon transition-all duration-200" style={{ width: `${percentage}%` }}></div>
+                </div>
+                <div className="flex justify-between text-[10px] font-mono uppercase tracking-wider text-dj-dim">
+                  <span>Parsing {percentage}%</span>
+                  <span>{progress.tracksFound.toLocaleString()} tracks</span>
+                </div>
+              </div>
+            )}
+          </>
         ) : (
           <>
             <div className={`p-4 rounded-full bg-dj-panel border border-dj-border transition-colors group-hover:border-dj-neon/50`}>
@@ -76,7 +93,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoading })
             </div>
             <div>
               <h3 className="text-xl font-bold text-white mb-1">
-                Drop Rekordbox XML
+                Drop Rekordbox XML or Traktor NML
               </h3>
               <p className="text-sm text-dj-dim">
                 or click to browse local files
@@ -0,0 +1,136 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { X, History, Undo2, Redo2 } from 'lucide-react';
+import { JournalEntry, JournalJob } from '../types';
+
+interface HistoryPanelProps {
+  journal: JournalJob[];
+  disabled: boolean; // No undo/redo while a job is still writing
+  onUndoJob: (job: JournalJob) => void;
+  onRedoJob: (job: JournalJob) => void;
+  onToggleEntry: (entry: JournalEntry) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { hour12: false, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ journal, disabled, onUndoJob, onRedoJob, onToggleEntry, onClose }) => {
+  const jobs = useMemo(() => [...journal].reverse(), [journal]);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(jobs[0]?.id || null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const selectedJob = jobs.find(j => j.id === selectedJobId);
+  const entries = selectedJob?.entries || [];
+
+  const rowVirtualizer = useVirtualizer({
+    count: entries.length,
+    getScrollElement: () => listRef.current,
+    estimateSize: () => 44,
+    overscan: 20
+  });
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-6xl h-[90vh] rounded-xl flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="p-6 border-b border-dj-border flex justify-between items-center bg-dj-dark/50">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+              <History className="w-6 h-6 text-dj-neon" /> Change History
+            </h2>
+            <p className="text-dj-dim text-sm mt-1">
+              Every attribute written to the library this session. Undo a whole job or single edits.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-3">
+          {/* Jobs */}
+          <div className="flex flex-col min-h-0 border-r border-dj-border">
+            <div className="px-6 py-3 border-b border-dj-border/50 text-[10px] uppercase text-dj-dim font-mono tracking-widest">
+              Jobs ({jobs.length})
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar">
+              {jobs.length === 0 && <div className="py-20 text-center text-gray-500 text-sm">No changes yet.</div>}
+              {jobs.map(job => {
+                const undoneCount = job.entries.filter(e => e.undone).length;
+                const isUndone = job.entries.length > 0 && undoneCount === job.entries.length;
+                const state = undoneCount === 0 ? 'Applied' : isUndone ? 'Undone' : 'Partial';
+                return (
+                  <div
+                    key={job.id}
+                    onClick={() => setSelectedJobId(job.id)}
+                    className={`px-6 py-3 border-b border-dj-border/20 cursor-pointer ${job.id === selectedJobId ? 'bg-dj-neon/10' : 'hover:bg-white/5'} ${isUndone ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm text-white font-bold">{job.label}</span>
+                      <span className="shrink-0 font-mono text-[10px] text-dj-dim uppercase">{state}</span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 mt-1">
+                      <span className="font-mono text-[10px] text-dj-dim">{formatTime(job.startedAt)} · {job.entries.length} writes</span>
+                      <div className="flex gap-2">
+                        {undoneCount < job.entries.length && (
+                          <button disabled={disabled} onClick={e => { e.stopPropagation(); onUndoJob(job); }} className="flex items-center gap-1 text-[10px] font-bold uppercase text-dj-dim hover:text-white disabled:opacity-30">
+                            <Undo2 className="w-3 h-3" /> Undo
+                          </button>
+                        )}
+                        {undoneCount > 0 && (
+                          <button disabled={disabled} onClick={e => { e.stopPropagation(); onRedoJob(job); }} className="flex items-center gap-1 text-[10px] font-bold uppercase text-dj-dim hover:text-white disabled:opacity-30">
+                            <Redo2 className="w-3 h-3" /> Redo
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Entries of the selected job */}
+          <div className="col-span-2 flex flex-col min-h-0">
+            <div className="px-6 py-3 border-b border-dj-border/50 text-[10px] uppercase text-dj-dim font-mono tracking-widest truncate">
+              {selectedJob ? selectedJob.label : 'Select a job'}
+            </div>
+            <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar">
+              {selectedJob && entries.length === 0 ? (
+                <div className="py-20 text-center text-gray-500 text-sm">This job did not change any attributes.</div>
+              ) : (
+                <div style={{ height: `${rowVirtualizer.getTotalSize()}px`, position: 'relative' }}>
+                  {rowVirtualizer.getVirtualItems().map(virtualRow => {
+                    const entry = entries[virtualRow.index];
+                    return (
+                      <div
+                        key={entry.id}
+                        className={`absolute top-0 left-0 w-full grid items-center gap-3 px-6 text-xs border-b border-dj-border/20 ${entry.undone ? 'opacity-40' : ''}`}
+                        style={{ height: `${virtualRow.size}px`, transform: `translateY(${virtualRow.start}px)`, gridTemplateColumns: '60px 2fr 90px 2fr 2fr' }}
+                      >
+                        <button
+                          disabled={disabled}
+                          onClick={() => onToggleEntry(entry)}
+                          className="flex items-center gap-1 text-[10px] font-bold uppercase text-dj-dim hover:text-white disabled:opacity-30"
+                        >
+                          {entry.undone ? <><Redo2 className="w-3 h-3" /> Redo</> : <><Undo2 className="w-3 h-3" /> Undo</>}
+                        </button>
+                        <span className="truncate text-white" title={entry.trackLabel}>{entry.trackLabel}</span>
+                        <span className="truncate font-mono text-dj-neon uppercase text-[10px]">{entry.field}</span>
+                        <span className="truncate font-mono text-red-300/80 line-through" title={entry.before}>{entry.before || '∅'}</span>
+                        <span className="truncate font-mono text-green-300" title={entry.after}>{entry.after || '∅'}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
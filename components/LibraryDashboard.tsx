@@ -1,11 +1,11 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { 
   PieChart, Pie, Cell, 
   BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, 
   RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis,
   RadialBarChart, RadialBar, PolarAngleAxis as RadialPolarAngleAxis
 } from 'recharts';
-import { Activity, BarChart3, Disc, Map, Clock, Hash, ListPlus } from 'lucide-react';
+import { Activity, BarChart3, Disc, Map, Clock, Hash, ListPlus, ChevronLeft } from 'lucide-react';
 import { LibraryStats, CustomPlaylist } from '../types';
 
 interface LibraryDashboardProps {
@@ -14,7 +14,7 @@ interface LibraryDashboardProps {
   onFixYears: () => void;
   onFixGenres: () => void;
   onReviewDuplicates: () => void;
-  onFilter: (type: 'genre' | 'vibe' | 'year' | 'key', value: string) => void;
+  onFilter: (type: 'genre' | 'subGenre' | 'vibe' | 'year' | 'key', value: string) => void;
   isProcessing: boolean;
 }
 
@@ -40,13 +40,18 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 const LibraryDashboard: React.FC<LibraryDashboardProps> = ({ 
   stats, savedPlaylists, onFixYears, onFixGenres, onReviewDuplicates, onFilter, isProcessing 
 }) => {
-  const { genreDistribution, vibeDistribution, situationDistribution, yearDistribution, keyDistribution, libraryScore, missingData } = stats;
+  const { genreDistribution, subGenreDistribution, vibeDistribution, situationDistribution, yearDistribution, keyDistribution, libraryScore, missingData } = stats;
+  // Main genre whose sub-genres the donut is showing
+  const [drillGenre, setDrillGenre] = useState<string | null>(null);
 
   if (missingData.totalTracks === 0) return null;
 
   // CLEANUP: Filter out "0" and empty years from timeline view
   const activeTimeline = yearDistribution.filter(y => y.name !== "0" && y.name !== "");
 
+  const drillData = drillGenre ? subGenreDistribution[drillGenre] || [] : null;
+  const donutData = drillData || genreDistribution;
+
   const scoreData = [{ name: 'Score', value: libraryScore, fill: libraryScore > 80 ? '#00f3ff' : libraryScore > 50 ? '#ffe600' : '#ff0055' }];
 
   return (
@@ -135,18 +140,31 @@ const LibraryDashboard: React.FC<LibraryDashboardProps> = ({
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 h-[250px]">
         <div className="bg-dj-panel border border-dj-border rounded-sm p-6 flex flex-col relative overflow-hidden shadow-lg">
           <div className="flex items-center gap-2 mb-2 text-white text-sm font-bold tracking-widest uppercase border-b border-white/5 pb-2 font-mono">
-             <Disc className="w-4 h-4 text-dj-neon" /> Top Genres
+             <Disc className="w-4 h-4 text-dj-neon" />
+             {drillGenre ? (
+               <button onClick={() => setDrillGenre(null)} className="flex items-center gap-1 hover:text-dj-neon transition-colors uppercase" title="Back to all genres">
+                 <ChevronLeft className="w-3.5 h-3.5" /> {drillGenre}
+               </button>
+             ) : 'Top Genres'}
           </div>
           <div className="flex-1 w-full h-full min-h-0 relative z-10 flex items-center justify-center">
               <ResponsiveContainer width="100%" height="100%">
                 <PieChart>
-                  <Pie data={genreDistribution} cx="50%" cy="50%" innerRadius={50} outerRadius={70} paddingAngle={3} dataKey="value" stroke="none" cornerRadius={0} onClick={(data) => onFilter('genre', data.name)} className="cursor-pointer">
-                    {genreDistribution.map((_, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}
+                  <Pie
+                    data={donutData} cx="50%" cy="50%" innerRadius={50} outerRadius={70} paddingAngle={3} dataKey="value" stroke="none" cornerRadius={0}
+                    onClick={(data) => {
+                      if (drillGenre) return onFilter('subGenre', data.name);
+                      onFilter('genre', data.name);
+                      setDrillGenre(data.name);
+                    }}
+                    className="cursor-pointer"
+                  >
+                    {donutData.map((_, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}
                   </Pie>
                   <Tooltip content={<CustomTooltip />} />
                 </PieChart>
               </ResponsiveContainer>
-              <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none pt-6"><span className="text-xl font-bold font-mono text-white">{genreDistribution.length}</span><span className="text-[9px] text-dj-dim uppercase tracking-wider font-mono">Genres</span></div>
+              <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none pt-6"><span className="text-xl font-bold font-mono text-white">{donutData.length}</span><span className="text-[9px] text-dj-dim uppercase tracking-wider font-mono">{drillGenre ? 'Sub-Genres' : 'Genres'}</span></div>
           </div>
         </div>
 
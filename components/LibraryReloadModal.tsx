@@ -0,0 +1,66 @@
+import React from 'react';
+import { X, RefreshCw, Sparkles } from 'lucide-react';
+import { LibraryReloadSummary } from '../types';
+
+interface LibraryReloadModalProps {
+  summary: LibraryReloadSummary;
+  onEnrichAdded: () => void;
+  onClose: () => void;
+}
+
+const LibraryReloadModal: React.FC<LibraryReloadModalProps> = ({ summary, onEnrichAdded, onClose }) => {
+  const addedCount = summary.addedIds.length;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-md rounded-xl flex flex-col shadow-2xl overflow-hidden animate-fade-in-up">
+        {/* Header */}
+        <div className="p-6 border-b border-dj-border flex justify-between items-start bg-dj-dark/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <RefreshCw className="w-5 h-5 text-dj-neon" /> Library Reloaded
+            </h2>
+            <p className="text-dj-dim text-sm mt-1">
+              {summary.fileName} changed on disk and was merged into this session. Existing analysis was kept.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 grid grid-cols-3 gap-3 text-center">
+          <div className="border border-dj-border rounded p-3">
+            <div className="text-2xl font-bold text-green-400">{addedCount.toLocaleString()}</div>
+            <div className="text-[10px] uppercase text-dj-dim font-mono">Added</div>
+          </div>
+          <div className="border border-dj-border rounded p-3">
+            <div className="text-2xl font-bold text-red-400">{summary.removedCount.toLocaleString()}</div>
+            <div className="text-[10px] uppercase text-dj-dim font-mono">Removed</div>
+          </div>
+          <div className="border border-dj-border rounded p-3" title="Tracks whose unsaved CrateBatch edits were written into the reloaded file">
+            <div className="text-2xl font-bold text-white">{summary.reappliedCount.toLocaleString()}</div>
+            <div className="text-[10px] uppercase text-dj-dim font-mono">Edits Kept</div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-dj-border bg-dj-dark/80 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-xs font-bold uppercase text-gray-400 hover:text-white transition-colors">
+            {addedCount > 0 ? 'Not Now' : 'Close'}
+          </button>
+          {addedCount > 0 && (
+            <button
+              onClick={onEnrichAdded}
+              className="flex items-center gap-1.5 px-6 py-2 bg-dj-neon text-black text-xs font-bold uppercase rounded-sm hover:bg-white transition-colors tracking-wider"
+            >
+              <Sparkles className="w-3.5 h-3.5" /> Enrich {addedCount.toLocaleString()} New Tracks
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryReloadModal;
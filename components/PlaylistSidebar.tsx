@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Folder, FolderOpen, ListMusic } from 'lucide-react';
+import { PlaylistNode } from '../types';
+
+interface PlaylistSidebarProps {
+  playlists: PlaylistNode[];
+  activeId: string | null;
+  onSelect: (node: PlaylistNode) => void;
+}
+
+const PlaylistSidebar: React.FC<PlaylistSidebarProps> = ({ playlists, activeId, onSelect }) => {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  const toggleFolder = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderNode = (node: PlaylistNode, depth: number): React.ReactNode => {
+    const indent = { paddingLeft: `${depth * 12 + 8}px` };
+
+    if (node.type === 'folder') {
+      const isExpanded = expandedIds.has(node.id);
+      return (
+        <div key={node.id}>
+          <button
+            onClick={() => toggleFolder(node.id)}
+            className="w-full flex items-center gap-1.5 py-1.5 pr-2 text-left text-xs text-gray-300 hover:text-white hover:bg-white/5 transition-colors"
+            style={indent}
+          >
+            {isExpanded ? <ChevronDown className="w-3 h-3 shrink-0 text-dj-dim" /> : <ChevronRight className="w-3 h-3 shrink-0 text-dj-dim" />}
+            {isExpanded ? <FolderOpen className="w-3.5 h-3.5 shrink-0 text-yellow-400" /> : <Folder className="w-3.5 h-3.5 shrink-0 text-yellow-400" />}
+            <span className="truncate">{node.name}</span>
+          </button>
+          {isExpanded && node.children.map(child => renderNode(child, depth + 1))}
+        </div>
+      );
+    }
+
+    const isActive = node.id === activeId;
+    return (
+      <button
+        key={node.id}
+        onClick={() => onSelect(node)}
+        className={`w-full flex items-center gap-1.5 py-1.5 pr-2 text-left text-xs transition-colors ${isActive ? 'bg-dj-neon/10 text-dj-neon' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
+        style={{ paddingLeft: `${depth * 12 + 26}px` }}
+        title={node.name}
+      >
+        <ListMusic className="w-3.5 h-3.5 shrink-0" />
+        <span className="truncate flex-1">{node.name}</span>
+        <span className="shrink-0 font-mono text-[10px] text-dj-dim">{node.trackIds.length}</span>
+      </button>
+    );
+  };
+
+  return (
+    <aside className="w-64 shrink-0 bg-dj-panel border border-dj-border rounded-sm shadow-2xl self-start sticky top-0 max-h-[80vh] flex flex-col">
+      <div className="px-4 py-3 border-b border-dj-border text-[10px] uppercase text-dj-dim font-mono tracking-widest">
+        Library Playlists
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar py-1">
+        {playlists.map(node => renderNode(node, 0))}
+      </div>
+    </aside>
+  );
+};
+
+export default PlaylistSidebar;
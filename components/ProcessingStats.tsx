@@ -1,19 +1,31 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { DollarSign, Zap, Cpu, Clock, X, CheckCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { DollarSign, Zap, Cpu, Clock, X, CheckCircle, ChevronDown, ChevronUp, Pause, Play, Square, XCircle } from 'lucide-react';
 import { ProcessingStats } from '../types';
+import { JobState } from '../services/jobRunner';
 
 interface ProcessingStatsProps {
   stats: ProcessingStats;
   log: string;
   onClose: () => void;
   isProcessing: boolean;
+  jobState: JobState;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onShowUnprocessed: () => void;
 }
 
-const ProcessingStatsDisplay: React.FC<ProcessingStatsProps> = ({ stats, log, onClose, isProcessing }) => {
+const ProcessingStatsDisplay: React.FC<ProcessingStatsProps> = ({ stats, log, onClose, isProcessing, jobState, onPause, onResume, onCancel, onShowUnprocessed }) => {
   const logContainerRef = useRef<HTMLDivElement>(null);
   const [isLogExpanded, setIsLogExpanded] = useState(false);
   
   const percentage = Math.round((stats.songsProcessed / stats.totalSongs) * 100) || 0;
+  const wasCancelled = !isProcessing && jobState === 'cancelled';
+  const stoppedEarly = wasCancelled || (!isProcessing && stats.budgetReached);
+
+  const title = isProcessing
+    ? jobState === 'paused' ? "PAUSED" : jobState === 'cancelled' ? "CANCELLING..." : "PROCESSING BATCH JOB..."
+    : wasCancelled ? "JOB CANCELLED" : stats.budgetReached ? "BUDGET REACHED" : "JOB COMPLETE";
 
   const formatTime = (seconds: number) => {
     if (!isFinite(seconds) || seconds < 0) return "--:--";
@@ -36,7 +48,7 @@ const ProcessingStatsDisplay: React.FC<ProcessingStatsProps> = ({ stats, log, on
         <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-dj-neon to-purple-600 animate-pulse"></div>
       )}
       {!isProcessing && (
-        <div className="absolute top-0 left-0 w-full h-1 bg-green-500"></div>
+        <div className={`absolute top-0 left-0 w-full h-1 ${stoppedEarly ? 'bg-yellow-400' : 'bg-green-500'}`}></div>
       )}
 
       {/* Dismiss Button - Top Right */}
@@ -56,15 +68,33 @@ const ProcessingStatsDisplay: React.FC<ProcessingStatsProps> = ({ stats, log, on
       </button>
 
       {/* Header - Job Status */}
-      <div className="flex items-center gap-3 mb-6">
+      <div className="flex items-center gap-3 mb-6 pr-12">
         {isProcessing ? (
-           <div className="w-3 h-3 bg-dj-neon rounded-full animate-ping"></div>
+           <div className={`w-3 h-3 rounded-full ${jobState === 'running' ? 'bg-dj-neon animate-ping' : 'bg-yellow-400'}`}></div>
+        ) : stoppedEarly ? (
+           <XCircle className="w-5 h-5 text-yellow-400" />
         ) : (
            <CheckCircle className="w-5 h-5 text-green-500" />
         )}
-        <h2 className="text-lg font-bold text-white tracking-wide">
-            {isProcessing ? "PROCESSING BATCH JOB..." : "JOB COMPLETE"}
-        </h2>
+        <h2 className="text-lg font-bold text-white tracking-wide">{title}</h2>
+
+        {/* Job Controls - pausing lets batches in flight finish; cancelling aborts them */}
+        {isProcessing && jobState !== 'cancelled' && (
+          <div className="ml-auto flex items-center gap-2">
+            {jobState === 'paused' ? (
+              <button onClick={onResume} className="flex items-center gap-1.5 px-3 py-1 border border-dj-neon text-dj-neon rounded-sm text-[10px] font-bold uppercase hover:bg-dj-neon hover:text-black transition-colors">
+                <Play className="w-3 h-3" /> Resume
+              </button>
+            ) : (
+              <button onClick={onPause} title="Finish the batches in flight, then wait" className="flex items-center gap-1.5 px-3 py-1 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-white hover:border-white transition-colors">
+                <Pause className="w-3 h-3" /> Pause
+              </button>
+            )}
+            <button onClick={onCancel} title="Stop now. Results already written are kept." className="flex items-center gap-1.5 px-3 py-1 border border-red-500/50 rounded-sm text-[10px] font-bold uppercase text-red-400 hover:bg-red-500 hover:text-white transition-colors">
+              <Square className="w-3 h-3" /> Cancel
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
@@ -78,6 +108,16 @@ const ProcessingStatsDisplay: React.FC<ProcessingStatsProps> = ({ stats, log, on
               ${stats.totalCost.toFixed(4)}
             </div>
             <div className="text-xs text-dj-dim">Total AI Cost</div>
+            {stats.cacheHits > 0 && (
+              <div className="text-[10px] text-green-400/80 font-mono mt-0.5" title="Tracks answered from the local analysis cache">
+                {stats.cacheHits} cached · saved ${stats.cacheSavings.toFixed(4)}
+              </div>
+            )}
+            {stats.inferredGenres > 0 && (
+              <div className="text-[10px] text-green-400/80 font-mono mt-0.5" title="Main genres filled from known sub-genres without an AI call">
+                {stats.inferredGenres} genres inferred locally
+              </div>
+            )}
           </div>
         </div>
 
@@ -131,7 +171,15 @@ const ProcessingStatsDisplay: React.FC<ProcessingStatsProps> = ({ stats, log, on
       <div className="relative pt-2 mb-6">
         <div className="flex items-center justify-between text-xs text-dj-neon font-mono mb-2">
           <span>PROGRESS</span>
-          <span>{stats.songsProcessed} / {stats.totalSongs} TRACKS ({percentage}%)</span>
+          <span>
+            {stats.songsProcessed} / {stats.totalSongs} TRACKS ({percentage}%)
+            {stats.failedSongs > 0 && <span className="text-red-400"> · {stats.failedSongs} FAILED</span>}
+            {stats.unprocessedIds.length > 0 && (
+              <button onClick={onShowUnprocessed} disabled={isProcessing} title="Show the tracks this job didn't get to" className="text-yellow-400 hover:text-white hover:underline disabled:hover:no-underline disabled:hover:text-yellow-400">
+                {' '}· {stats.unprocessedIds.length} NOT PROCESSED
+              </button>
+            )}
+          </span>
         </div>
         <div className="h-4 bg-dj-dark rounded-full overflow-hidden border border-dj-border">
           <div 
@@ -0,0 +1,50 @@
+import React from 'react';
+import { History, Trash2, PlayCircle } from 'lucide-react';
+import { SessionSummary } from '../types';
+
+interface RecentSessionsProps {
+  sessions: SessionSummary[];
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const RecentSessions: React.FC<RecentSessionsProps> = ({ sessions, onResume, onDelete }) => {
+  if (sessions.length === 0) return null;
+  const [last, ...older] = sessions;
+
+  return (
+    <div className="w-full max-w-xl mt-10 flex flex-col gap-4">
+      <button
+        onClick={() => onResume(last.id)}
+        className="flex items-center justify-center gap-2 px-6 py-3 bg-dj-neon text-black text-xs font-bold uppercase rounded-sm hover:bg-white transition-colors tracking-wider"
+      >
+        <PlayCircle className="w-4 h-4" /> Resume Last Session ({last.name})
+      </button>
+
+      <div className="bg-dj-panel border border-dj-border rounded-sm">
+        <div className="px-4 py-3 border-b border-dj-border flex items-center gap-2 text-[10px] uppercase text-dj-dim font-mono tracking-widest">
+          <History className="w-3.5 h-3.5 text-dj-neon" /> Recent Sessions
+        </div>
+        {[last, ...older].map(session => (
+          <div key={session.id} className="flex items-center gap-3 px-4 py-2.5 border-b border-dj-border/20 last:border-b-0 hover:bg-white/5 group">
+            <button onClick={() => onResume(session.id)} className="flex-1 min-w-0 text-left">
+              <div className="text-sm text-white truncate">{session.name}</div>
+              <div className="text-[10px] font-mono text-dj-dim uppercase">
+                {session.format} · {session.trackCount.toLocaleString()} tracks · {session.analyzedCount.toLocaleString()} analyzed · {new Date(session.savedAt).toLocaleString()}
+              </div>
+            </button>
+            <button
+              onClick={() => onDelete(session.id)}
+              title="Delete session"
+              className="p-1.5 text-dj-dim opacity-0 group-hover:opacity-100 hover:text-red-500 transition-all"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecentSessions;
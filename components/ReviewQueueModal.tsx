@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { X, Check, ListChecks } from 'lucide-react';
+import { ReviewItem } from '../types';
+import { DIMENSION_LABELS } from '../services/fieldMapping';
+import { getTags } from '../services/taxonomy';
+
+// A decision per item: the value to write, or null to reject it
+export type ReviewDecision = { item: ReviewItem; value: string | null };
+
+interface ReviewQueueModalProps {
+  items: ReviewItem[];
+  threshold: number;
+  onResolve: (decisions: ReviewDecision[]) => void;
+  onClose: () => void;
+}
+
+const ReviewQueueModal: React.FC<ReviewQueueModalProps> = ({ items, threshold, onResolve, onClose }) => {
+  // Edited values by item id; unedited items use the proposed value
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const valueOf = (item: ReviewItem) => edits[item.id] ?? item.proposed;
+
+  const accept = (list: ReviewItem[]) => onResolve(list.map(item => ({ item, value: valueOf(item).trim() || null })));
+  const reject = (list: ReviewItem[]) => onResolve(list.map(item => ({ item, value: null })));
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-4xl max-h-[85vh] rounded-xl flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="p-6 border-b border-dj-border flex justify-between items-center bg-dj-dark/50">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+              <ListChecks className="w-6 h-6 text-dj-neon" /> Review Queue
+            </h2>
+            <p className="text-dj-dim text-sm mt-1">
+              {items.length.toLocaleString()} values came back below {Math.round(threshold * 100)}% confidence, or as years no source backed, and have not been written. Accept, edit or reject each one.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {items.map(item => {
+            const options = item.field === 'year' ? [] : getTags(item.field);
+            const value = valueOf(item);
+            return (
+              <div key={item.id} className="grid grid-cols-[1fr_90px_200px_50px_120px] items-center gap-3 px-6 py-2 border-b border-dj-border/20 text-xs">
+                <span className="truncate text-white" title={item.trackLabel}>{item.trackLabel}</span>
+                <span className="font-mono text-[10px] uppercase text-dj-dim">{DIMENSION_LABELS[item.field]}</span>
+                {item.field === 'year' ? (
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={value}
+                    onChange={e => setEdits(prev => ({ ...prev, [item.id]: e.target.value }))}
+                    className="bg-black/50 border border-dj-border rounded-sm px-2 py-1 font-mono text-white focus:border-dj-neon outline-none"
+                  />
+                ) : (
+                  <select
+                    value={value}
+                    onChange={e => setEdits(prev => ({ ...prev, [item.id]: e.target.value }))}
+                    className="bg-black/50 border border-dj-border rounded-sm px-2 py-1 text-white focus:border-dj-neon outline-none"
+                  >
+                    {!options.includes(value) && <option value={value}>{value}</option>}
+                    {options.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                  </select>
+                )}
+                <span className="text-right font-mono text-yellow-400" title={item.unsupported ? "No web source backed this year" : undefined}>
+                  {item.unsupported ? 'NO SRC' : `${Math.round(item.confidence! * 100)}%`}
+                </span>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => accept([item])}
+                    className="flex items-center gap-1 px-2 py-1 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-green-400 hover:border-green-400 transition-colors"
+                  >
+                    <Check className="w-3 h-3" /> Accept
+                  </button>
+                  <button
+                    onClick={() => reject([item])}
+                    className="p-1 border border-dj-border rounded-sm text-dj-dim hover:text-red-500 hover:border-red-500 transition-colors"
+                    title="Reject"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-dj-border bg-dj-dark/80 flex items-center gap-3 px-8">
+          <span className="text-[10px] text-gray-500">Accepted values are written to the library as one undoable change.</span>
+          <div className="ml-auto flex items-center gap-3">
+            <button onClick={() => reject(items)} className="px-4 py-2 text-xs font-bold uppercase text-gray-400 hover:text-red-500 transition-colors">
+              Reject All
+            </button>
+            <button
+              onClick={() => accept(items)}
+              className="px-6 py-2 bg-dj-neon text-black text-xs font-bold uppercase rounded-sm hover:bg-white transition-colors tracking-wider"
+            >
+              Accept All
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewQueueModal;
@@ -1,15 +1,54 @@
-import React, { useState } from 'react';
-import { X } from 'lucide-react';
-import { AppSettings } from '../types';
+import React, { useEffect, useState } from 'react';
+import { X, Eraser, KeyRound } from 'lucide-react';
+import { AppSettings, AnalysisDimension, FieldMappingRule, AIProviderId, AIProviderSettings, ApiKeyStatus, LibraryFormat } from '../types';
+import { DIMENSION_LABELS, MAPPING_TARGETS, MAPPING_FORMATS } from '../services/fieldMapping';
+import { AI_PROVIDER_LABELS, getApiKeyStatus, saveApiKey } from '../services/aiProviders';
+import { canWriteTrackField } from '../services/fields';
 
 interface SettingsModalProps {
   settings: AppSettings;
   onSave: (settings: AppSettings) => void;
   onClose: () => void;
+  // Only provided while a library is loaded
+  onStripTags?: () => void;
+  libraryFormat?: LibraryFormat;
 }
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose }) => {
+const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose, onStripTags, libraryFormat }) => {
   const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
+  const [keyStatus, setKeyStatus] = useState<ApiKeyStatus | null>(null);
+  const [keyInput, setKeyInput] = useState("");
+  const [keyError, setKeyError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (window.electron) getApiKeyStatus().then(setKeyStatus);
+  }, []);
+
+  // The key is saved straight away (not with Save Changes) and never shown again
+  const handleKeySave = async (key: string | null) => {
+    try {
+      await saveApiKey(key);
+      setKeyInput("");
+      setKeyError(null);
+      setKeyStatus(await getApiKeyStatus());
+    } catch (e: any) {
+      setKeyError(e.message);
+    }
+  };
+
+  const updateMapping = (dimension: AnalysisDimension, changes: Partial<FieldMappingRule>) => {
+    setLocalSettings({
+      ...localSettings,
+      mapping: { ...localSettings.mapping, [dimension]: { ...localSettings.mapping[dimension], ...changes } }
+    });
+  };
+
+  const updateOpenAI = (changes: Partial<AIProviderSettings['openai']>) => {
+    setLocalSettings({
+      ...localSettings,
+      ai: { ...localSettings.ai, openai: { ...localSettings.ai.openai, ...changes } }
+    });
+  };
 
   const handleSave = () => {
     onSave(localSettings);
@@ -17,7 +56,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose
 
   return (
     <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[100] p-6 animate-fade-in">
-      <div className="bg-dj-panel border border-dj-border w-full max-w-lg shadow-2xl flex flex-col max-h-[90vh]">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-2xl shadow-2xl flex flex-col max-h-[90vh]">
         
         {/* Header */}
         <div className="p-5 border-b border-white/10 flex justify-between items-center bg-dj-dark/50">
@@ -69,8 +108,36 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose
                             className="accent-dj-neon w-4 h-4 cursor-pointer"
                         />
                         <div className="flex flex-col">
-                            <label className="text-sm font-bold text-white uppercase cursor-pointer">Append Date to Filename</label>
-                            <span className="text-[10px] text-gray-500">Adds _YYYY-MM-DD to the filename to prevent overwrites.</span>
+                            <label className="text-sm font-bold text-white uppercase cursor-pointer">Keep Backups</label>
+                            <span className="text-[10px] text-gray-500">Desktop: copies the library file aside before each save overwrites it. Browser: adds _YYYY-MM-DD to the download name.</span>
+                        </div>
+                    </div>
+
+                    {window.electron && (
+                    <div className="flex items-center gap-3 pl-7">
+                        <input
+                            type="number"
+                            min={1}
+                            max={50}
+                            value={localSettings.export.backupCount}
+                            onChange={e => setLocalSettings({...localSettings, export: {...localSettings.export, backupCount: Math.min(50, Math.max(1, parseInt(e.target.value, 10) || 1))}})}
+                            disabled={!localSettings.export.backup}
+                            className="w-16 bg-black/40 border border-dj-border p-1.5 text-sm text-white focus:border-dj-neon focus:outline-none font-mono disabled:opacity-40"
+                        />
+                        <span className="text-[10px] text-gray-500">Backups kept per library file. Older ones are deleted.</span>
+                    </div>
+                    )}
+
+                    <div className="flex items-center gap-3">
+                        <input 
+                            type="checkbox" 
+                            checked={localSettings.export.nestSubGenres}
+                            onChange={e => setLocalSettings({...localSettings, export: {...localSettings.export, nestSubGenres: e.target.checked}})}
+                            className="accent-dj-neon w-4 h-4 cursor-pointer"
+                        />
+                        <div className="flex flex-col">
+                            <label className="text-sm font-bold text-white uppercase cursor-pointer">Nest Sub-Genres by Main Genre</label>
+                            <span className="text-[10px] text-gray-500">Puts each Sub-Genre playlist in a folder for its main genre, e.g. Sub-Genres/House/Tech House.</span>
                         </div>
                     </div>
                 </div>
@@ -94,6 +161,252 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose
                     </div>
                 </div>
             </div>
+
+            {/* AI Provider Section */}
+            <div>
+                <h3 className="text-dj-neon text-xs font-bold uppercase tracking-widest mb-4 border-b border-dj-neon/20 pb-2">AI Provider</h3>
+                <div className="space-y-4">
+                    <div className="flex flex-col gap-2">
+                        <label className="text-xs text-gray-400 font-mono uppercase">Provider</label>
+                        <select
+                            value={localSettings.ai.provider}
+                            onChange={e => setLocalSettings({...localSettings, ai: {...localSettings.ai, provider: e.target.value as AIProviderId}})}
+                            className="bg-black/40 border border-dj-border p-2 text-sm text-white focus:border-dj-neon focus:outline-none font-mono"
+                        >
+                            {(Object.keys(AI_PROVIDER_LABELS) as AIProviderId[]).map(id => <option key={id} value={id}>{AI_PROVIDER_LABELS[id]}</option>)}
+                        </select>
+                        <span className="text-[10px] text-gray-500">Used for enrichment and semantic search.</span>
+                    </div>
+
+                    {localSettings.ai.provider === 'gemini-proxy' && keyStatus && (
+                    <div className="flex flex-col gap-2">
+                        <label className="text-xs text-gray-400 font-mono uppercase flex items-center gap-1.5"><KeyRound className="w-3 h-3" /> Your Own Gemini Key</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="password"
+                                value={keyInput}
+                                onChange={e => setKeyInput(e.target.value)}
+                                disabled={!keyStatus.encryptionAvailable}
+                                className="flex-1 bg-black/40 border border-dj-border p-2 text-sm text-white focus:border-dj-neon focus:outline-none font-mono placeholder-gray-600 disabled:opacity-40"
+                                placeholder={keyStatus.source === 'stored' ? "Stored — enter a new key to replace it" : "AIza..."}
+                            />
+                            <button
+                                onClick={() => handleKeySave(keyInput)}
+                                disabled={!keyInput.trim()}
+                                className="px-3 py-1.5 border border-dj-neon text-dj-neon rounded-sm text-[10px] font-bold uppercase hover:bg-dj-neon/10 disabled:opacity-40"
+                            >
+                                Save Key
+                            </button>
+                            {keyStatus.source === 'stored' && (
+                                <button
+                                    onClick={() => handleKeySave(null)}
+                                    className="px-3 py-1.5 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-red-500 hover:border-red-500 transition-colors"
+                                >
+                                    Remove
+                                </button>
+                            )}
+                        </div>
+                        <span className={`text-[10px] ${keyError ? 'text-red-400' : 'text-gray-500'}`}>
+                            {keyError
+                              || (!keyStatus.encryptionAvailable ? "Secure storage is unavailable on this system, so keys can't be saved."
+                              : keyStatus.source === 'stored' ? "Stored encrypted on this computer. Enrichment calls Gemini directly with your key."
+                              : keyStatus.source === 'env' ? "Using GEMINI_API_KEY from your .env file. Enrichment calls Gemini directly."
+                              : "Not set. Enrichment goes through the shared CrateBatch proxy.")}
+                        </span>
+                    </div>
+                    )}
+
+                    {localSettings.ai.provider === 'openai-compatible' && (
+                    <>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="flex flex-col gap-2">
+                                <label className="text-xs text-gray-400 font-mono uppercase">Base URL</label>
+                                <input
+                                    type="text"
+                                    value={localSettings.ai.openai.baseUrl}
+                                    onChange={e => updateOpenAI({ baseUrl: e.target.value })}
+                                    className="bg-black/40 border border-dj-border p-2 text-sm text-white focus:border-dj-neon focus:outline-none font-mono placeholder-gray-600"
+                                    placeholder="http://localhost:11434/v1"
+                                />
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                <label className="text-xs text-gray-400 font-mono uppercase">Model</label>
+                                <input
+                                    type="text"
+                                    value={localSettings.ai.openai.model}
+                                    onChange={e => updateOpenAI({ model: e.target.value })}
+                                    className="bg-black/40 border border-dj-border p-2 text-sm text-white focus:border-dj-neon focus:outline-none font-mono placeholder-gray-600"
+                                    placeholder="llama3.1"
+                                />
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                <label className="text-xs text-gray-400 font-mono uppercase">Input $ / 1M Tokens</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.01}
+                                    value={localSettings.ai.openai.inputPricePerMillion}
+                                    onChange={e => updateOpenAI({ inputPricePerMillion: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                    className="bg-black/40 border border-dj-border p-2 text-sm text-white focus:border-dj-neon focus:outline-none font-mono"
+                                />
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                <label className="text-xs text-gray-400 font-mono uppercase">Output $ / 1M Tokens</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.01}
+                                    value={localSettings.ai.openai.outputPricePerMillion}
+                                    onChange={e => updateOpenAI({ outputPricePerMillion: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                    className="bg-black/40 border border-dj-border p-2 text-sm text-white focus:border-dj-neon focus:outline-none font-mono"
+                                />
+                            </div>
+                        </div>
+                        <span className="block text-[10px] text-gray-500">Any chat-completions server, e.g. Ollama (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1). Leave prices at 0 for local models. There is no web search, so year retries only re-ask the model.</span>
+                    </>
+                    )}
+                </div>
+            </div>
+
+            {/* Budget Section */}
+            <div>
+                <h3 className="text-dj-neon text-xs font-bold uppercase tracking-widest mb-4 border-b border-dj-neon/20 pb-2">Budget</h3>
+                <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="flex flex-col gap-2">
+                            <label className="text-xs text-gray-400 font-mono uppercase">Per Job ($)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                value={localSettings.budget.perJob}
+                                onChange={e => setLocalSettings({...localSettings, budget: {...localSettings.budget, perJob: Math.max(0, parseFloat(e.target.value) || 0)}})}
+                                className="bg-black/40 border border-dj-border p-2 text-sm text-white focus:border-dj-neon focus:outline-none font-mono"
+                            />
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            <label className="text-xs text-gray-400 font-mono uppercase">Per Month ($)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={1}
+                                value={localSettings.budget.perMonth}
+                                onChange={e => setLocalSettings({...localSettings, budget: {...localSettings.budget, perMonth: Math.max(0, parseFloat(e.target.value) || 0)}})}
+                                className="bg-black/40 border border-dj-border p-2 text-sm text-white focus:border-dj-neon focus:outline-none font-mono"
+                            />
+                        </div>
+                    </div>
+                    <span className="block text-[10px] text-gray-500">Jobs stop starting new batches at the cap; the tracks they didn't get to are listed afterwards. 0 means no limit.</span>
+                </div>
+            </div>
+
+            {/* Field Mapping Section */}
+            <div>
+                <h3 className="text-dj-neon text-xs font-bold uppercase tracking-widest mb-4 border-b border-dj-neon/20 pb-2">Field Mapping</h3>
+                <div className="space-y-2">
+                    <div className="grid grid-cols-[1fr_1fr_1fr_70px] gap-3 text-[10px] text-gray-500 font-mono uppercase">
+                        <span>AI Result</span>
+                        <span>Write To</span>
+                        <span>Format</span>
+                        <span className="text-center">Overwrite</span>
+                    </div>
+                    {(Object.keys(DIMENSION_LABELS) as AnalysisDimension[]).map(dimension => {
+                        const rule = localSettings.mapping[dimension];
+                        const unwritable = !!libraryFormat && !!rule.target && !canWriteTrackField(libraryFormat, rule.target);
+                        return (
+                            <div key={dimension} className="grid grid-cols-[1fr_1fr_1fr_70px] gap-3 items-center">
+                                <span className="text-sm font-bold text-white uppercase">{DIMENSION_LABELS[dimension]}</span>
+                                <select
+                                    value={rule.target}
+                                    onChange={e => updateMapping(dimension, { target: e.target.value })}
+                                    title={unwritable ? `This library format has no ${rule.target} field; nothing will be written` : undefined}
+                                    className={`bg-black/40 border p-1.5 text-xs focus:border-dj-neon focus:outline-none font-mono ${unwritable ? 'border-red-500 text-red-300' : 'border-dj-border text-white'}`}
+                                >
+                                    <option value="">Don't Write</option>
+                                    {MAPPING_TARGETS.map(target => {
+                                        const available = !libraryFormat || canWriteTrackField(libraryFormat, target);
+                                        return <option key={target} value={target} disabled={!available}>{target}{available ? '' : ' (not in this library)'}</option>;
+                                    })}
+                                </select>
+                                <select
+                                    value={rule.format}
+                                    onChange={e => updateMapping(dimension, { format: e.target.value as FieldMappingRule['format'] })}
+                                    disabled={!rule.target}
+                                    className="bg-black/40 border border-dj-border p-1.5 text-xs text-white focus:border-dj-neon focus:outline-none font-mono disabled:opacity-40"
+                                >
+                                    {MAPPING_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                                </select>
+                                <input
+                                    type="checkbox"
+                                    checked={rule.overwrite}
+                                    onChange={e => updateMapping(dimension, { overwrite: e.target.checked })}
+                                    disabled={!rule.target}
+                                    className="accent-dj-neon w-4 h-4 cursor-pointer justify-self-center"
+                                />
+                            </div>
+                        );
+                    })}
+                    <span className="block text-[10px] text-gray-500 pt-1">Results mapped to Comments go into the [CB: ...] tag block. Colour and Star Rating give each tag a fixed value. Traktor has no Grouping field, so it can't be picked for NML libraries.</span>
+                </div>
+            </div>
+
+            {/* Tag Confidence Section */}
+            <div>
+                <h3 className="text-dj-neon text-xs font-bold uppercase tracking-widest mb-4 border-b border-dj-neon/20 pb-2">Tag Confidence</h3>
+                <div className="flex flex-col gap-2">
+                    <div className="flex justify-between items-center">
+                        <label className="text-xs text-gray-400 font-mono uppercase">Secondary Tag Threshold</label>
+                        <span className="text-xs text-dj-neon font-mono">{Math.round(localSettings.tags.confidenceThreshold * 100)}%</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={localSettings.tags.confidenceThreshold}
+                        onChange={e => setLocalSettings({...localSettings, tags: {...localSettings.tags, confidenceThreshold: parseFloat(e.target.value)}})}
+                        className="accent-dj-neon w-full cursor-pointer"
+                    />
+                    <span className="text-[10px] text-gray-500">Secondary vibes, sub-genres and situations at or above this confidence count for playlists, filters and stats, and are written into the [CB: ...] tag block. The top tag always counts.</span>
+                </div>
+                <div className="flex flex-col gap-2 mt-4">
+                    <div className="flex justify-between items-center">
+                        <label className="text-xs text-gray-400 font-mono uppercase">Review Threshold</label>
+                        <span className="text-xs text-dj-neon font-mono">{localSettings.tags.reviewThreshold > 0 ? `${Math.round(localSettings.tags.reviewThreshold * 100)}%` : 'Off'}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={localSettings.tags.reviewThreshold}
+                        onChange={e => setLocalSettings({...localSettings, tags: {...localSettings.tags, reviewThreshold: parseFloat(e.target.value)}})}
+                        className="accent-dj-neon w-full cursor-pointer"
+                    />
+                    <span className="text-[10px] text-gray-500">AI values below this confidence are held in the review queue instead of being written. Set to 0 to write everything.</span>
+                </div>
+            </div>
+
+            {/* Library Maintenance Section */}
+            {onStripTags && (
+            <div>
+                <h3 className="text-dj-neon text-xs font-bold uppercase tracking-widest mb-4 border-b border-dj-neon/20 pb-2">Library Maintenance</h3>
+                <div className="flex items-center justify-between gap-4">
+                    <div className="flex flex-col">
+                        <span className="text-sm font-bold text-white uppercase">Strip CrateBatch Tags</span>
+                        <span className="text-[10px] text-gray-500">Removes the [CB: ...] tag block from every comment. Your own comment text is kept.</span>
+                    </div>
+                    <button
+                        onClick={() => {
+                          if (window.confirm("Remove all CrateBatch tags from track comments? This is applied on the next export.")) onStripTags();
+                        }}
+                        className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-red-500 hover:border-red-500 transition-colors"
+                    >
+                        <Eraser className="w-3 h-3" /> Strip All
+                    </button>
+                </div>
+            </div>
+            )}
         </div>
 
         {/* Footer */}
@@ -0,0 +1,166 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { X, FileSpreadsheet, AlertTriangle } from 'lucide-react';
+import { SpreadsheetImport } from '../services/spreadsheet';
+
+interface SpreadsheetImportModalProps {
+  fileName: string;
+  diff: SpreadsheetImport;
+  onApply: (acceptedIds: Set<string>) => void;
+  onClose: () => void;
+}
+
+const SpreadsheetImportModal: React.FC<SpreadsheetImportModalProps> = ({ fileName, diff, onApply, onClose }) => {
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [fieldFilter, setFieldFilter] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const fieldCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    diff.changes.forEach(c => { counts[c.field] = (counts[c.field] || 0) + 1; });
+    return Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  }, [diff]);
+
+  const visibleChanges = useMemo(
+    () => fieldFilter ? diff.changes.filter(c => c.field === fieldFilter) : diff.changes,
+    [diff, fieldFilter]
+  );
+
+  const rowVirtualizer = useVirtualizer({
+    count: visibleChanges.length,
+    getScrollElement: () => listRef.current,
+    estimateSize: () => 44,
+    overscan: 20
+  });
+
+  const toggle = (id: string) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const setAllVisible = (include: boolean) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      visibleChanges.forEach(c => include ? next.delete(c.id) : next.add(c.id));
+      return next;
+    });
+  };
+
+  const acceptedCount = diff.changes.filter(c => !excludedIds.has(c.id)).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-6xl h-[90vh] rounded-xl flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="p-6 border-b border-dj-border flex justify-between items-center bg-dj-dark/50">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+              <FileSpreadsheet className="w-6 h-6 text-dj-neon" /> Spreadsheet Import
+            </h2>
+            <p className="text-dj-dim text-sm mt-1">
+              {fileName}: {diff.changes.length.toLocaleString()} changes and {diff.issues.length.toLocaleString()} rejected values. Only Analysis columns are read back.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-3">
+          {/* Changes */}
+          <div className="col-span-2 flex flex-col min-h-0 border-r border-dj-border">
+            <div className="px-6 py-3 border-b border-dj-border/50 flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => setFieldFilter(null)}
+                className={`px-2 py-0.5 rounded-sm border text-[10px] font-mono uppercase ${fieldFilter === null ? 'border-dj-neon text-dj-neon' : 'border-dj-border text-dj-dim hover:text-white'}`}
+              >
+                All ({diff.changes.length})
+              </button>
+              {fieldCounts.map(([field, count]) => (
+                <button
+                  key={field}
+                  onClick={() => setFieldFilter(field)}
+                  className={`px-2 py-0.5 rounded-sm border text-[10px] font-mono uppercase ${fieldFilter === field ? 'border-dj-neon text-dj-neon' : 'border-dj-border text-dj-dim hover:text-white'}`}
+                >
+                  {field.replace('Analysis.', '')} ({count})
+                </button>
+              ))}
+              <div className="ml-auto flex gap-3 text-[10px] font-mono uppercase">
+                <button onClick={() => setAllVisible(true)} className="text-dj-dim hover:text-white">Check All</button>
+                <button onClick={() => setAllVisible(false)} className="text-dj-dim hover:text-white">Uncheck All</button>
+              </div>
+            </div>
+
+            <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar">
+              {visibleChanges.length === 0 ? (
+                <div className="py-20 text-center text-gray-500 text-sm">No changes found in this file.</div>
+              ) : (
+                <div style={{ height: `${rowVirtualizer.getTotalSize()}px`, position: 'relative' }}>
+                  {rowVirtualizer.getVirtualItems().map(virtualRow => {
+                    const change = visibleChanges[virtualRow.index];
+                    const isIncluded = !excludedIds.has(change.id);
+                    return (
+                      <div
+                        key={change.id}
+                        onClick={() => toggle(change.id)}
+                        className={`absolute top-0 left-0 w-full grid items-center gap-3 px-6 text-xs border-b border-dj-border/20 cursor-pointer hover:bg-white/5 ${isIncluded ? '' : 'opacity-40'}`}
+                        style={{ height: `${virtualRow.size}px`, transform: `translateY(${virtualRow.start}px)`, gridTemplateColumns: '20px 2fr 90px 2fr 2fr' }}
+                      >
+                        <input type="checkbox" checked={isIncluded} readOnly className="accent-dj-neon w-3.5 h-3.5 cursor-pointer" />
+                        <span className="truncate text-white" title={change.trackLabel}>{change.trackLabel}</span>
+                        <span className="truncate font-mono text-dj-neon uppercase text-[10px]">{change.field.replace('Analysis.', '')}</span>
+                        <span className="truncate font-mono text-red-300/80 line-through" title={change.before}>{change.before || '∅'}</span>
+                        <span className="truncate font-mono text-green-300" title={change.after}>{change.after || '∅'}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Rejected values */}
+          <div className="flex flex-col min-h-0">
+            <div className="px-6 py-3 border-b border-dj-border/50 flex items-center gap-2 text-[10px] uppercase text-dj-dim font-mono tracking-widest">
+              <AlertTriangle className="w-3.5 h-3.5 text-yellow-400" /> Rejected Values
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar">
+              {diff.issues.length === 0 && <div className="py-20 text-center text-gray-500 text-sm">Every value is valid.</div>}
+              {diff.issues.slice(0, 500).map((issue, i) => (
+                <div key={i} className="px-6 py-2 text-xs border-b border-dj-border/20">
+                  <div className="flex justify-between gap-2 font-mono text-[10px] text-dj-dim uppercase">
+                    <span>Row {issue.row} · {issue.column.replace('Analysis.', '')}</span>
+                    <span>ID {issue.trackId || '∅'}</span>
+                  </div>
+                  <div className="truncate text-yellow-300" title={issue.value}>{issue.value || '∅'}</div>
+                  <div className="text-gray-500">{issue.reason}</div>
+                </div>
+              ))}
+              {diff.issues.length > 500 && <div className="px-6 py-3 text-xs text-gray-500">…and {diff.issues.length - 500} more</div>}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-dj-border bg-dj-dark/80 flex justify-end items-center gap-3 px-8">
+          <button onClick={onClose} className="px-4 py-2 text-xs font-bold uppercase text-gray-400 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(new Set(diff.changes.filter(c => !excludedIds.has(c.id)).map(c => c.id)))}
+            disabled={acceptedCount === 0}
+            className="px-6 py-2 bg-dj-neon text-black text-xs font-bold uppercase rounded-sm hover:bg-white transition-colors tracking-wider disabled:opacity-40"
+          >
+            Apply {acceptedCount.toLocaleString()} Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpreadsheetImportModal;
@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { X, ArrowRight, GitMerge } from 'lucide-react';
+import { TagMigration } from '../types';
+import { DIMENSION_LABELS } from '../services/fieldMapping';
+
+interface TagMigrationModalProps {
+  migrations: TagMigration[];
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const TagMigrationModal: React.FC<TagMigrationModalProps> = ({ migrations, onApply, onClose }) => {
+  const trackCount = useMemo(() => new Set(migrations.flatMap(m => m.trackIds)).size, [migrations]);
+  const hasSplits = migrations.some(m => m.split);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-2xl max-h-[80vh] rounded-xl flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="p-6 border-b border-dj-border flex justify-between items-center bg-dj-dark/50">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+              <GitMerge className="w-6 h-6 text-dj-neon" /> Outdated Tags
+            </h2>
+            <p className="text-dj-dim text-sm mt-1">
+              {trackCount.toLocaleString()} tracks use tags from an older taxonomy. They are already read as the new tags; rewrite the comments to match.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {migrations.map(m => (
+            <div key={`${m.dimension}:${m.from}`} className="grid grid-cols-[100px_1fr_20px_1fr_80px] items-center gap-3 px-6 py-2 border-b border-dj-border/20 text-xs">
+              <span className="font-mono text-[10px] uppercase text-dj-dim">{DIMENSION_LABELS[m.dimension]}</span>
+              <span className="truncate font-mono text-red-300/80 line-through" title={m.from}>{m.from}</span>
+              <ArrowRight className="w-3 h-3 text-dj-dim" />
+              <span className="truncate font-mono text-green-300" title={m.to}>
+                {m.to}
+                {m.split && <span className="ml-2 px-1 border border-yellow-500/50 text-yellow-400 text-[9px] uppercase">Split</span>}
+              </span>
+              <span className="text-right font-mono text-dj-dim">{m.trackIds.length.toLocaleString()} tracks</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-dj-border bg-dj-dark/80 flex items-center gap-3 px-8">
+          {hasSplits && <span className="text-[10px] text-yellow-400/80">Split tags get the rule's first tag. Re-enrich those tracks for a closer fit.</span>}
+          <div className="ml-auto flex items-center gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-xs font-bold uppercase text-gray-400 hover:text-white transition-colors">
+              Not Now
+            </button>
+            <button
+              onClick={onApply}
+              className="px-6 py-2 bg-dj-neon text-black text-xs font-bold uppercase rounded-sm hover:bg-white transition-colors tracking-wider"
+            >
+              Rewrite {trackCount.toLocaleString()} Tracks
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagMigrationModal;
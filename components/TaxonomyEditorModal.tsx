@@ -0,0 +1,298 @@
+import React, { useRef, useState } from 'react';
+import { X, Tags, ArrowUp, ArrowDown, Trash2, Plus, Download, Upload, RotateCcw, AlertTriangle, GitMerge, Split } from 'lucide-react';
+import { Taxonomy, TaxonomyDimension, TaxonomyRule } from '../types';
+import { TAXONOMY_DIMENSIONS, DEFAULT_TAXONOMY, validateTagName, isHashtagSafe, taxonomyToJSON, parseTaxonomyJSON, applyTaxonomyRule, findTag, setGenreParent, withTags } from '../services/taxonomy';
+import { DIMENSION_LABELS } from '../services/fieldMapping';
+import { downloadFile } from '../services/utils';
+
+interface TaxonomyEditorModalProps {
+  taxonomy: Taxonomy;
+  onSave: (taxonomy: Taxonomy) => void;
+  onClose: () => void;
+}
+
+const TaxonomyEditorModal: React.FC<TaxonomyEditorModalProps> = ({ taxonomy, onSave, onClose }) => {
+  const [localTaxonomy, setLocalTaxonomy] = useState<Taxonomy>(taxonomy);
+  const [dimension, setDimension] = useState<TaxonomyDimension>('vibe');
+  const [editing, setEditing] = useState<{ index: number; value: string } | null>(null);
+  const [action, setAction] = useState<{ index: number; kind: 'merge' | 'split'; value: string } | null>(null);
+  const [newTag, setNewTag] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const tags = localTaxonomy[dimension];
+  const pendingVersion = taxonomy.version + 1;
+  const dimensionRules = localTaxonomy.rules.filter(r => r.dimension === dimension);
+
+  const updateTags = (next: string[]) => {
+    setLocalTaxonomy(withTags(localTaxonomy, dimension, next));
+    setError(null);
+  };
+
+  // Renames, merges and splits of tags that existed before this edit are recorded as
+  // migration rules, so comments written with the old tags can still be read and rewritten
+  const applyRule = (rule: Omit<TaxonomyRule, 'version' | 'dimension'>) => {
+    const fullRule: TaxonomyRule = { ...rule, version: pendingVersion, dimension };
+    const next = applyTaxonomyRule(localTaxonomy, fullRule);
+    if (rule.from.some(tag => findTag(tag, taxonomy[dimension]))) {
+      setLocalTaxonomy(next);
+    } else {
+      // A tag added by an earlier edit in this session: point that edit's rules at the new tags instead
+      const rules = localTaxonomy.rules.map(r => r.version === pendingVersion && r.dimension === dimension
+        ? { ...r, to: r.to.flatMap(t => findTag(t, rule.from) ? rule.to : [t]) }
+        : r);
+      setLocalTaxonomy({ ...next, rules });
+    }
+    setError(null);
+  };
+
+  const switchDimension = (next: TaxonomyDimension) => {
+    setDimension(next);
+    setEditing(null);
+    setAction(null);
+    setNewTag("");
+    setError(null);
+  };
+
+  const handleAdd = () => {
+    const problem = validateTagName(newTag, tags);
+    if (problem) return setError(problem);
+    updateTags([...tags, newTag.trim()]);
+    setNewTag("");
+  };
+
+  const handleRename = () => {
+    if (!editing) return;
+    const others = tags.filter((_, i) => i !== editing.index);
+    const problem = validateTagName(editing.value, others);
+    if (problem) return setError(problem);
+    const from = tags[editing.index];
+    const to = editing.value.trim();
+    if (to !== from) applyRule({ type: 'rename', from: [from], to: [to] });
+    setEditing(null);
+  };
+
+  const handleAction = () => {
+    if (!action) return;
+    const from = tags[action.index];
+    if (action.kind === 'merge') {
+      if (!action.value) return setError("Pick the tag to merge into");
+      applyRule({ type: 'merge', from: [from], to: [action.value] });
+    } else {
+      const targets = action.value.split(',').map(t => t.trim()).filter(Boolean);
+      if (targets.length < 2) return setError("Enter at least two tags, separated by commas");
+      // Splitting into tags that already exist is allowed, so only check the format here
+      const problem = targets.map(t => validateTagName(t, [])).find(Boolean);
+      if (problem) return setError(problem);
+      applyRule({ type: 'split', from: [from], to: targets });
+    }
+    setAction(null);
+  };
+
+  const handleSave = () => {
+    const changed = JSON.stringify(localTaxonomy) !== JSON.stringify(taxonomy);
+    onSave(changed ? { ...localTaxonomy, version: Math.max(pendingVersion, localTaxonomy.version) } : taxonomy);
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= tags.length) return;
+    const next = [...tags];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateTags(next);
+  };
+
+  const handleRemove = (index: number) => {
+    if (tags.length === 1) return setError("Each dimension needs at least one tag");
+    updateTags(tags.filter((_, i) => i !== index));
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      setLocalTaxonomy(parseTaxonomyJSON(await file.text()));
+      setEditing(null);
+      setAction(null);
+      setError(null);
+    } catch (e: any) {
+      setError(`Import failed: ${e.message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-3xl h-[85vh] rounded-xl flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="p-6 border-b border-dj-border flex justify-between items-center bg-dj-dark/50">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+              <Tags className="w-6 h-6 text-dj-neon" /> Tag Taxonomy
+            </h2>
+            <p className="text-dj-dim text-sm mt-1">
+              The tags the AI may choose from (version {taxonomy.version}). Renames, merges and splits become migration rules for older comments; removed tags are simply dropped.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Dimension tabs */}
+        <div className="px-6 py-3 border-b border-dj-border/50 flex items-center gap-2">
+          {TAXONOMY_DIMENSIONS.map(d => (
+            <button
+              key={d}
+              onClick={() => switchDimension(d)}
+              className={`px-3 py-1 rounded-sm border text-[10px] font-mono uppercase ${dimension === d ? 'border-dj-neon text-dj-neon' : 'border-dj-border text-dj-dim hover:text-white'}`}
+            >
+              {DIMENSION_LABELS[d]} ({localTaxonomy[d].length})
+            </button>
+          ))}
+        </div>
+
+        {/* Tag list */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {tags.map((tag, index) => (
+            <div key={`${tag}-${index}`} className="group flex flex-wrap items-center gap-3 px-6 py-1.5 border-b border-dj-border/20 hover:bg-white/5">
+              <span className="w-8 text-[10px] font-mono text-dj-dim text-right">{index + 1}</span>
+              {editing?.index === index ? (
+                <input
+                  autoFocus
+                  value={editing.value}
+                  onChange={e => setEditing({ index, value: e.target.value })}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') handleRename();
+                    if (e.key === 'Escape') { setEditing(null); setError(null); }
+                  }}
+                  onBlur={handleRename}
+                  className="flex-1 bg-black/40 border border-dj-neon px-2 py-0.5 text-sm text-white focus:outline-none font-mono"
+                />
+              ) : (
+                <span onDoubleClick={() => setEditing({ index, value: tag })} className="flex-1 text-sm text-white cursor-text" title="Double-click to rename">
+                  {tag}
+                </span>
+              )}
+              {!isHashtagSafe(tag) && (
+                <span title="Contains characters that can't be read back from comment hashtags" className="text-yellow-400">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                </span>
+              )}
+              {dimension === 'subGenre' && (
+                <select
+                  value={localTaxonomy.genreParents[tag] || ""}
+                  onChange={e => setLocalTaxonomy(setGenreParent(localTaxonomy, tag, e.target.value || undefined))}
+                  title="Main genre this sub-genre belongs to"
+                  className="w-40 bg-black/40 border border-dj-border p-0.5 text-[11px] text-dj-dim focus:border-dj-neon focus:outline-none font-mono"
+                >
+                  <option value="">No main genre</option>
+                  {localTaxonomy.mainGenre.map(g => <option key={g} value={g}>{g}</option>)}
+                </select>
+              )}
+              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => handleMove(index, -1)} disabled={index === 0} title="Move up" className="p-1 text-dj-dim hover:text-white disabled:opacity-30"><ArrowUp className="w-3.5 h-3.5" /></button>
+                <button onClick={() => handleMove(index, 1)} disabled={index === tags.length - 1} title="Move down" className="p-1 text-dj-dim hover:text-white disabled:opacity-30"><ArrowDown className="w-3.5 h-3.5" /></button>
+                <button onClick={() => { setAction({ index, kind: 'merge', value: "" }); setError(null); }} disabled={tags.length === 1} title="Merge into another tag" className="p-1 text-dj-dim hover:text-white disabled:opacity-30"><GitMerge className="w-3.5 h-3.5" /></button>
+                <button onClick={() => { setAction({ index, kind: 'split', value: "" }); setError(null); }} title="Split into several tags" className="p-1 text-dj-dim hover:text-white"><Split className="w-3.5 h-3.5" /></button>
+                <button onClick={() => handleRemove(index)} title="Remove" className="p-1 text-dj-dim hover:text-red-500"><Trash2 className="w-3.5 h-3.5" /></button>
+              </div>
+              {action?.index === index && (
+                <div className="basis-full flex items-center gap-2 pl-11">
+                  {action.kind === 'merge' ? (
+                    <select
+                      autoFocus
+                      value={action.value}
+                      onChange={e => setAction({ ...action, value: e.target.value })}
+                      className="flex-1 bg-black/40 border border-dj-border p-1 text-xs text-white focus:border-dj-neon focus:outline-none font-mono"
+                    >
+                      <option value="">Merge "{tag}" into…</option>
+                      {tags.filter((_, i) => i !== index).map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                  ) : (
+                    <input
+                      autoFocus
+                      value={action.value}
+                      onChange={e => setAction({ ...action, value: e.target.value })}
+                      onKeyDown={e => e.key === 'Enter' && handleAction()}
+                      placeholder={`Split "${tag}" into, e.g. Tag A, Tag B (first is the default)`}
+                      className="flex-1 bg-black/40 border border-dj-border p-1 text-xs text-white focus:border-dj-neon focus:outline-none font-mono placeholder-gray-600"
+                    />
+                  )}
+                  <button onClick={handleAction} className="px-2 py-1 border border-dj-neon text-dj-neon rounded-sm text-[10px] font-bold uppercase hover:bg-dj-neon/10">Apply</button>
+                  <button onClick={() => { setAction(null); setError(null); }} className="px-2 py-1 text-[10px] font-bold uppercase text-dj-dim hover:text-white">Cancel</button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {dimensionRules.length > 0 && (
+            <div className="px-6 py-4">
+              <div className="text-[10px] uppercase text-dj-dim font-mono tracking-widest mb-2">Migration Rules ({dimensionRules.length})</div>
+              {dimensionRules.map((rule, i) => (
+                <div key={i} className="group flex items-center gap-3 py-1 text-xs font-mono">
+                  <span className="w-8 text-[10px] text-dj-dim">v{rule.version}</span>
+                  <span className="w-14 text-[10px] uppercase text-dj-neon">{rule.type}</span>
+                  <span className="flex-1 truncate text-gray-300">{rule.from.join(', ')} → {rule.to.join(', ')}</span>
+                  <button
+                    onClick={() => setLocalTaxonomy({ ...localTaxonomy, rules: localTaxonomy.rules.filter(r => r !== rule) })}
+                    title="Delete rule"
+                    className="p-1 text-dj-dim hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Add */}
+        <div className="px-6 py-3 border-t border-dj-border/50 flex items-center gap-3">
+          <input
+            value={newTag}
+            onChange={e => { setNewTag(e.target.value); setError(null); }}
+            onKeyDown={e => e.key === 'Enter' && handleAdd()}
+            placeholder={`New ${DIMENSION_LABELS[dimension]} tag`}
+            className="flex-1 bg-black/40 border border-dj-border p-2 text-sm text-white focus:border-dj-neon focus:outline-none font-mono placeholder-gray-600"
+          />
+          <button onClick={handleAdd} className="flex items-center gap-1.5 px-3 py-2 border border-dj-neon text-dj-neon rounded-sm text-[10px] font-bold uppercase hover:bg-dj-neon/10">
+            <Plus className="w-3 h-3" /> Add
+          </button>
+        </div>
+        {error && <div className="px-6 pb-3 text-xs text-red-400 font-mono">{error}</div>}
+
+        {/* Footer */}
+        <div className="p-4 border-t border-dj-border bg-dj-dark/80 flex items-center gap-3 px-8">
+          <button onClick={() => downloadFile(taxonomyToJSON(localTaxonomy), 'cratebatch_taxonomy.json', 'application/json')} className="flex items-center gap-1.5 text-[10px] font-bold uppercase text-dj-dim hover:text-white">
+            <Download className="w-3 h-3" /> Export JSON
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 text-[10px] font-bold uppercase text-dj-dim hover:text-white">
+            <Upload className="w-3 h-3" /> Import JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => { const file = e.target.files?.[0]; e.target.value = ""; if (file) handleImport(file); }}
+          />
+          <button onClick={() => { setLocalTaxonomy({ ...DEFAULT_TAXONOMY, version: localTaxonomy.version, rules: localTaxonomy.rules }); setEditing(null); setAction(null); setError(null); }} className="flex items-center gap-1.5 text-[10px] font-bold uppercase text-dj-dim hover:text-red-500">
+            <RotateCcw className="w-3 h-3" /> Reset to Defaults
+          </button>
+          <div className="ml-auto flex items-center gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-xs font-bold uppercase text-gray-400 hover:text-white transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={editing !== null || action !== null}
+              className="px-6 py-2 bg-dj-neon text-black text-xs font-bold uppercase rounded-sm hover:bg-white transition-colors tracking-wider disabled:opacity-40"
+            >
+              Save Taxonomy
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaxonomyEditorModal;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { X, Info, ExternalLink, AlertTriangle, ListChecks } from 'lucide-react';
+import { RekordboxTrack, RankedTag, ReviewItem } from '../types';
+import { DIMENSION_LABELS } from '../services/fieldMapping';
+import { hasUnsupportedYear } from '../services/reviewQueue';
+
+interface TrackDetailsModalProps {
+  track: RekordboxTrack;
+  pendingReview: ReviewItem[]; // Values for this track still waiting in the review queue
+  onOpenReview: () => void;
+  onClose: () => void;
+}
+
+const TagList: React.FC<{ label: string; tags?: RankedTag[]; fallback?: string }> = ({ label, tags, fallback }) => {
+  const list = tags?.length ? tags : fallback && fallback !== 'Unknown' ? [{ value: fallback, confidence: NaN }] : [];
+  return (
+    <div className="grid grid-cols-[100px_1fr] gap-3 items-start">
+      <span className="font-mono text-[10px] uppercase text-dj-dim pt-0.5">{label}</span>
+      <div className="flex flex-wrap gap-2">
+        {list.length === 0 && <span className="text-gray-600 text-xs">-</span>}
+        {list.map(tag => (
+          <span key={tag.value} className="px-2 py-0.5 rounded-sm border border-dj-border text-[10px] font-mono text-white">
+            {tag.value}{!isNaN(tag.confidence) && <span className="text-dj-dim ml-1.5">{Math.round(tag.confidence * 100)}%</span>}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const TrackDetailsModal: React.FC<TrackDetailsModalProps> = ({ track, pendingReview, onOpenReview, onClose }) => {
+  const analysis = track.Analysis;
+  const sources = analysis?.yearSources;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-2xl max-h-[85vh] rounded-xl flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="p-6 border-b border-dj-border flex justify-between items-center bg-dj-dark/50">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2 truncate">
+              <Info className="w-6 h-6 text-dj-neon shrink-0" /> {track.Name}
+            </h2>
+            <p className="text-dj-dim text-sm mt-1 truncate">
+              {track.Artist} · {track.AverageBpm} BPM · {track.Tonality || '-'} · ID {track.TrackID}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          {/* AI Analysis */}
+          <div>
+            <h3 className="text-dj-neon text-xs font-bold uppercase tracking-widest mb-3 border-b border-dj-neon/20 pb-2">AI Analysis</h3>
+            {analysis ? (
+              <div className="space-y-2 text-xs">
+                <TagList label={DIMENSION_LABELS.vibe} tags={analysis.vibes} fallback={analysis.vibe} />
+                <TagList label={DIMENSION_LABELS.subGenre} tags={analysis.subGenres} fallback={analysis.subGenre} />
+                <TagList label={DIMENSION_LABELS.situation} tags={analysis.situations} fallback={analysis.situation} />
+                <TagList label={DIMENSION_LABELS.mainGenre} fallback={analysis.mainGenre} />
+              </div>
+            ) : (
+              <span className="text-gray-500 text-xs">Not analyzed yet.</span>
+            )}
+          </div>
+
+          {/* Year and its sources */}
+          <div>
+            <h3 className="text-dj-neon text-xs font-bold uppercase tracking-widest mb-3 border-b border-dj-neon/20 pb-2">Release Year</h3>
+            <div className="flex items-center gap-3 text-xs mb-3">
+              <span className="font-mono text-lg text-white">{analysis?.year && analysis.year !== '0' ? analysis.year : track.Year || '-'}</span>
+              {analysis?.confidence?.year !== undefined && <span className="font-mono text-dj-dim">{Math.round(analysis.confidence.year * 100)}% confidence</span>}
+              {hasUnsupportedYear(analysis) && (
+                <span className="flex items-center gap-1 px-2 py-0.5 border border-yellow-500/50 text-yellow-400 text-[10px] font-bold uppercase">
+                  <AlertTriangle className="w-3 h-3" /> No supporting source
+                </span>
+              )}
+            </div>
+            {sources === undefined && <span className="text-gray-500 text-xs">Not from a web search.</span>}
+            {sources && sources.length > 0 && (
+              <ul className="space-y-1">
+                {sources.map(source => (
+                  <li key={source.uri}>
+                    <a href={source.uri} target="_blank" rel="noreferrer" className="flex items-center gap-1.5 text-xs text-blue-300 hover:text-white transition-colors">
+                      <ExternalLink className="w-3 h-3 shrink-0" /> <span className="truncate">{source.title}</span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        {pendingReview.length > 0 && (
+          <div className="p-4 border-t border-dj-border bg-dj-dark/80 flex items-center gap-3 px-8">
+            <span className="text-[10px] text-yellow-400/80">
+              Waiting for review: {pendingReview.map(item => `${DIMENSION_LABELS[item.field]} ${item.proposed}`).join(', ')}
+            </span>
+            <button
+              onClick={onOpenReview}
+              className="ml-auto flex items-center gap-1.5 px-4 py-2 border border-dj-border rounded-sm text-xs font-bold uppercase text-dj-dim hover:text-white hover:border-white transition-colors"
+            >
+              <ListChecks className="w-3 h-3" /> Review
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrackDetailsModal;
@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { RekordboxTrack } from '../types';
-import { ChevronDown, ChevronUp } from 'lucide-react';
+import { ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+import { hasUnsupportedYear } from '../services/reviewQueue';
 
 interface TrackTableProps {
   tracks: RekordboxTrack[];
   onAnalyzeTrack: (trackId: string) => void;
+  onShowDetails: (trackId: string) => void;
   analyzingIds: Set<string>;
   scrollElement: HTMLElement | null;
 }
@@ -21,8 +23,9 @@ const TrackRow = React.memo<{
   index: number;
   isAnalyzing: boolean;
   onAnalyze: (id: string) => void;
+  onShowDetails: (id: string) => void;
   style: React.CSSProperties;
-}>(({ track, index, isAnalyzing, onAnalyze, style }) => {
+}>(({ track, index, isAnalyzing, onAnalyze, onShowDetails, style }) => {
   return (
     <div 
       className={`grid border-b border-dj-border/30 hover:bg-white/5 transition-colors duration-150 items-center text-sm absolute top-0 left-0 w-full bg-dj-panel ${isAnalyzing ? 'scanline-effect bg-dj-neon/5' : ''}`}
@@ -30,10 +33,13 @@ const TrackRow = React.memo<{
     >
       <div className="px-4 text-dj-dim font-mono text-xs text-right">{index + 1}</div>
       <div className="px-4 text-dj-dim font-mono text-xs truncate">{track.TrackID}</div>
-      <div className={`px-4 font-medium truncate ${isAnalyzing ? 'text-dj-neon' : 'text-white'}`} title={track.Name}>{track.Name}</div>
+      <div onClick={() => onShowDetails(track.TrackID)} className={`px-4 font-medium truncate cursor-pointer hover:underline ${isAnalyzing ? 'text-dj-neon' : 'text-white'}`} title={track.Name}>{track.Name}</div>
       <div className="px-4 text-gray-300 truncate" title={track.Artist}>{track.Artist}</div>
       <div className="px-4 text-gray-300 truncate">{track.Genre || '-'}</div>
-      <div className="px-4 text-gray-400 font-mono text-center">{track.Year || '-'}</div>
+      <div className="px-4 text-gray-400 font-mono text-center">
+        {track.Year || '-'}
+        {hasUnsupportedYear(track.Analysis) && <AlertTriangle className="w-3 h-3 inline ml-1 text-yellow-400" aria-label="No source backed this year" />}
+      </div>
       <div className="px-4 text-dj-neon font-mono text-right">{track.AverageBpm}</div>
       <div className="px-4 text-center">
         <span className={`inline-block px-2 py-0.5 rounded-sm text-xs font-bold border ${track.Tonality ? 'border-purple-500/50 text-purple-300 bg-purple-500/10' : 'border-transparent text-gray-600'}`}>{track.Tonality || '-'}</span>
@@ -70,7 +76,7 @@ const TrackRow = React.memo<{
          prev.index === next.index;
 });
 
-const TrackTable: React.FC<TrackTableProps> = ({ tracks, onAnalyzeTrack, analyzingIds, scrollElement }) => {
+const TrackTable: React.FC<TrackTableProps> = ({ tracks, onAnalyzeTrack, onShowDetails, analyzingIds, scrollElement }) => {
   const [sortField, setSortField] = useState<SortField>('index');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
 
@@ -154,6 +160,7 @@ const TrackTable: React.FC<TrackTableProps> = ({ tracks, onAnalyzeTrack, analyzi
                 index={virtualRow.index}
                 isAnalyzing={analyzingIds.has(track.TrackID)}
                 onAnalyze={onAnalyzeTrack}
+                onShowDetails={onShowDetails}
                 style={{ height: `${virtualRow.size}px`, transform: `translateY(${virtualRow.start}px)` }}
             />
           );
@@ -0,0 +1,110 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Receipt, Download } from 'lucide-react';
+import { UsageRecord } from '../types';
+import { loadUsage, summarizeUsage, usageToCSV } from '../services/usageLedger';
+import { downloadFile } from '../services/utils';
+
+interface UsageModalProps {
+  monthlyBudget: number; // 0 means no limit
+  onClose: () => void;
+}
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+const formatTokens = (tokens: number) => tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : `${(tokens / 1000).toFixed(1)}k`;
+
+const UsageModal: React.FC<UsageModalProps> = ({ monthlyBudget, onClose }) => {
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [groupBy, setGroupBy] = useState<'day' | 'month'>('day');
+
+  useEffect(() => { loadUsage().then(setRecords); }, []);
+
+  const periods = useMemo(() => summarizeUsage(records || [], groupBy), [records, groupBy]);
+  const thisMonth = useMemo(() => {
+    const now = new Date();
+    const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    return summarizeUsage(records || [], 'month').find(p => p.period === month)?.cost || 0;
+  }, [records]);
+
+  const handleExportCSV = () => {
+    if (!records) return;
+    downloadFile(usageToCSV(records), `cratebatch_usage_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-dj-panel border border-dj-border w-full max-w-3xl max-h-[85vh] rounded-xl flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="p-6 border-b border-dj-border flex justify-between items-center bg-dj-dark/50">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+              <Receipt className="w-6 h-6 text-dj-neon" /> AI Usage
+            </h2>
+            <p className="text-dj-dim text-sm mt-1">
+              This month: <span className="text-green-400 font-mono">{formatCost(thisMonth)}</span>
+              {monthlyBudget > 0 && <span className="font-mono"> of {formatCost(monthlyBudget)} budget</span>}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="px-6 py-3 border-b border-dj-border/50 flex items-center gap-2">
+          {(['day', 'month'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setGroupBy(option)}
+              className={`px-3 py-1 rounded-sm text-[10px] font-bold uppercase border transition-colors ${groupBy === option ? 'border-dj-neon text-dj-neon' : 'border-dj-border text-dj-dim hover:text-white'}`}
+            >
+              Per {option}
+            </button>
+          ))}
+          <button
+            onClick={handleExportCSV}
+            disabled={!records?.length}
+            className="ml-auto flex items-center gap-1.5 px-3 py-1 border border-dj-border rounded-sm text-[10px] font-bold uppercase text-dj-dim hover:text-white hover:border-white transition-colors disabled:opacity-30"
+          >
+            <Download className="w-3 h-3" /> Export CSV
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {records === null && <div className="py-20 text-center text-gray-500 text-sm">Loading…</div>}
+          {records?.length === 0 && <div className="py-20 text-center text-gray-500 text-sm">No AI usage recorded yet.</div>}
+          {periods.length > 0 && (
+            <table className="w-full text-xs">
+              <thead className="text-[10px] uppercase text-dj-dim font-mono sticky top-0 bg-dj-panel">
+                <tr>
+                  <th className="text-left px-6 py-2">{groupBy === 'day' ? 'Date' : 'Month'}</th>
+                  <th className="text-right px-3 py-2">Requests</th>
+                  <th className="text-right px-3 py-2">Tokens In / Out</th>
+                  <th className="text-right px-3 py-2">Searches</th>
+                  <th className="text-right px-6 py-2">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {periods.map(p => (
+                  <tr key={p.period} className="border-t border-dj-border/20 hover:bg-white/5 align-top">
+                    <td className="px-6 py-2">
+                      <div className="font-mono text-white">{p.period}</div>
+                      <div className="text-[10px] text-gray-500 font-mono">
+                        {Object.entries(p.byModel).sort((a, b) => b[1] - a[1]).map(([model, cost]) => `${model} ${formatCost(cost)}`).join(' · ')}
+                      </div>
+                    </td>
+                    <td className="text-right px-3 py-2 font-mono text-dj-dim">{p.requests.toLocaleString()}</td>
+                    <td className="text-right px-3 py-2 font-mono text-dj-dim">{formatTokens(p.inputTokens)} / {formatTokens(p.outputTokens)}</td>
+                    <td className="text-right px-3 py-2 font-mono text-dj-dim">{p.searchQueries.toLocaleString()}</td>
+                    <td className="text-right px-6 py-2 font-mono text-green-400">{formatCost(p.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageModal;
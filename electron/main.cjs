@@ -1,6 +1,7 @@
-const { app, BrowserWindow, ipcMain } = require('electron');
+const { app, BrowserWindow, ipcMain, safeStorage, dialog, shell } = require('electron');
 const path = require('path');
 const fs = require('fs');
+const crypto = require('crypto');
 
 function loadEnv() {
   const possiblePaths = [
@@ -48,6 +49,12 @@ function createWindow() {
   // Remote loading caused context bridge issues.
   const startUrl = process.env.ELECTRON_START_URL || `file://${path.join(__dirname, '../dist/index.html')}`;
   mainWindow.loadURL(startUrl);
+
+  // Links (e.g. grounding sources) open in the browser, not in a new app window
+  mainWindow.webContents.setWindowOpenHandler(({ url }) => {
+    if (/^https?:\/\//.test(url)) shell.openExternal(url);
+    return { action: 'deny' };
+  });
 }
 
 app.whenReady().then(createWindow);
@@ -60,8 +67,376 @@ ipcMain.handle('READ_FILE', async (event, filePath) => {
   }
 });
 
-// Since we are using the Cloud Function proxy, we don't need local AI processing in the main process anymore.
-// However, we keep the IPC structure in case we want to move logic back to the main process later.
-ipcMain.handle('ENRICH_BATCH', async (event, payload) => {
-   return { success: false, error: "This function is deprecated. Please use the Cloud Function proxy." };
+// --- Library Export & Backups ---
+// Before a library file is overwritten, a copy goes to userData/backups/<hash of its path>/<timestamp>.bak.
+// Each folder has a source.json naming the file its backups belong to.
+const backupsDir = () => path.join(app.getPath('userData'), 'backups');
+const backupFolderFor = (filePath) => path.join(backupsDir(), crypto.createHash('sha1').update(path.resolve(filePath)).digest('hex').slice(0, 16));
+const BACKUP_ID = /^[0-9a-f]{16}\/\d+\.bak$/;
+
+async function writeFileAtomic(filePath, content) {
+  await fs.promises.writeFile(`${filePath}.tmp`, content, 'utf-8');
+  await fs.promises.rename(`${filePath}.tmp`, filePath);
+}
+
+async function listBackupsIn(folder) {
+  try {
+    const { filePath } = JSON.parse(await fs.promises.readFile(path.join(folder, 'source.json'), 'utf-8'));
+    const names = (await fs.promises.readdir(folder)).filter(name => name.endsWith('.bak'));
+    return Promise.all(names.map(async name => ({
+      id: `${path.basename(folder)}/${name}`,
+      filePath,
+      fileName: path.basename(filePath),
+      createdAt: parseInt(name, 10),
+      size: (await fs.promises.stat(path.join(folder, name))).size
+    })));
+  } catch (e) {
+    return [];
+  }
+}
+
+// Copy the current file aside, then drop all but the newest `keep` copies
+async function backupFile(filePath, keep) {
+  if (!fs.existsSync(filePath)) return;
+  const folder = backupFolderFor(filePath);
+  await fs.promises.mkdir(folder, { recursive: true });
+  await fs.promises.writeFile(path.join(folder, 'source.json'), JSON.stringify({ filePath: path.resolve(filePath) }), 'utf-8');
+  await fs.promises.copyFile(filePath, path.join(folder, `${Date.now()}.bak`));
+
+  const backups = (await listBackupsIn(folder)).sort((a, b) => b.createdAt - a.createdAt);
+  for (const stale of backups.slice(keep)) {
+    await fs.promises.rm(path.join(backupsDir(), stale.id), { force: true });
+  }
+}
+
+ipcMain.handle('SAVE_DIALOG', async (event, defaultPath) => {
+  const extension = path.extname(defaultPath).slice(1) || 'xml';
+  const result = await dialog.showSaveDialog(BrowserWindow.fromWebContents(event.sender), {
+    defaultPath,
+    filters: [{ name: extension === 'nml' ? 'Traktor Collection' : 'Rekordbox Library', extensions: [extension] }]
+  });
+  return result.canceled ? null : result.filePath;
+});
+
+ipcMain.handle('SAVE_FILE', async (event, { filePath, content, backupCount }) => {
+  try {
+    if (backupCount > 0) await backupFile(filePath, backupCount);
+    await writeFileAtomic(filePath, content);
+    await noteOwnWrite(filePath);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('BACKUP_LIST', async () => {
+  try {
+    const folders = await fs.promises.readdir(backupsDir());
+    const backups = await Promise.all(folders.map(folder => listBackupsIn(path.join(backupsDir(), folder))));
+    return backups.flat().sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    return [];
+  }
+});
+
+// The file being replaced is backed up too, so a restore can itself be undone
+ipcMain.handle('BACKUP_RESTORE', async (event, { id, backupCount }) => {
+  try {
+    if (!BACKUP_ID.test(id)) return { success: false, error: "Invalid backup" };
+    const backupPath = path.join(backupsDir(), id);
+    const { filePath } = JSON.parse(await fs.promises.readFile(path.join(path.dirname(backupPath), 'source.json'), 'utf-8'));
+    const content = await fs.promises.readFile(backupPath, 'utf-8');
+    await backupFile(filePath, Math.max(backupCount, 1));
+    await writeFileAtomic(filePath, content);
+    return { success: true, filePath };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+// --- Library File Watching ---
+// Rekordbox replaces the file when it re-exports, so the folder is watched and events filtered by name.
+// Only one file (the open library) is watched at a time.
+const WATCH_DEBOUNCE_MS = 1000;
+let watched = null;
+
+async function fileMtime(filePath) {
+  try {
+    return (await fs.promises.stat(filePath)).mtimeMs;
+  } catch (e) {
+    return null;
+  }
+}
+
+function stopWatching() {
+  if (!watched) return;
+  watched.watcher.close();
+  clearTimeout(watched.timer);
+  watched = null;
+}
+
+// Saves made by CrateBatch itself are not outside changes
+async function noteOwnWrite(filePath) {
+  if (watched && watched.filePath === path.resolve(filePath)) {
+    watched.mtimeMs = await fileMtime(watched.filePath);
+  }
+}
+
+ipcMain.handle('WATCH_FILE', async (event, filePath) => {
+  stopWatching();
+  if (!filePath) return { success: true };
+  try {
+    const resolved = path.resolve(filePath);
+    const state = { filePath: resolved, mtimeMs: await fileMtime(resolved), timer: null, watcher: null };
+    state.watcher = fs.watch(path.dirname(resolved), (eventType, name) => {
+      if (name && name !== path.basename(resolved)) return;
+      clearTimeout(state.timer);
+      state.timer = setTimeout(async () => {
+        const mtimeMs = await fileMtime(resolved);
+        // Missing while being replaced, or not actually modified
+        if (mtimeMs === null || mtimeMs === state.mtimeMs) return;
+        state.mtimeMs = mtimeMs;
+        if (!event.sender.isDestroyed()) event.sender.send('FILE_CHANGED', resolved);
+      }, WATCH_DEBOUNCE_MS);
+    });
+    watched = state;
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+// --- Bring-Your-Own-Key Enrichment ---
+// A user's Gemini key is encrypted with the OS keychain (safeStorage) and only ever decrypted here.
+// The renderer can ask whether a key is set, but never read it back.
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const ENRICH_TIMEOUT_MS = 600000;
+const apiKeyPath = () => path.join(app.getPath('userData'), 'gemini-key.enc');
+
+async function readStoredApiKey() {
+  try {
+    if (!safeStorage.isEncryptionAvailable()) return null;
+    return safeStorage.decryptString(await fs.promises.readFile(apiKeyPath())) || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+// A stored key wins over GEMINI_API_KEY from a .env file
+async function resolveApiKey() {
+  const stored = await readStoredApiKey();
+  if (stored) return { key: stored, source: 'stored' };
+  if (process.env.GEMINI_API_KEY) return { key: process.env.GEMINI_API_KEY, source: 'env' };
+  return null;
+}
+
+ipcMain.handle('API_KEY_STATUS', async () => {
+  const resolved = await resolveApiKey();
+  return {
+    configured: !!resolved,
+    source: resolved ? resolved.source : undefined,
+    encryptionAvailable: safeStorage.isEncryptionAvailable()
+  };
+});
+
+ipcMain.handle('API_KEY_SET', async (event, key) => {
+  try {
+    const trimmed = typeof key === 'string' ? key.trim() : '';
+    if (!trimmed) {
+      await fs.promises.rm(apiKeyPath(), { force: true });
+      return { success: true };
+    }
+    if (!safeStorage.isEncryptionAvailable()) {
+      return { success: false, error: "Secure storage is not available on this system" };
+    }
+    await fs.promises.writeFile(apiKeyPath(), safeStorage.encryptString(trimmed));
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+// Same thinking settings as the Cloud Function proxy
+function thinkingConfigFor(model, useThinking) {
+  if (!useThinking) return undefined;
+  if (model.includes('gemini-3')) return { thinkingLevel: 'high' };
+  if (model.includes('gemini-2.5')) return { thinkingBudget: 4096 };
+  return undefined;
+}
+
+// In-flight enrichment requests by the renderer's request id, so a cancelled job stops the call here too
+const enrichRequests = new Map();
+
+// Calls Gemini directly with the user's key and answers in the proxy's response shape
+ipcMain.handle('ENRICH_BATCH', async (event, { requestId, payload }) => {
+  const controller = new AbortController();
+  enrichRequests.set(requestId, controller);
+  try {
+    const resolved = await resolveApiKey();
+    if (!resolved) return { success: false, error: "No API key configured" };
+
+    const { tracks, prompt, model, googleSearch, useThinking } = payload;
+    const response = await fetch(`${GEMINI_API_URL}/${encodeURIComponent(model)}:generateContent`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': resolved.key },
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text: prompt + "\n\nTracks:\n" + JSON.stringify(tracks) }] }],
+        tools: googleSearch ? [{ googleSearch: {} }] : [],
+        generationConfig: {
+          responseMimeType: 'application/json',
+          thinkingConfig: thinkingConfigFor(model, useThinking)
+        }
+      }),
+      signal: AbortSignal.any([controller.signal, AbortSignal.timeout(ENRICH_TIMEOUT_MS)])
+    });
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result) {
+      return { success: false, error: result?.error?.message || `Gemini returned ${response.status}`, status: response.status };
+    }
+
+    // Thought summaries are not part of the answer
+    const text = (result.candidates?.[0]?.content?.parts || [])
+      .filter(part => part.text && !part.thought)
+      .map(part => part.text)
+      .join('');
+
+    return {
+      success: true,
+      data: {
+        candidates: [{ content: { parts: [{ text }] }, groundingMetadata: result.candidates?.[0]?.groundingMetadata }],
+        usageMetadata: result.usageMetadata
+      }
+    };
+  } catch (error) {
+    if (error.name === 'AbortError') return { success: false, error: "Request cancelled", cancelled: true };
+    return { success: false, error: error.name === 'TimeoutError' ? "Request timed out" : error.message };
+  } finally {
+    enrichRequests.delete(requestId);
+  }
+});
+
+ipcMain.handle('ENRICH_ABORT', async (event, requestId) => {
+  enrichRequests.get(requestId)?.abort();
+});
+
+// --- Session Persistence ---
+// Sessions are stored as one JSON file each in userData/sessions, with a small index for the recent list.
+const MAX_SESSIONS = 10;
+const sessionsDir = () => path.join(app.getPath('userData'), 'sessions');
+const sessionIndexPath = () => path.join(sessionsDir(), 'index.json');
+const safeSessionFile = (id) => path.join(sessionsDir(), `${String(id).replace(/[^a-zA-Z0-9_-]/g, '')}.json`);
+
+async function readSessionIndex() {
+  try {
+    return JSON.parse(await fs.promises.readFile(sessionIndexPath(), 'utf-8'));
+  } catch (e) {
+    return [];
+  }
+}
+
+ipcMain.handle('SESSION_LIST', async () => {
+  return readSessionIndex();
+});
+
+ipcMain.handle('SESSION_LOAD', async (event, id) => {
+  try {
+    return JSON.parse(await fs.promises.readFile(safeSessionFile(id), 'utf-8'));
+  } catch (e) {
+    return null;
+  }
+});
+
+ipcMain.handle('SESSION_SAVE', async (event, session) => {
+  try {
+    await fs.promises.mkdir(sessionsDir(), { recursive: true });
+    // Write to a temp file first so a crash mid-write never corrupts the previous save
+    const file = safeSessionFile(session.id);
+    await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(session), 'utf-8');
+    await fs.promises.rename(`${file}.tmp`, file);
+
+    const { id, name, format, trackCount, analyzedCount, savedAt } = session;
+    const index = (await readSessionIndex()).filter(s => s.id !== id);
+    index.unshift({ id, name, format, trackCount, analyzedCount, savedAt });
+    for (const stale of index.splice(MAX_SESSIONS)) {
+      await fs.promises.rm(safeSessionFile(stale.id), { force: true });
+    }
+    await fs.promises.writeFile(sessionIndexPath(), JSON.stringify(index), 'utf-8');
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('SESSION_DELETE', async (event, id) => {
+  try {
+    await fs.promises.rm(safeSessionFile(id), { force: true });
+    const index = (await readSessionIndex()).filter(s => s.id !== id);
+    await fs.promises.writeFile(sessionIndexPath(), JSON.stringify(index), 'utf-8');
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('SETTINGS_LOAD', async () => {
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(app.getPath('userData'), 'settings.json'), 'utf-8'));
+  } catch (e) {
+    return null;
+  }
+});
+
+ipcMain.handle('SETTINGS_SAVE', async (event, settings) => {
+  try {
+    await fs.promises.writeFile(path.join(app.getPath('userData'), 'settings.json'), JSON.stringify(settings, null, 2), 'utf-8');
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+// --- Usage Ledger ---
+// AI spend by day, job, mode and model, for the usage screen and the monthly budget
+const usagePath = () => path.join(app.getPath('userData'), 'usage-ledger.json');
+
+ipcMain.handle('USAGE_LOAD', async () => {
+  try {
+    return JSON.parse(await fs.promises.readFile(usagePath(), 'utf-8'));
+  } catch (e) {
+    return [];
+  }
+});
+
+ipcMain.handle('USAGE_SAVE', async (event, records) => {
+  try {
+    const file = usagePath();
+    await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(records), 'utf-8');
+    await fs.promises.rename(`${file}.tmp`, file);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+// --- Analysis Cache ---
+const analysisCachePath = () => path.join(app.getPath('userData'), 'analysis-cache.json');
+
+ipcMain.handle('CACHE_LOAD', async () => {
+  try {
+    return JSON.parse(await fs.promises.readFile(analysisCachePath(), 'utf-8'));
+  } catch (e) {
+    return [];
+  }
+});
+
+ipcMain.handle('CACHE_SAVE', async (event, entries) => {
+  try {
+    const file = analysisCachePath();
+    await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(entries), 'utf-8');
+    await fs.promises.rename(`${file}.tmp`, file);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
 });
@@ -1,7 +1,30 @@
-const { contextBridge, ipcRenderer } = require('electron');
+const { contextBridge, ipcRenderer, webUtils } = require('electron');
 
 contextBridge.exposeInMainWorld('electron', {
   readFile: (filePath) => ipcRenderer.invoke('READ_FILE', filePath),
   saveFile: (data) => ipcRenderer.invoke('SAVE_FILE', data),
-  enrichBatch: (payload) => ipcRenderer.invoke('ENRICH_BATCH', payload)
+  getFilePath: (file) => webUtils.getPathForFile(file),
+  showSaveDialog: (defaultPath) => ipcRenderer.invoke('SAVE_DIALOG', defaultPath),
+  listBackups: () => ipcRenderer.invoke('BACKUP_LIST'),
+  restoreBackup: (payload) => ipcRenderer.invoke('BACKUP_RESTORE', payload),
+  watchFile: (filePath) => ipcRenderer.invoke('WATCH_FILE', filePath),
+  onFileChanged: (callback) => {
+    const listener = (event, filePath) => callback(filePath);
+    ipcRenderer.on('FILE_CHANGED', listener);
+    return () => ipcRenderer.removeListener('FILE_CHANGED', listener);
+  },
+  enrichBatch: (requestId, payload) => ipcRenderer.invoke('ENRICH_BATCH', { requestId, payload }),
+  abortEnrichBatch: (requestId) => ipcRenderer.invoke('ENRICH_ABORT', requestId),
+  getApiKeyStatus: () => ipcRenderer.invoke('API_KEY_STATUS'),
+  setApiKey: (key) => ipcRenderer.invoke('API_KEY_SET', key),
+  listSessions: () => ipcRenderer.invoke('SESSION_LIST'),
+  loadSession: (id) => ipcRenderer.invoke('SESSION_LOAD', id),
+  saveSession: (session) => ipcRenderer.invoke('SESSION_SAVE', session),
+  deleteSession: (id) => ipcRenderer.invoke('SESSION_DELETE', id),
+  loadSettings: () => ipcRenderer.invoke('SETTINGS_LOAD'),
+  saveSettings: (settings) => ipcRenderer.invoke('SETTINGS_SAVE', settings),
+  loadAnalysisCache: () => ipcRenderer.invoke('CACHE_LOAD'),
+  saveAnalysisCache: (entries) => ipcRenderer.invoke('CACHE_SAVE', entries),
+  loadUsage: () => ipcRenderer.invoke('USAGE_LOAD'),
+  saveUsage: (records) => ipcRenderer.invoke('USAGE_SAVE', records)
 });
@@ -73,7 +73,7 @@ exports.enrichBatch = onRequest({
     response.status(200).send({ 
       success: true, 
       data: {
-        candidates: [{ content: { parts: [{ text }] } }],
+        candidates: [{ content: { parts: [{ text }] }, groundingMetadata: aiResponse.candidates?.[0]?.groundingMetadata }],
         usageMetadata: aiResponse.usageMetadata
       }
     });
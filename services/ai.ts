@@ -1,13 +1,12 @@
-import { RekordboxTrack, AIAnalysis, BatchUsage, SmartFilterCriteria } from "../types";
-import { VIBE_TAGS, MICRO_GENRE_TAGS, SITUATION_TAGS, MAIN_GENRE_TAGS } from "./taxonomy";
-
-// NO BUNDLED KEY - SECURE PROXY MODE
-// LIVE PROXY URL from successful deployment
-const ENRICH_PROXY_URL = "https://enrichbatch-nxf6vuupsq-uc.a.run.app";
-
-// Updated to use the consistent Cloud Run URL format matching the working enrich function
-// Derived from: enrichbatch-nxf6vuupsq-uc.a.run.app -> generateplaylist-nxf6vuupsq-uc.a.run.app
-const PLAYLIST_PROXY_URL = "https://generateplaylist-nxf6vuupsq-uc.a.run.app";
+import { RekordboxTrack, AIAnalysis, BatchUsage, SmartFilterCriteria, RankedTag, GroundingSource } from "../types";
+import { getActiveTaxonomy, getTags, findTag, getMainGenreFor } from "./taxonomy";
+import { trackSubGenre } from "./utils";
+import { lookupCachedAnalyses, cacheAnalyses } from "./analysisCache";
+import { getActiveAIProvider, GroundingMetadata } from "./aiProviders";
+import { isRetryableStatus } from "./jobRunner";
+import { addUsage } from "./pricing";
+import { parseJsonItems } from "./jsonRepair";
+import { recordUsage } from "./usageLedger";
 
 export const generateTags = async (track: RekordboxTrack): Promise<AIAnalysis> => {
   const result = await generateTagsBatch([track], 'full');
@@ -16,6 +15,8 @@ export const generateTags = async (track: RekordboxTrack): Promise<AIAnalysis> =
 
 export const interpretSearchQuery = async (query: string): Promise<SmartFilterCriteria> => {
   try {
+    const taxonomy = getActiveTaxonomy();
+
     // Construct the prompt for the search interpretation
     const prompt = `
       You are an expert DJ music librarian.
@@ -24,9 +25,9 @@ export const interpretSearchQuery = async (query: string): Promise<SmartFilterCr
       Your goal is to translate this request into a structured JSON filter object.
       
       Available Taxonomy:
-      Vibes: ${JSON.stringify(VIBE_TAGS)}
-      SubGenres: ${JSON.stringify(MICRO_GENRE_TAGS)}
-      Situations: ${JSON.stringify(SITUATION_TAGS)}
+      Vibes: ${JSON.stringify(taxonomy.vibe)}
+      SubGenres: ${JSON.stringify(taxonomy.subGenre)}
+      Situations: ${JSON.stringify(taxonomy.situation)}
       
       Instructions:
       1. Analyze the query for semantic meaning (mood, energy, era, genre, setting).
@@ -53,37 +54,13 @@ export const interpretSearchQuery = async (query: string): Promise<SmartFilterCr
       }
     `;
 
-    const response = await fetch(PLAYLIST_PROXY_URL, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ 
-        query, 
-        taxonomy: { vibes: VIBE_TAGS, genres: MICRO_GENRE_TAGS, situations: SITUATION_TAGS },
-        prompt: prompt,
-        model: "gemini-3-flash-preview" // Using requested flash model
-      })
-    });
-
-    const res = await response.json();
-    if (!res.success) throw new Error(res.error || "Playlist Gen Error");
+    const { text, usage } = await getActiveAIProvider().complete({ task: 'search', prompt, input: query });
+    await recordUsage({ id: 'search', label: "Semantic Search" }, 'search', usage);
 
-    const data = res.data;
-    
-    // Convert text output to structured data if AI returned string
-    let parsedData = data;
-    if (typeof data === 'string') {
-        const jsonMatch = data.match(/\{[\s\S]*\}/);
-        if (jsonMatch) parsedData = JSON.parse(jsonMatch[0]);
-    }
-    
-    // Double check: if response has candidates (Cloud Run direct), parse that
-    if (!parsedData && data.candidates) {
-        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-         if (text) {
-            const jsonMatch = text.match(/\{[\s\S]*\}/);
-            if (jsonMatch) parsedData = JSON.parse(jsonMatch[0]);
-         }
-    }
+    // Models may wrap the JSON in prose or code fences
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) throw new Error("No filter returned");
+    const parsedData = JSON.parse(jsonMatch[0]);
 
     return {
       keywords: parsedData.keywords || [],
@@ -108,9 +85,62 @@ export const interpretSearchQuery = async (query: string): Promise<SmartFilterCr
 };
 
 const validateTag = (tag: string | undefined, allowed: string[]): string => {
-  if (!tag) return "Unknown";
-  const match = allowed.find(t => t.toLowerCase() === tag.trim().toLowerCase());
-  return match || "Unknown";
+  return findTag(tag, allowed) || "Unknown";
+};
+
+// Validate every value of a ranked tag list; falls back to the single-value field older responses use
+const validateRankedTags = (items: any, fallback: string | undefined, allowed: string[]): RankedTag[] => {
+  const ranked: RankedTag[] = [];
+  (Array.isArray(items) ? items : []).forEach((item: any) => {
+    const value = validateTag(typeof item === 'string' ? item : item?.tag, allowed);
+    if (value === "Unknown" || ranked.some(r => r.value === value)) return;
+    const confidence = Number(item?.confidence ?? 1);
+    ranked.push({ value, confidence: isNaN(confidence) ? 1 : Math.min(1, Math.max(0, confidence)) });
+  });
+
+  if (ranked.length === 0) {
+    const value = validateTag(fallback, allowed);
+    if (value !== "Unknown") ranked.push({ value, confidence: 1 });
+  }
+  return ranked.sort((a, b) => b.confidence - a.confidence);
+};
+
+// Models that leave a confidence out (or older cached answers) are treated as sure
+const parseConfidence = (value: any): number | undefined => {
+  const confidence = Number(value);
+  return value === undefined || value === null || isNaN(confidence) ? undefined : Math.min(1, Math.max(0, confidence));
+};
+
+const withoutUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+// Attribute grounding sources to tracks. Each grounding support points at a span of the answer
+// text; the span belongs to the track whose JSON object it falls in. Offsets are UTF-8 bytes.
+const sourcesByTrack = (text: string, grounding: GroundingMetadata, ids: string[]): Record<string, GroundingSource[]> => {
+  const chunks = grounding.groundingChunks || [];
+  const sources: Record<string, GroundingSource[]> = Object.fromEntries(ids.map(id => [id, []]));
+  const add = (id: string, index: number) => {
+    const web = chunks[index]?.web;
+    if (!web?.uri || !sources[id] || sources[id].some(s => s.uri === web.uri)) return;
+    sources[id].push({ title: web.title || web.uri, uri: web.uri });
+  };
+
+  const encoder = new TextEncoder();
+  const starts: { id: string; start: number }[] = [];
+  const idPattern = /"id"\s*:\s*"?([^",}\s]+)/g;
+  let match;
+  while ((match = idPattern.exec(text))) {
+    starts.push({ id: match[1], start: encoder.encode(text.slice(0, match.index)).length });
+  }
+  (grounding.groundingSupports || []).forEach(support => {
+    const at = support.segment?.startIndex || 0;
+    const owner = starts.filter(s => s.start <= at).pop();
+    if (owner) (support.groundingChunkIndices || []).forEach(index => add(owner.id, index));
+  });
+
+  // With one track in the batch, everything the search found is about it
+  if (ids.length === 1) chunks.forEach((_, index) => add(ids[0], index));
+  return sources;
 };
 
 // Helper to clean track titles
@@ -146,12 +176,57 @@ export interface BatchResponse {
   results: Record<string, AIAnalysis>;
   usage: BatchUsage;
   error?: string;
+  cache?: { hits: number; savedCost: number }; // Tracks answered from the local analysis cache
+  inferred?: number; // Main genres filled from known sub-genres
+  failures?: Record<string, string>; // Why each track sent to the AI came back without a result, by TrackID
+  repaired?: boolean; // The answer was malformed or truncated; the valid items were salvaged
 }
 
+// Main genres implied by a track's known sub-genre, by TrackID
+export const inferMainGenres = (tracks: RekordboxTrack[]): Record<string, AIAnalysis> => {
+  const inferred: Record<string, AIAnalysis> = {};
+  tracks.forEach(track => {
+    const mainGenre = getMainGenreFor(trackSubGenre(track));
+    if (mainGenre) inferred[track.TrackID] = { vibe: "Unknown", subGenre: "Unknown", situation: "Unknown", mainGenre };
+  });
+  return inferred;
+};
+
+/**
+ * Analyze a batch of tracks. Tracks already in the local analysis cache are answered from it,
+ * as are missing main genres implied by a known sub-genre; only the rest are sent to the active AI provider.
+ * Failures come back in `error`, except cancellation and rate-limit/server errors, which throw for the job runner.
+ * Tracks sent to the AI that got no result are listed in `failures` with the reason, so they can be retried alone.
+ */
 export const generateTagsBatch = async (
   tracks: RekordboxTrack[],
   mode: 'full' | 'missing_genre' | 'missing_year' = 'full',
-  isRetry: boolean = false
+  isRetry: boolean = false,
+  signal?: AbortSignal
+): Promise<BatchResponse> => {
+  const inferred = mode === 'missing_genre' ? inferMainGenres(tracks) : {};
+  const inferredCount = Object.keys(inferred).length;
+
+  const { hits, misses, savedCost } = await lookupCachedAnalyses(tracks.filter(t => !inferred[t.TrackID]), mode);
+  const cache = { hits: Object.keys(hits).length, savedCost };
+  const local = { ...hits, ...inferred };
+
+  if (misses.length === 0) {
+    return { results: local, usage: { inputTokens: 0, outputTokens: 0, cost: 0 }, cache, inferred: inferredCount };
+  }
+
+  const response = await requestTagsBatch(misses, mode, isRetry, signal);
+  if (Object.keys(response.results).length > 0) {
+    await cacheAnalyses(misses, response.results, mode, response.usage.cost / misses.length);
+  }
+  return { ...response, results: { ...response.results, ...local }, cache, inferred: inferredCount };
+};
+
+const requestTagsBatch = async (
+  tracks: RekordboxTrack[],
+  mode: 'full' | 'missing_genre' | 'missing_year' = 'full',
+  isRetry: boolean = false,
+  signal?: AbortSignal
 ): Promise<BatchResponse> => {
   
   // Construct payload
@@ -183,15 +258,6 @@ export const generateTagsBatch = async (
   let systemInstruction = `You are an expert music librarian. The current year is ${currentYear}.
 Task: Analyze the provided list of tracks.`;
 
-  // MODEL SELECTION STRATEGY
-  // Initial Pass: Gemini 3 Flash Preview (Internal Knowledge)
-  // Retry Pass: Gemini 2.0 Flash Thinking (Specialized Reasoning Model)
-  const model = isRetry ? "gemini-2.0-flash-thinking-exp" : "gemini-3-flash-preview";
-  
-  // Feature flags
-  const useGoogleSearch = isRetry; // Enable Google Search for retries
-  const useUrlContext = false;     // Disable URL Context completely
-  
   if (mode === 'missing_year') {
     if (isRetry) {
         // RETRY PROMPT: GOOGLE SEARCH GROUNDING WITH THINKING
@@ -207,7 +273,8 @@ Rules:
 5. **RECENT SONGS**: Pay special attention to songs from 2024, 2025, and 2026. Use search to confirm recent releases.
 6. **STRICT CONFIDENCE**: Return "0" if you cannot find a definitive release year. DO NOT GUESS.
 7. Valid Range: 1950-${currentYear}.
-Return JSON: [{"id": "...", "release_year": "..."}]`;
+8. Give a confidence from 0 to 1 for the year.
+Return JSON: [{"id": "...", "release_year": "...", "confidence": 0.9}]`;
     } else {
         // INITIAL PROMPT: INTERNAL KNOWLEDGE
         systemInstruction += `\nRules:
@@ -221,13 +288,15 @@ Return JSON: [{"id": "...", "release_year": "..."}]`;
    - **CRITICAL:** For any song that might be from **2024, 2025, or 2026**, if you are not 100% sure of the exact year, RETURN "0". Do not guess recent years. We will verify with Google Search.
    - If the track is obscure, return "0".
 6. Valid Range: 1950-${currentYear}.
-Return JSON: [{"id": "...", "release_year": "..."}]`;
+7. Give a confidence from 0 to 1 for the year.
+Return JSON: [{"id": "...", "release_year": "...", "confidence": 0.9}]`;
     }
   } else if (mode === 'missing_genre') {
     systemInstruction += `\nRules:
 1. Identify the BROAD MAIN GENRE for the track.
-2. Use ONLY these Broad Genres: ${MAIN_GENRE_TAGS.join(', ')}
-3. Return JSON: [{"id": "...", "mainGenre": "..."}]`;
+2. Use ONLY these Broad Genres: ${getTags('mainGenre').join(', ')}
+3. Give a confidence from 0 to 1 for the genre.
+4. Return JSON: [{"id": "...", "mainGenre": "...", "confidence": 0.8}]`;
   } else {
     // FULL MODE
     systemInstruction += `\nRules:
@@ -236,10 +305,12 @@ Return JSON: [{"id": "...", "release_year": "..."}]`;
    - **REMIXES/COVERS**: Return the year of that SPECIFIC version.
 2. Use ONLY tags provided.
 3. STRICTLY IGNORE BPM when determining Genre.
-4. VIBES: ${VIBE_TAGS.join(', ')}
-5. GENRES: ${MICRO_GENRE_TAGS.join(', ')}
-6. SITUATIONS: ${SITUATION_TAGS.join(', ')}
-Return JSON: [{"id": "...", "vibe": "...", "subGenre": "...", "situation": "...", "release_year": "...", "hashtags": "#SubGenre #Vibe #Situation"}]`;
+4. VIBES: ${getTags('vibe').join(', ')}
+5. GENRES: ${getTags('subGenre').join(', ')}
+6. SITUATIONS: ${getTags('situation').join(', ')}
+7. Tracks often fit more than one tag. Give up to 3 tags per category, best fit first, each with a confidence from 0 to 1.
+8. Give a confidence from 0 to 1 for the release year too.
+Return JSON: [{"id": "...", "vibes": [{"tag": "...", "confidence": 0.9}], "subGenres": [{"tag": "...", "confidence": 0.8}], "situations": [{"tag": "...", "confidence": 0.7}], "release_year": "...", "year_confidence": 0.8}]`;
   }
 
   try {
@@ -248,54 +319,69 @@ Return JSON: [{"id": "...", "vibe": "...", "subGenre": "...", "situation": "..."
     // Set a generous timeout (e.g., 10 minutes) for the client fetch
     // Server-side timeout is handled in Cloud Functions (set to 60 mins max)
     const timeoutId = setTimeout(() => controller.abort(), 600000); 
+    // Cancelling the job aborts the request too
+    const onCancel = () => controller.abort();
+    signal?.addEventListener('abort', onCancel);
 
-    const response = await fetch(ENRICH_PROXY_URL, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ 
-        tracks: tracksPayload, 
-        prompt: systemInstruction,
-        model: model,
-        googleSearch: useGoogleSearch, 
-        useUrlContext: useUrlContext,
-        useThinking: isRetry // Enable thinking for retry passes
-      }),
+    // Retries get the provider's deep pass (on Gemini: thinking model with Google Search grounding)
+    const { text, usage, grounding } = await getActiveAIProvider().complete({
+      task: 'enrich',
+      prompt: systemInstruction,
+      input: tracksPayload,
+      deep: isRetry,
       signal: controller.signal
+    }).finally(() => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onCancel);
     });
-    
-    clearTimeout(timeoutId);
-
-    const res = await response.json();
-    if (!res.success) throw new Error(res.error || "Proxy Error");
 
     const resultsMap: Record<string, AIAnalysis> = {};
-    const usage = res.data.usageMetadata || { promptTokenCount: 0, candidatesTokenCount: 0 };
-    
-    // Cost estimation (approximate relative diff)
-    const inputCostPerToken = isRetry ? 0.0000035 : 0.000000075;
-    const outputCostPerToken = isRetry ? 0.0000105 : 0.00000030;
-    const cost = ((usage.promptTokenCount * inputCostPerToken) + (usage.candidatesTokenCount * outputCostPerToken));
-
-    const text = res.data.candidates?.[0]?.content?.parts?.[0]?.text;
-    if (text) {
-      const jsonMatch = text.match(/\[[\s\S]*\]|\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        const items = Array.isArray(parsed) ? parsed : [parsed];
-        items.forEach((item: any) => {
-          if (item.id) {
-            resultsMap[item.id] = {
-              vibe: validateTag(item.vibe, VIBE_TAGS),
-              subGenre: validateTag(item.subGenre || item.genre, MICRO_GENRE_TAGS),
-              mainGenre: mode === 'missing_genre' ? validateTag(item.mainGenre || item.genre, MAIN_GENRE_TAGS) : undefined,
-              situation: validateTag(item.situation, SITUATION_TAGS),
-              year: (item.release_year || item.year || "0").toString(),
-              hashtags: item.hashtags
-            };
-          }
-        });
+    const batchIds = new Set(tracks.map(t => t.TrackID));
+    const sources = grounding ? sourcesByTrack(text || "", grounding, [...batchIds]) : undefined;
+    let unknownIds = 0;
+
+    // One broken or cut-off item shouldn't cost the rest of the batch
+    const { items, repaired, dropped } = parseJsonItems(text || "");
+    items.forEach((item: any) => {
+      // Models sometimes answer numeric IDs as numbers
+      const id = item?.id !== undefined && item?.id !== null ? String(item.id).trim() : "";
+      if (!batchIds.has(id)) {
+        unknownIds++;
+        return;
       }
-    }
+      const vibes = validateRankedTags(item.vibes, item.vibe, getTags('vibe'));
+      const subGenres = validateRankedTags(item.subGenres, item.subGenre || item.genre, getTags('subGenre'));
+      const situations = validateRankedTags(item.situations, item.situation, getTags('situation'));
+      const fieldConfidence = mode === 'missing_genre'
+        ? { mainGenre: parseConfidence(item.confidence) }
+        : mode === 'missing_year'
+          ? { year: parseConfidence(item.confidence) }
+          : { vibe: vibes[0]?.confidence, subGenre: subGenres[0]?.confidence, situation: situations[0]?.confidence, year: parseConfidence(item.year_confidence) };
+      resultsMap[id] = {
+        vibe: vibes[0]?.value || "Unknown",
+        subGenre: subGenres[0]?.value || "Unknown",
+        mainGenre: mode === 'missing_genre' ? validateTag(item.mainGenre || item.genre, getTags('mainGenre')) : undefined,
+        situation: situations[0]?.value || "Unknown",
+        year: (item.release_year || item.year || "0").toString(),
+        hashtags: item.hashtags,
+        confidence: withoutUndefined(fieldConfidence),
+        ...(sources ? { yearSources: sources[id] || [] } : {}),
+        ...(mode === 'full' ? { vibes, subGenres, situations } : {})
+      };
+    });
+
+    // Why a track got nothing back, for the job log
+    const missingReason = !text
+      ? "Empty response"
+      : items.length === 0
+        ? "Response was not valid JSON"
+        : repaired
+          ? `Lost in a malformed or truncated response${dropped > 0 ? ` (${dropped} unreadable items)` : ''}`
+          : unknownIds > 0
+            ? `Not in response (${unknownIds} answers had IDs outside the batch)`
+            : "Not in response";
+    const failuresFor = (results: Record<string, AIAnalysis>, reasons: Record<string, string> = {}) =>
+      Object.fromEntries(tracks.filter(t => !results[t.TrackID]).map(t => [t.TrackID, reasons[t.TrackID] || missingReason]));
 
     // AUTO-RETRY LOGIC FOR MISSING YEARS
     // If we are in 'missing_year' mode AND this was the initial (Flash) run
@@ -314,52 +400,53 @@ Return JSON: [{"id": "...", "vibe": "...", "subGenre": "...", "situation": "..."
             // CHUNK RETRY LOGIC: Break into batches of 10
             // Reverted back to 10 as per user request to prefer timeout increase
             const CHUNK_SIZE = 10;
-            let totalRetryCost = 0;
-            let totalRetryInput = 0;
-            let totalRetryOutput = 0;
+            let totalUsage = usage;
+            const retryReasons: Record<string, string> = {};
             
             for (let i = 0; i < retryTracks.length; i += CHUNK_SIZE) {
                 const chunk = retryTracks.slice(i, i + CHUNK_SIZE);
                 
-                // Recursive call with isRetry=true for this chunk
-                const chunkResult = await generateTagsBatch(chunk, mode, true);
+                // Recursive call with isRetry=true for this chunk. A rate limit or server error here
+                // must not throw away the first pass the job already paid for, so keep what we have
+                let chunkResult: BatchResponse;
+                try {
+                    chunkResult = await requestTagsBatch(chunk, mode, true, signal);
+                } catch (e: any) {
+                    if (signal?.aborted) throw e;
+                    const reason = `Deep retry failed: ${e.message}`;
+                    retryTracks.slice(i).forEach(t => { retryReasons[t.TrackID] = reason; });
+                    break;
+                }
                 
                 // Merge chunk results
                 Object.assign(resultsMap, chunkResult.results);
+                Object.assign(retryReasons, chunkResult.failures);
                 
-                // Merge Chunk Usage
-                totalRetryCost += chunkResult.usage.cost;
-                totalRetryInput += chunkResult.usage.inputTokens;
-                totalRetryOutput += chunkResult.usage.outputTokens;
+                // Merge Chunk Usage (the deep pass runs on a different model)
+                totalUsage = addUsage(totalUsage, chunkResult.usage);
             }
             
-            // Final Usage Merge
-            const totalCost = cost + totalRetryCost;
-            const totalInput = usage.promptTokenCount + totalRetryInput;
-            const totalOutput = usage.candidatesTokenCount + totalRetryOutput;
-            
              return { 
                 results: resultsMap, 
-                usage: { 
-                    inputTokens: totalInput, 
-                    outputTokens: totalOutput, 
-                    cost: totalCost 
-                },
-                error: undefined 
+                usage: totalUsage,
+                error: undefined,
+                failures: failuresFor(resultsMap, retryReasons),
+                repaired
              };
         }
     }
 
     return { 
       results: resultsMap, 
-      usage: { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount, cost },
-      error: Object.keys(resultsMap).length === 0 ? "No data returned" : undefined 
+      usage,
+      error: Object.keys(resultsMap).length === 0 ? missingReason : undefined,
+      failures: failuresFor(resultsMap),
+      repaired
     };
   } catch (e: any) {
-    // Handle AbortError specifically if needed
-    if (e.name === 'AbortError') {
-        return { results: {}, usage: { inputTokens: 0, outputTokens: 0, cost: 0 }, error: "Request timed out on client" };
-    }
-    return { results: {}, usage: { inputTokens: 0, outputTokens: 0, cost: 0 }, error: e.message };
+    // Cancellation, rate limits and server errors go to the job runner to stop or retry the batch
+    if (signal?.aborted || isRetryableStatus(e.status)) throw e;
+    const error = e.name === 'AbortError' ? "Request timed out on client" : e.message;
+    return { results: {}, usage: { inputTokens: 0, outputTokens: 0, cost: 0 }, error, failures: Object.fromEntries(tracks.map(t => [t.TrackID, error])) };
   }
 };
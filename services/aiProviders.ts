@@ -0,0 +1,222 @@
+import { AIProviderId, AIProviderSettings, BatchUsage, ApiKeyStatus, LocalEnrichPayload } from "../types";
+import { getActiveTaxonomy } from "./taxonomy";
+import { RequestError } from "./jobRunner";
+import { ModelPricing, getModelPricing, priceGeminiResponse, priceTokens } from "./pricing";
+
+// NO BUNDLED KEY - SECURE PROXY MODE
+// LIVE PROXY URL from successful deployment
+const ENRICH_PROXY_URL = "https://enrichbatch-nxf6vuupsq-uc.a.run.app";
+
+// Updated to use the consistent Cloud Run URL format matching the working enrich function
+// Derived from: enrichbatch-nxf6vuupsq-uc.a.run.app -> generateplaylist-nxf6vuupsq-uc.a.run.app
+const PLAYLIST_PROXY_URL = "https://generateplaylist-nxf6vuupsq-uc.a.run.app";
+
+export type AITask = 'enrich' | 'search';
+
+export interface AIRequest {
+  task: AITask;
+  prompt: string; // Instructions, including the taxonomy and the expected JSON shape
+  input: unknown; // The tracks to analyze, or the search query
+  deep?: boolean; // Second pass: stronger model, web search and thinking where the provider has them
+  signal?: AbortSignal;
+}
+
+export interface AIResponse {
+  text: string; // Raw model output; callers pull the JSON out of it
+  usage: BatchUsage;
+  grounding?: GroundingMetadata; // Gemini's raw search grounding, when the request was grounded with web search
+}
+
+// The parts of Gemini's groundingMetadata that source attribution reads
+export interface GroundingMetadata {
+  groundingChunks?: { web?: { uri?: string; title?: string } }[];
+  groundingSupports?: { segment?: { startIndex?: number }; groundingChunkIndices?: number[] }[];
+}
+
+/**
+ * A backend that enrichment and semantic search can be sent to. Each provider owns its
+ * request format, response parsing and pricing; callers only build prompts and read JSON.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  complete: (request: AIRequest) => Promise<AIResponse>;
+  pricing: (deep: boolean) => ModelPricing; // For cost estimates before a job runs
+}
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  'gemini-proxy': "Gemini (CrateBatch Proxy)",
+  'openai-compatible': "OpenAI-Compatible (Local)"
+};
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AIProviderSettings = {
+  provider: 'gemini-proxy',
+  openai: {
+    baseUrl: "http://localhost:11434/v1",
+    model: "llama3.1",
+    inputPricePerMillion: 0,
+    outputPricePerMillion: 0
+  }
+};
+
+const NO_USAGE: BatchUsage = { inputTokens: 0, outputTokens: 0, cost: 0 };
+
+const NO_API_KEY: ApiKeyStatus = { configured: false, encryptionAvailable: false };
+let apiKeyStatus: Promise<ApiKeyStatus> | null = null;
+
+const desktop = () => typeof window !== 'undefined' ? window.electron : undefined;
+
+/**
+ * Whether the desktop app holds the user's own Gemini key. Enrichment then calls Gemini from the
+ * main process with that key instead of going through the shared proxy.
+ */
+export const getApiKeyStatus = (): Promise<ApiKeyStatus> => {
+  const electron = desktop();
+  if (!electron) return Promise.resolve(NO_API_KEY);
+  if (!apiKeyStatus) {
+    apiKeyStatus = electron.getApiKeyStatus().catch(e => {
+      console.error("Failed to read API key status", e);
+      return NO_API_KEY;
+    });
+  }
+  return apiKeyStatus;
+};
+
+// Store (or with null, remove) the user's key. It goes straight to the main process for encryption.
+export const saveApiKey = async (key: string | null) => {
+  const electron = desktop();
+  if (!electron) throw new Error("Your own API key needs the desktop app");
+  const result = await electron.setApiKey(key);
+  apiKeyStatus = null;
+  if (!result.success) throw new Error(result.error || "Failed to save API key");
+};
+
+// MODEL SELECTION STRATEGY
+// Initial Pass: Gemini 3 Flash Preview (Internal Knowledge)
+// Retry Pass: Gemini 2.0 Flash Thinking (Specialized Reasoning Model)
+const GEMINI_FAST_MODEL = "gemini-3-flash-preview";
+const GEMINI_DEEP_MODEL = "gemini-2.0-flash-thinking-exp";
+
+const candidateText = (data: any): string => data?.candidates?.[0]?.content?.parts?.[0]?.text || "";
+
+// Runs a batch through the main process. Cancelling the job aborts the request there, so a
+// cancelled batch isn't still sent and billed on the user's key.
+const enrichInMainProcess = async (electron: NonNullable<Window['electron']>, payload: LocalEnrichPayload, signal?: AbortSignal) => {
+  const cancelled = () => new DOMException("Request cancelled", 'AbortError');
+  if (signal?.aborted) throw cancelled();
+  const requestId = crypto.randomUUID();
+  const onAbort = () => { electron.abortEnrichBatch(requestId).catch(e => console.error("Failed to cancel request", e)); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    const res = await electron.enrichBatch(requestId, payload);
+    if (res.cancelled) throw cancelled();
+    return res;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const createGeminiProxyProvider = (): AIProvider => ({
+  id: 'gemini-proxy',
+  pricing: deep => getModelPricing(deep ? GEMINI_DEEP_MODEL : GEMINI_FAST_MODEL),
+  complete: async ({ task, prompt, input, deep = false, signal }) => {
+    if (task === 'search') {
+      const taxonomy = getActiveTaxonomy();
+      const response = await fetch(PLAYLIST_PROXY_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query: input,
+          taxonomy: { vibes: taxonomy.vibe, genres: taxonomy.subGenre, situations: taxonomy.situation },
+          prompt,
+          model: GEMINI_FAST_MODEL
+        }),
+        signal
+      });
+      const res = await response.json().catch(() => null);
+      if (!res?.success) throw new RequestError(res?.error || "Playlist Gen Error", response.status);
+
+      // The playlist proxy returns the parsed JSON; Cloud Run direct returns candidates
+      const data = res.data;
+      const text = typeof data === 'string' ? data : data?.candidates ? candidateText(data) : JSON.stringify(data);
+      return { text, usage: data?.usageMetadata ? priceGeminiResponse(GEMINI_FAST_MODEL, data) : NO_USAGE };
+    }
+
+    const model = deep ? GEMINI_DEEP_MODEL : GEMINI_FAST_MODEL;
+    const payload: LocalEnrichPayload = {
+      tracks: input as any[],
+      prompt,
+      model,
+      googleSearch: deep, // Enable Google Search for retries
+      useThinking: deep // Enable thinking for retry passes
+    };
+
+    // With the user's own key the main process calls Gemini directly; it answers in the proxy's shape
+    const electron = desktop();
+    const res = electron && (await getApiKeyStatus()).configured
+      ? await enrichInMainProcess(electron, payload, signal)
+      : await fetch(ENRICH_PROXY_URL, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...payload, useUrlContext: false }), // Disable URL Context completely
+          signal
+        }).then(async response => ({ status: response.status, ...await response.json().catch(() => ({ success: false })) }));
+    if (!res.success) throw new RequestError(res.error || "Proxy Error", res.status);
+
+    return { text: candidateText(res.data), usage: priceGeminiResponse(model, res.data), grounding: res.data?.candidates?.[0]?.groundingMetadata };
+  }
+});
+
+// Chat-completions servers (llama.cpp, Ollama, LM Studio, vLLM) have no web search, so a deep
+// pass only re-asks the same model
+const createOpenAICompatibleProvider = (config: AIProviderSettings['openai']): AIProvider => ({
+  id: 'openai-compatible',
+  pricing: () => ({ input: config.inputPricePerMillion, output: config.outputPricePerMillion }),
+  complete: async ({ prompt, input, signal }) => {
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: typeof input === 'string' ? input : JSON.stringify(input) }
+        ],
+        temperature: 0.2
+      }),
+      signal
+    });
+    const res = await response.json().catch(() => null);
+    if (!response.ok || !res) {
+      const message = typeof res?.error === 'string' ? res.error : res?.error?.message;
+      throw new RequestError(message || `Server returned ${response.status}`, response.status);
+    }
+
+    const inputTokens = res.usage?.prompt_tokens || 0;
+    const outputTokens = res.usage?.completion_tokens || 0;
+    const thinkingTokens = res.usage?.completion_tokens_details?.reasoning_tokens || 0;
+    const cost = priceTokens({ input: config.inputPricePerMillion, output: config.outputPricePerMillion }, inputTokens, outputTokens);
+    return {
+      text: res.choices?.[0]?.message?.content || "",
+      usage: {
+        inputTokens,
+        outputTokens,
+        cost,
+        models: [{ model: config.model, requests: 1, inputTokens, outputTokens, thinkingTokens, searchQueries: 0, cost }]
+      }
+    };
+  }
+});
+
+export const createAIProvider = (settings: AIProviderSettings): AIProvider =>
+  settings.provider === 'openai-compatible'
+    ? createOpenAICompatibleProvider(settings.openai)
+    : createGeminiProxyProvider();
+
+// Enrichment and search use the provider chosen in the settings; App keeps this in sync
+let activeProvider: AIProvider = createAIProvider(DEFAULT_AI_PROVIDER_SETTINGS);
+
+export const getActiveAIProvider = (): AIProvider => activeProvider;
+
+export const setActiveAIProvider = (settings: AIProviderSettings) => {
+  activeProvider = createAIProvider(settings);
+};
@@ -0,0 +1,157 @@
+import { RekordboxTrack, AIAnalysis, CachedAnalysis, EnrichmentMode } from '../types';
+import { trackFingerprint } from './utils';
+import { loadAnalysisCache, saveAnalysisCache } from './sessionStore';
+import { migrateAnalysis } from './tagMigration';
+
+// Durations within this many seconds count as the same recording (same tolerance as findDuplicates)
+const DURATION_TOLERANCE = 2;
+const SAVE_DELAY_MS = 2000;
+
+export interface AnalysisCacheStore {
+  load: () => Promise<CachedAnalysis[]>;
+  save: (changed: CachedAnalysis[], all: CachedAnalysis[]) => Promise<void>;
+}
+
+// The app persists through the session store; the CLI swaps in a JSON file
+let store: AnalysisCacheStore = { load: loadAnalysisCache, save: saveAnalysisCache };
+
+let cache: Map<string, CachedAnalysis> | null = null;
+let cacheLoading: Promise<Map<string, CachedAnalysis>> | null = null;
+const dirtyKeys = new Set<string>();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+const getCache = (): Promise<Map<string, CachedAnalysis>> => {
+  if (cache) return Promise.resolve(cache);
+  if (!cacheLoading) {
+    cacheLoading = store.load()
+      .catch(e => {
+        console.error("Failed to load analysis cache", e);
+        return [] as CachedAnalysis[];
+      })
+      .then(entries => {
+        cache = new Map(entries.map(e => [e.key, e]));
+        return cache;
+      });
+  }
+  return cacheLoading;
+};
+
+const durationOf = (track: RekordboxTrack) => parseInt(track.TotalTime || "0", 10) || 0;
+
+const cacheKey = (fingerprint: string, duration: number) => `${fingerprint}@${duration}`;
+
+const isKnown = (value?: string): value is string => !!value && value !== "Unknown" && value !== "0";
+
+// Whether a cached analysis already answers what the mode asks for
+const answersMode = (analysis: AIAnalysis, mode: EnrichmentMode): boolean => {
+  if (mode === 'missing_genre') return isKnown(analysis.mainGenre);
+  if (mode === 'missing_year') return isKnown(analysis.year);
+  return isKnown(analysis.vibe) && isKnown(analysis.subGenre) && isKnown(analysis.situation);
+};
+
+const findEntry = (entries: Map<string, CachedAnalysis>, track: RekordboxTrack): CachedAnalysis | undefined => {
+  const fingerprint = trackFingerprint(track);
+  if (!fingerprint) return undefined;
+  const duration = durationOf(track);
+  if (duration === 0) return entries.get(cacheKey(fingerprint, 0));
+
+  // Exact duration first, then the closest neighbours
+  for (let offset = 0; offset <= DURATION_TOLERANCE; offset++) {
+    const entry = entries.get(cacheKey(fingerprint, duration - offset)) || entries.get(cacheKey(fingerprint, duration + offset));
+    if (entry) return entry;
+  }
+  return undefined;
+};
+
+const saveDirty = async () => {
+  if (!cache || dirtyKeys.size === 0) return;
+  const changed = Array.from(dirtyKeys).map(key => cache!.get(key)).filter(Boolean) as CachedAnalysis[];
+  dirtyKeys.clear();
+  await store.save(changed, Array.from(cache.values())).catch(e => console.error("Failed to save analysis cache", e));
+};
+
+const scheduleSave = () => {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    saveDirty();
+  }, SAVE_DELAY_MS);
+};
+
+/**
+ * Use a different place to persist the cache. Entries already loaded from the old store are dropped.
+ */
+export const setAnalysisCacheStore = (next: AnalysisCacheStore) => {
+  store = next;
+  cache = null;
+  cacheLoading = null;
+  dirtyKeys.clear();
+};
+
+/**
+ * Write pending entries now instead of after the save delay (e.g. before a process exits).
+ */
+export const flushAnalysisCache = async () => {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  await saveDirty();
+};
+
+export interface CacheLookup {
+  hits: Record<string, AIAnalysis>; // By TrackID
+  misses: RekordboxTrack[];
+  savedCost: number;
+}
+
+/**
+ * Split tracks into those the cache can answer for this mode and those that still need the AI.
+ */
+export const lookupCachedAnalyses = async (tracks: RekordboxTrack[], mode: EnrichmentMode): Promise<CacheLookup> => {
+  const entries = await getCache();
+  const result: CacheLookup = { hits: {}, misses: [], savedCost: 0 };
+
+  tracks.forEach(track => {
+    const entry = findEntry(entries, track);
+    if (entry && answersMode(entry.analysis, mode)) {
+      // Entries may predate a taxonomy change
+      result.hits[track.TrackID] = migrateAnalysis(entry.analysis);
+      result.savedCost += entry.costs[mode] || 0;
+    } else {
+      result.misses.push(track);
+    }
+  });
+  return result;
+};
+
+/**
+ * Store fresh results. Only known values are merged, so a later "Unknown" never erases an earlier answer.
+ */
+export const cacheAnalyses = async (tracks: RekordboxTrack[], results: Record<string, AIAnalysis>, mode: EnrichmentMode, costPerTrack: number) => {
+  const entries = await getCache();
+  const now = Date.now();
+
+  tracks.forEach(track => {
+    const analysis = results[track.TrackID];
+    const fingerprint = trackFingerprint(track);
+    if (!analysis || !fingerprint) return;
+
+    const existing = findEntry(entries, track);
+    const key = existing?.key || cacheKey(fingerprint, durationOf(track));
+    const known = Object.entries(analysis).filter(([, value]) => Array.isArray(value) ? value.length > 0 : isKnown(value));
+    const merged: AIAnalysis = {
+      ...(existing?.analysis || { vibe: "Unknown", subGenre: "Unknown", situation: "Unknown" }),
+      ...Object.fromEntries(known)
+    };
+
+    entries.set(key, {
+      key,
+      analysis: merged,
+      costs: { ...existing?.costs, [mode]: costPerTrack },
+      updatedAt: now
+    });
+    dirtyKeys.add(key);
+  });
+  scheduleSave();
+};
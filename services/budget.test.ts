@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { RekordboxTrack } from '../types';
+import { jobSpendingCap, createSpendingGuard, estimateEnrichmentCost } from './budget';
+import { setActiveAIProvider, DEFAULT_AI_PROVIDER_SETTINGS } from './aiProviders';
+import { setAnalysisCacheStore } from './analysisCache';
+
+describe('jobSpendingCap', () => {
+  it('takes the lower of the per-job cap and what is left of the month', () => {
+    expect(jobSpendingCap({ perJob: 5, perMonth: 20 }, 18)).toBe(2);
+    expect(jobSpendingCap({ perJob: 5, perMonth: 20 }, 10)).toBe(5);
+  });
+
+  it('treats 0 as no cap', () => {
+    expect(jobSpendingCap({ perJob: 0, perMonth: 0 }, 100)).toBe(Infinity);
+    expect(jobSpendingCap({ perJob: 3, perMonth: 0 }, 100)).toBe(3);
+    expect(jobSpendingCap({ perJob: 0, perMonth: 10 }, 4)).toBe(6);
+  });
+
+  it('never goes below zero once the month is overspent', () => {
+    expect(jobSpendingCap({ perJob: 5, perMonth: 10 }, 12)).toBe(0);
+  });
+});
+
+describe('createSpendingGuard', () => {
+  it('refuses a reservation that could take the job past its cap', () => {
+    const guard = createSpendingGuard(1);
+    expect(guard.reserve(0.4)).toBe(true);
+    expect(guard.reserve(0.4)).toBe(true);
+    expect(guard.reserve(0.4)).toBe(false);
+    expect(guard.reserved).toBeCloseTo(0.8);
+    expect(guard.spent).toBe(0);
+  });
+
+  it('swaps a reservation for the real cost when the batch settles', () => {
+    const guard = createSpendingGuard(1);
+    guard.reserve(0.4);
+    guard.reserve(0.4);
+    guard.settle(0.4, 0.1);
+    expect(guard.spent).toBeCloseTo(0.1);
+    expect(guard.reserved).toBeCloseTo(0.4);
+    expect(guard.reserve(0.4)).toBe(true);
+  });
+
+  it('releases the reservation of a batch that failed', () => {
+    const guard = createSpendingGuard(0.5);
+    guard.reserve(0.5);
+    guard.settle(0.5, 0);
+    expect(guard.reserved).toBe(0);
+    expect(guard.reserve(0.5)).toBe(true);
+  });
+
+  it('lets everything through without a cap', () => {
+    const guard = createSpendingGuard(Infinity);
+    expect(guard.reserve(1e9)).toBe(true);
+  });
+});
+
+describe('estimateEnrichmentCost', () => {
+  const tracks = (count: number, subGenre?: string): RekordboxTrack[] => Array.from({ length: count }, (_, i) => ({
+    TrackID: String(i + 1), Name: `Track ${i + 1}`, Artist: 'Artist', AverageBpm: '120', Tonality: '', Year: '0', TotalTime: '200', Comments: '',
+    Analysis: subGenre ? { vibe: 'Unknown', subGenre, situation: 'Unknown', year: '0' } : undefined
+  }));
+
+  beforeAll(() => {
+    setAnalysisCacheStore({ load: async () => [], save: async () => {} });
+    // $1 per million input and $2 per million output tokens, on both passes
+    setActiveAIProvider({ ...DEFAULT_AI_PROVIDER_SETTINGS, provider: 'openai-compatible', openai: { ...DEFAULT_AI_PROVIDER_SETTINGS.openai, inputPricePerMillion: 1, outputPricePerMillion: 2 } });
+  });
+
+  it('prices the first pass plus the expected share of retries', async () => {
+    // Per track: 52 input + 110 output tokens; per retry: 115 input + 360 output tokens
+    expect(await estimateEnrichmentCost(tracks(100), 'full')).toEqual({ tracks: 100, local: 0, retries: 5, cost: expect.closeTo(0.031375, 9) });
+  });
+
+  it('sends every track to the deep pass when asked to', async () => {
+    expect(await estimateEnrichmentCost(tracks(100), 'full', true)).toEqual({ tracks: 100, local: 0, retries: 100, cost: expect.closeTo(0.0835, 9) });
+  });
+
+  it('counts genres the taxonomy can infer as free', async () => {
+    expect(await estimateEnrichmentCost(tracks(10, 'Tech House'), 'missing_genre')).toEqual({ tracks: 10, local: 10, retries: 0, cost: 0 });
+  });
+});
@@ -0,0 +1,81 @@
+import { RekordboxTrack, EnrichmentMode, BudgetSettings, CostEstimate } from '../types';
+import { inferMainGenres } from './ai';
+import { getActiveAIProvider } from './aiProviders';
+import { lookupCachedAnalyses } from './analysisCache';
+import { priceTokens } from './pricing';
+
+// Typical token counts per track, from real batches. The prompt is sent once per batch:
+// 100 tracks on the first pass, 10 on the deep year search.
+const FIRST_PASS_BATCH = 100;
+const DEEP_PASS_BATCH = 10;
+const PROMPT_TOKENS: Record<EnrichmentMode, number> = { full: 700, missing_genre: 250, missing_year: 450 };
+const INPUT_TOKENS_PER_TRACK = 45;
+const OUTPUT_TOKENS_PER_TRACK: Record<EnrichmentMode, number> = { full: 110, missing_genre: 15, missing_year: 15 };
+const DEEP_EXTRA_OUTPUT_TOKENS = 250; // Thinking and search results billed as output
+const SEARCHES_PER_RETRY = 1;
+
+// Share of tracks expected to need the deep pass. Years the model isn't sure of go to search;
+// otherwise only failed batches are retried.
+const RETRY_RATE: Record<EnrichmentMode, number> = { full: 0.05, missing_genre: 0.05, missing_year: 0.35 };
+
+/**
+ * Expected cost of enriching these tracks with the active provider. Tracks the cache or the genre
+ * hierarchy can answer are free. With `deep`, every track goes straight to the deep retry pass.
+ */
+export const estimateEnrichmentCost = async (tracks: RekordboxTrack[], mode: EnrichmentMode, deep: boolean = false): Promise<CostEstimate> => {
+  const inferred = mode === 'missing_genre' ? inferMainGenres(tracks) : {};
+  const { misses } = await lookupCachedAnalyses(tracks.filter(t => !inferred[t.TrackID]), mode);
+  const retries = deep ? misses.length : Math.round(misses.length * RETRY_RATE[mode]);
+
+  const provider = getActiveAIProvider();
+  const fast = provider.pricing(false);
+  const deepPricing = provider.pricing(true);
+  const perTrack = priceTokens(fast, PROMPT_TOKENS[mode] / FIRST_PASS_BATCH + INPUT_TOKENS_PER_TRACK, OUTPUT_TOKENS_PER_TRACK[mode]);
+  const perRetry = priceTokens(deepPricing, PROMPT_TOKENS[mode] / DEEP_PASS_BATCH + INPUT_TOKENS_PER_TRACK, OUTPUT_TOKENS_PER_TRACK[mode] + DEEP_EXTRA_OUTPUT_TOKENS)
+    + (deepPricing.searchQuery !== undefined ? SEARCHES_PER_RETRY * deepPricing.searchQuery : (deepPricing.groundedPrompt || 0) / DEEP_PASS_BATCH);
+
+  return {
+    tracks: tracks.length,
+    local: tracks.length - misses.length,
+    retries,
+    cost: (deep ? 0 : misses.length * perTrack) + retries * perRetry
+  };
+};
+
+/**
+ * The most a new job may spend: the per-job cap or what is left of the month's, whichever is lower.
+ */
+export const jobSpendingCap = (budget: BudgetSettings, monthSpent: number): number => {
+  const perJob = budget.perJob > 0 ? budget.perJob : Infinity;
+  const perMonth = budget.perMonth > 0 ? Math.max(0, budget.perMonth - monthSpent) : Infinity;
+  return Math.min(perJob, perMonth);
+};
+
+export interface SpendingGuard {
+  readonly spent: number;
+  readonly reserved: number;
+  reserve: (estimate: number) => boolean; // False if the batch could take the job past its cap
+  settle: (estimate: number, cost: number) => void; // Swap a reservation for what the batch really cost
+}
+
+/**
+ * Keeps a job under its cap while batches run in parallel. Each batch reserves its estimated cost
+ * before it starts, so a whole wave of batches can't start against the same unspent budget.
+ */
+export const createSpendingGuard = (cap: number): SpendingGuard => {
+  let spent = 0;
+  let reserved = 0;
+  return {
+    get spent() { return spent; },
+    get reserved() { return reserved; },
+    reserve: estimate => {
+      if (spent + reserved + estimate > cap) return false;
+      reserved += estimate;
+      return true;
+    },
+    settle: (estimate, cost) => {
+      reserved = Math.max(0, reserved - estimate);
+      spent += cost;
+    }
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { buildExportPreview, revertExcludedChanges, snapshotTrackFields } from './exportDiff';
+import { parseLibraryChunks } from './libraryParse';
+import { readAllTrackFields, removeTrackField, writeTrackField } from './fields';
+
+const REKORDBOX = `<?xml version="1.0" encoding="UTF-8"?>
+<DJ_PLAYLISTS Version="1.0.0"><PRODUCT Name="rekordbox"/><COLLECTION Entries="1">
+<TRACK TrackID="1" Name="A" Artist="B" Comments="mine" Genre="House" Label="Old Label" Location="file://localhost/music/a.mp3"/>
+</COLLECTION><PLAYLISTS><NODE Type="0" Name="ROOT" Count="0"/></PLAYLISTS></DJ_PLAYLISTS>`;
+
+const TRAKTOR = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?><NML VERSION="19"><COLLECTION ENTRIES="1">
+<ENTRY TITLE="A" ARTIST="B"><LOCATION DIR="/:music/:" FILE="a.mp3" VOLUME="HD"/><TEMPO BPM="120"/></ENTRY>
+</COLLECTION></NML>`;
+
+const preview = (tracks: any[], snapshot: any) => buildExportPreview(tracks, snapshot, [], [], [], 'AI_GENERATED').attributes;
+
+describe('revertExcludedChanges', () => {
+  it('reverts excluded changes and re-applies them afterwards', async () => {
+    const { tracks } = await parseLibraryChunks([REKORDBOX]);
+    const [track] = tracks;
+    const snapshot = snapshotTrackFields(tracks);
+    const imported = readAllTrackFields(track);
+
+    writeTrackField(track, 'Comments', 'mine [CB: #Groovy]');
+    writeTrackField(track, 'Genre', 'Techno');
+    writeTrackField(track, 'Grouping', 'Groovy');
+    removeTrackField(track, 'Label');
+    const changes = preview(tracks, snapshot);
+    const edited = readAllTrackFields(track);
+
+    const excluded = new Set(['1:Genre', '1:Grouping', '1:Label']);
+    const reapply = revertExcludedChanges(tracks, changes, excluded);
+    const exported = readAllTrackFields(track);
+    expect(exported.Comments).toBe('mine [CB: #Groovy]');
+    expect(exported.Genre).toBe(imported.Genre);
+    expect(exported.Label).toBe('Old Label');
+    expect('Grouping' in exported).toBe(false);
+
+    reapply();
+    expect(readAllTrackFields(track)).toEqual(edited);
+  });
+
+  it('leaves changes that are not excluded alone', async () => {
+    const { tracks } = await parseLibraryChunks([REKORDBOX]);
+    const snapshot = snapshotTrackFields(tracks);
+    writeTrackField(tracks[0], 'Genre', 'Techno');
+    revertExcludedChanges(tracks, preview(tracks, snapshot), new Set());
+    expect(readAllTrackFields(tracks[0]).Genre).toBe('Techno');
+  });
+
+  it('takes out a Traktor INFO element the excluded write created', async () => {
+    const { tracks } = await parseLibraryChunks([TRAKTOR]);
+    const [track] = tracks;
+    const snapshot = snapshotTrackFields(tracks);
+    writeTrackField(track, 'Comments', '[CB: #Groovy]');
+    const changes = preview(tracks, snapshot);
+    expect(changes.map(c => [c.field, c.added])).toEqual([['Comments', true]]);
+
+    const reapply = revertExcludedChanges(tracks, changes, new Set(['HD/:music/:a.mp3:Comments']));
+    expect(track._rawNode.ENTRY.some((node: any) => node.INFO)).toBe(false);
+    reapply();
+    expect(readAllTrackFields(track).Comments).toBe('[CB: #Groovy]');
+  });
+});
@@ -0,0 +1,160 @@
+import { RekordboxTrack, PlaylistNode, CustomPlaylist, AttributeChange, PlaylistChange, ExportPreview } from '../types';
+import { readAllTrackFields, writeTrackField, removeTrackField } from './fields';
+import { formatRekordboxPath } from './parser';
+import { groupTracksByAnalysis, groupSubGenresByMainGenre, playlistPath, toCSV } from './utils';
+
+export type FieldSnapshot = Map<string, Record<string, string>>;
+
+/**
+ * Capture every track's attributes as imported, so later exports can be diffed against it.
+ */
+export const snapshotTrackFields = (tracks: RekordboxTrack[]): FieldSnapshot => {
+  return new Map(tracks.map(t => [t.TrackID, readAllTrackFields(t)]));
+};
+
+// Mirrors the folder structure built by generateSmartPlaylists / generateTraktorPlaylists
+const listGeneratedPlaylists = (
+  tracks: RekordboxTrack[],
+  duplicateIds: string[],
+  customPlaylists: CustomPlaylist[],
+  rootFolderName: string,
+  confidenceThreshold: number,
+  nestSubGenres: boolean
+): { id: string; entries: number }[] => {
+  const { vibes, subGenres, situations } = groupTracksByAnalysis(tracks, confidenceThreshold);
+  const result: { id: string; entries: number }[] = [];
+
+  if (duplicateIds.length > 0) {
+    result.push({ id: playlistPath(rootFolderName, "[POSSIBLE DUPLICATES]"), entries: duplicateIds.length });
+  }
+
+  const addFolder = (folderPath: string[], map: Record<string, string[]>) => {
+    Object.keys(map).sort().forEach(key => {
+      result.push({ id: playlistPath(rootFolderName, ...folderPath, key), entries: map[key].length });
+    });
+  };
+  addFolder(["Vibes"], vibes);
+  if (nestSubGenres) {
+    const nested = groupSubGenresByMainGenre(subGenres);
+    Object.keys(nested).sort().forEach(mainGenre => addFolder(["Sub-Genres", mainGenre], nested[mainGenre]));
+  } else {
+    addFolder(["Sub-Genres"], subGenres);
+  }
+  addFolder(["Situations"], situations);
+
+  customPlaylists.forEach(cp => {
+    result.push({ id: playlistPath(rootFolderName, "SAVED_SEARCHES", cp.name), entries: cp.trackIds.length });
+  });
+
+  return result;
+};
+
+// Playlists already present under the generated folder in the imported library
+const listExistingPlaylists = (libraryPlaylists: PlaylistNode[], rootFolderName: string): Set<string> => {
+  const paths = new Set<string>();
+  const walk = (node: PlaylistNode, path: string) => {
+    if (node.type === 'playlist') paths.add(path);
+    else node.children.forEach(child => walk(child, playlistPath(path, child.name)));
+  };
+  libraryPlaylists
+    .filter(n => n.name === rootFolderName)
+    .forEach(n => walk(n, rootFolderName));
+  return paths;
+};
+
+/**
+ * Diff the current in-memory library against the import snapshot:
+ * every changed track attribute, every rewritten Location, and the playlists being written.
+ */
+export const buildExportPreview = (
+  tracks: RekordboxTrack[],
+  snapshot: FieldSnapshot,
+  libraryPlaylists: PlaylistNode[],
+  duplicateIds: string[],
+  customPlaylists: CustomPlaylist[],
+  rootFolderName: string,
+  confidenceThreshold: number = 0,
+  nestSubGenres: boolean = false
+): ExportPreview => {
+  const attributes: AttributeChange[] = [];
+
+  tracks.forEach(track => {
+    const before = snapshot.get(track.TrackID) || {};
+    const after = readAllTrackFields(track);
+    const trackLabel = `${track.Artist} - ${track.Name}`;
+
+    // Rekordbox Locations are normalized on export, so preview the final value
+    if (track._source === 'rekordbox' && after.Location) {
+      after.Location = formatRekordboxPath(after.Location);
+    }
+
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    fields.forEach(field => {
+      const oldValue = before[field] ?? "";
+      const newValue = after[field] ?? "";
+      if (oldValue !== newValue) {
+        attributes.push({
+          id: `${track.TrackID}:${field}`, trackId: track.TrackID, trackLabel, field, before: oldValue, after: newValue,
+          ...(before[field] === undefined ? { added: true } : {}),
+          ...(after[field] === undefined ? { removed: true } : {})
+        });
+      }
+    });
+  });
+
+  const existing = listExistingPlaylists(libraryPlaylists, rootFolderName);
+  const generated = listGeneratedPlaylists(tracks, duplicateIds, customPlaylists, rootFolderName, confidenceThreshold, nestSubGenres);
+  const generatedIds = new Set(generated.map(p => p.id));
+
+  const playlists: PlaylistChange[] = generated.map(p => ({
+    id: p.id,
+    action: existing.has(p.id) ? 'replace' : 'add',
+    entries: p.entries
+  }));
+
+  // The whole generated folder is replaced, so anything not regenerated disappears
+  existing.forEach(id => {
+    if (!generatedIds.has(id)) playlists.push({ id, action: 'remove', entries: 0 });
+  });
+
+  return { attributes, playlists };
+};
+
+/**
+ * Temporarily revert excluded attribute changes in the XML tree.
+ * Returns a function that re-applies them once the file has been written.
+ */
+export const revertExcludedChanges = (
+  tracks: RekordboxTrack[],
+  changes: AttributeChange[],
+  excludedIds: Set<string>
+): (() => void) => {
+  const trackById = new Map(tracks.map(t => [t.TrackID, t]));
+  const reverted: AttributeChange[] = [];
+
+  changes.forEach(change => {
+    if (!excludedIds.has(change.id)) return;
+    const track = trackById.get(change.trackId);
+    if (!track) return;
+    // An attribute the imported file didn't have is taken out again, not left behind empty
+    if (change.added) removeTrackField(track, change.field);
+    else writeTrackField(track, change.field, change.before);
+    reverted.push(change);
+  });
+
+  return () => {
+    reverted.forEach(change => {
+      const track = trackById.get(change.trackId);
+      if (!track) return;
+      if (change.removed) removeTrackField(track, change.field);
+      else writeTrackField(track, change.field, change.after);
+    });
+  };
+};
+
+export const changeReportToCSV = (preview: ExportPreview): string => {
+  const rows: (string | number)[][] = [["Type", "TrackID", "Track", "Field", "Before", "After"]];
+  preview.attributes.forEach(c => rows.push(["attribute", c.trackId, c.trackLabel, c.field, c.before, c.after]));
+  preview.playlists.forEach(p => rows.push(["playlist", "", p.id, p.action, "", p.entries]));
+  return toCSV(rows);
+};
@@ -0,0 +1,54 @@
+import { AnalysisDimension, FieldMapping, MappingFormat } from '../types';
+import { getTags } from './taxonomy';
+
+// Matches the hardcoded behaviour before mapping became configurable
+export const DEFAULT_FIELD_MAPPING: FieldMapping = {
+  vibe: { target: 'Comments', format: 'hashtag', overwrite: true },
+  subGenre: { target: 'Comments', format: 'hashtag', overwrite: true },
+  situation: { target: 'Comments', format: 'hashtag', overwrite: true },
+  mainGenre: { target: 'Genre', format: 'text', overwrite: true },
+  year: { target: 'Year', format: 'text', overwrite: false }
+};
+
+export const DIMENSION_LABELS: Record<AnalysisDimension, string> = {
+  vibe: 'Vibe',
+  subGenre: 'Sub-Genre',
+  mainGenre: 'Main Genre',
+  situation: 'Situation',
+  year: 'Year'
+};
+
+export const MAPPING_TARGETS = ['Comments', 'Grouping', 'Label', 'Colour', 'Rating', 'Genre', 'Year', 'Mix'];
+
+export const MAPPING_FORMATS: { value: MappingFormat; label: string }[] = [
+  { value: 'hashtag', label: '#Hashtag' },
+  { value: 'text', label: 'Plain Text' },
+  { value: 'colour', label: 'Colour Code' },
+  { value: 'rating', label: 'Star Rating' }
+];
+
+// Rekordbox's fixed track colour palette
+const REKORDBOX_COLOURS = ["0xFF007F", "0xFF0000", "0xFFA500", "0xFFFF00", "0x00FF00", "0x25FDE9", "0x0000FF", "0x660099"];
+
+/**
+ * Format an analysis value for writing. Colour and rating spread the dimension's
+ * taxonomy across the palette / 1-5 stars, so the same tag always gets the same value.
+ * Returns an empty string when the value cannot be represented in that format.
+ */
+export const formatMappedValue = (dimension: AnalysisDimension, value: string, format: MappingFormat): string => {
+  if (!value || value === "Unknown" || value === "0") return "";
+
+  if (format === 'hashtag') return `#${value.replace(/\s+/g, '')}`;
+  if (format === 'text') return value;
+
+  if (dimension === 'year') return "";
+  const taxonomy = getTags(dimension);
+  const index = taxonomy.indexOf(value);
+  if (index < 0) return "";
+
+  if (format === 'colour') return REKORDBOX_COLOURS[index % REKORDBOX_COLOURS.length];
+
+  // Rekordbox stores ratings as 0-255 in steps of 51 per star
+  const stars = Math.floor(index * 5 / taxonomy.length) + 1;
+  return (stars * 51).toString();
+};
@@ -0,0 +1,152 @@
+import { RekordboxTrack, LibraryFormat } from '../types';
+
+// Logical field names follow the Rekordbox TRACK attribute names (without the "@_" prefix).
+// Traktor keeps the same information on the ENTRY's INFO child under its own names.
+const TRAKTOR_INFO_FIELDS: Record<string, string> = {
+  Comments: 'COMMENT',
+  Genre: 'GENRE',
+  Year: 'RELEASE_DATE',
+  Label: 'LABEL',
+  Mix: 'MIX',
+  Rating: 'RANKING', // Same 0-255 scale as Rekordbox
+  Colour: 'COLOR'
+};
+
+// Whether a library format has somewhere to store the field; Traktor only has the INFO attributes above
+export const canWriteTrackField = (format: LibraryFormat, field: string): boolean =>
+  format !== 'traktor' || field in TRAKTOR_INFO_FIELDS;
+
+// Rekordbox colour codes -> Traktor colour index (1 red, 2 orange, 3 yellow, 4 green, 5 blue, 6 violet, 7 magenta)
+const TRAKTOR_COLOUR_INDEX: Record<string, string> = {
+  "0xFF007F": "7", "0xFF0000": "1", "0xFFA500": "2", "0xFFFF00": "3",
+  "0x00FF00": "4", "0x25FDE9": "5", "0x0000FF": "5", "0x660099": "6"
+};
+
+const toTraktorValue = (field: string, value: string, current: string = ""): string => {
+  if (!value) return value;
+  // Only the year is ours; a release date Traktor already has keeps its month and day
+  if (field === 'Year') return /^\d{4}\//.test(current) ? current.replace(/^\d{4}/, value) : `${value}/1/1`;
+  if (field === 'Colour') return TRAKTOR_COLOUR_INDEX[value] || value;
+  return value;
+};
+
+// Traktor stores release dates as "YYYY/M/D"
+export const traktorDateToYear = (date: string): string => {
+  if (!date) return "";
+  const match = date.match(/^(\d{4})/);
+  return match && match[1] !== "0000" ? match[1] : "";
+};
+
+const getTraktorInfoAttributes = (rawNode: any, create: boolean): Record<string, string> | undefined => {
+  const children = rawNode?.ENTRY;
+  if (!Array.isArray(children)) return undefined;
+
+  let infoNode = children.find((n: any) => n.INFO);
+  if (!infoNode) {
+    if (!create) return undefined;
+    infoNode = { INFO: [], ':@': {} };
+    // Keep Traktor's element order: INFO sits before TEMPO when present
+    const tempoIndex = children.findIndex((n: any) => n.TEMPO);
+    if (tempoIndex >= 0) children.splice(tempoIndex, 0, infoNode);
+    else children.push(infoNode);
+  }
+  if (!infoNode[':@']) infoNode[':@'] = {};
+  return infoNode[':@'];
+};
+
+/**
+ * Read a field from the track's underlying XML node, regardless of library format.
+ */
+export const readTrackField = (track: RekordboxTrack, field: string): string => {
+  if (!track._rawNode) return "";
+
+  if (track._source === 'traktor') {
+    const infoName = TRAKTOR_INFO_FIELDS[field];
+    const info = infoName ? getTraktorInfoAttributes(track._rawNode, false) : undefined;
+    const value = info?.[`@_${infoName}`] || "";
+    return field === 'Year' ? traktorDateToYear(value) : value;
+  }
+
+  return track._rawNode[':@']?.[`@_${field}`] || "";
+};
+
+/**
+ * Read every attribute of the track's underlying XML node, keyed by logical field name.
+ * Traktor INFO attributes without a Rekordbox equivalent are keyed as "INFO.<NAME>".
+ */
+export const readAllTrackFields = (track: RekordboxTrack): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  if (!track._rawNode) return fields;
+
+  const stripPrefix = (attributes: Record<string, string> | undefined, keyFor: (name: string) => string) => {
+    Object.entries(attributes || {}).forEach(([key, value]) => {
+      if (key.startsWith('@_')) fields[keyFor(key.slice(2))] = value;
+    });
+  };
+
+  if (track._source === 'traktor') {
+    stripPrefix(track._rawNode[':@'], name => name);
+    const logicalByInfo = Object.fromEntries(Object.entries(TRAKTOR_INFO_FIELDS).map(([logical, info]) => [info, logical]));
+    stripPrefix(getTraktorInfoAttributes(track._rawNode, false), name => logicalByInfo[name] || `INFO.${name}`);
+    if (fields.Year !== undefined) fields.Year = traktorDateToYear(fields.Year);
+    return fields;
+  }
+
+  stripPrefix(track._rawNode[':@'], name => name);
+  return fields;
+};
+
+/**
+ * Whether the track's underlying XML node has the field at all, as opposed to having it empty.
+ */
+export const hasTrackField = (track: RekordboxTrack, field: string): boolean => {
+  if (!track._rawNode) return false;
+
+  if (track._source === 'traktor') {
+    const infoName = TRAKTOR_INFO_FIELDS[field];
+    const info = infoName ? getTraktorInfoAttributes(track._rawNode, false) : undefined;
+    return info?.[`@_${infoName}`] !== undefined;
+  }
+
+  return track._rawNode[':@']?.[`@_${field}`] !== undefined;
+};
+
+/**
+ * Write a field to the track's underlying XML node in-place, regardless of library format.
+ */
+export const writeTrackField = (track: RekordboxTrack, field: string, value: string) => {
+  if (!track._rawNode) return;
+
+  if (track._source === 'traktor') {
+    const infoName = TRAKTOR_INFO_FIELDS[field];
+    if (!infoName) return;
+    const info = getTraktorInfoAttributes(track._rawNode, true);
+    if (!info) return;
+    info[`@_${infoName}`] = toTraktorValue(field, value, info[`@_${infoName}`]);
+    return;
+  }
+
+  if (!track._rawNode[':@']) return;
+  track._rawNode[':@'][`@_${field}`] = value;
+};
+
+/**
+ * Remove a field from the track's underlying XML node, so it is left out of the file entirely.
+ */
+export const removeTrackField = (track: RekordboxTrack, field: string) => {
+  if (!track._rawNode) return;
+
+  if (track._source === 'traktor') {
+    const infoName = TRAKTOR_INFO_FIELDS[field];
+    const children = track._rawNode.ENTRY;
+    const infoIndex = Array.isArray(children) ? children.findIndex((n: any) => n.INFO) : -1;
+    if (!infoName || infoIndex < 0) return;
+    const info = children[infoIndex][':@'] || {};
+    delete info[`@_${infoName}`];
+    // An INFO left without attributes was only created by a write
+    if (Object.keys(info).length === 0) children.splice(infoIndex, 1);
+    return;
+  }
+
+  delete track._rawNode[':@']?.[`@_${field}`];
+};
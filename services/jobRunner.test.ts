@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { runJob, createJobController, RequestError, isRetryableStatus } from './jobRunner';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('isRetryableStatus', () => {
+  it('retries rate limits and server errors only', () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+    expect(isRetryableStatus(undefined)).toBe(false);
+  });
+});
+
+describe('runJob', () => {
+  it('returns outcomes in task order', async () => {
+    const tasks = [30, 10, 20].map(ms => () => new Promise<number>(resolve => setTimeout(() => resolve(ms), ms)));
+    const outcomes = await runJob(tasks, { concurrency: 3 });
+    expect(outcomes).toEqual([30, 10, 20].map(value => ({ status: 'done', value, attempts: 1 })));
+  });
+
+  it('never runs more tasks at once than the concurrency', async () => {
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    };
+    await runJob(Array.from({ length: 10 }, () => task), { concurrency: 3 });
+    expect(peak).toBe(3);
+  });
+
+  it('retries rate limits with exponential backoff', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1); // Full delay, no jitter
+    const delays: number[] = [];
+    let calls = 0;
+    const task = async () => {
+      calls++;
+      if (calls < 4) throw new RequestError("Too many requests", 429);
+      return 'ok';
+    };
+
+    const job = runJob([task], { concurrency: 1, baseDelay: 1000, maxDelay: 3000, onRetry: (_i, _attempt, delay) => delays.push(delay) });
+    await vi.runAllTimersAsync();
+    expect(await job).toEqual([{ status: 'done', value: 'ok', attempts: 4 }]);
+    expect(delays).toEqual([1000, 2000, 3000]);
+    vi.mocked(Math.random).mockRestore();
+  });
+
+  it('fails after the last retry', async () => {
+    vi.useFakeTimers();
+    const task = async () => { throw new RequestError("Unavailable", 503); };
+    const job = runJob([task], { concurrency: 1, maxRetries: 2, baseDelay: 10 });
+    await vi.runAllTimersAsync();
+    expect(await job).toEqual([{ status: 'failed', error: 'Unavailable', attempts: 3 }]);
+  });
+
+  it('does not retry other errors', async () => {
+    const onRetry = vi.fn();
+    const outcomes = await runJob([async () => { throw new RequestError("Bad request", 400); }], { concurrency: 1, onRetry });
+    expect(outcomes).toEqual([{ status: 'failed', error: 'Bad request', attempts: 1 }]);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('cancels the rest of the job, aborting tasks in flight', async () => {
+    const controller = createJobController();
+    let aborted = false;
+    const slow = (signal: AbortSignal) => new Promise<string>((_resolve, reject) => {
+      signal.addEventListener('abort', () => {
+        aborted = true;
+        reject(new Error("aborted"));
+      });
+    });
+    const job = runJob([slow, async () => 'never'], { concurrency: 1 }, controller);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.cancel();
+    expect(await job).toEqual([{ status: 'cancelled', attempts: 1 }, { status: 'cancelled', attempts: 0 }]);
+    expect(aborted).toBe(true);
+  });
+
+  it('starts no new tasks while paused', async () => {
+    const controller = createJobController();
+    const started: number[] = [];
+    const tasks = [0, 1].map(i => async () => {
+      started.push(i);
+      if (i === 0) controller.pause();
+    });
+    const job = runJob(tasks, { concurrency: 1 }, controller);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(started).toEqual([0]);
+    controller.resume();
+    await job;
+    expect(started).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,140 @@
+// Runs a job's tasks with limited concurrency. Rate limits (429) and server errors (5xx) are retried
+// with exponential backoff; other errors fail the task. A job can be paused between tasks and
+// cancelled at any point, which aborts requests still in flight.
+
+export type JobTask<T> = (signal: AbortSignal) => Promise<T>;
+
+export type TaskOutcome<T> =
+  | { status: 'done'; value: T; attempts: number }
+  | { status: 'failed'; error: string; attempts: number }
+  | { status: 'cancelled'; attempts: number };
+
+export type JobState = 'running' | 'paused' | 'cancelled';
+
+export interface JobController {
+  readonly signal: AbortSignal;
+  readonly state: JobState;
+  pause: () => void; // Tasks already started run to completion; no new ones start until resume
+  resume: () => void;
+  cancel: () => void;
+  whenRunning: () => Promise<void>; // Resolves immediately unless paused
+}
+
+export interface JobOptions {
+  concurrency: number;
+  delayBetweenTasks?: number; // ms a worker waits before picking up its next task
+  maxRetries?: number;
+  baseDelay?: number; // ms before the first retry, doubled on each attempt
+  maxDelay?: number;
+  onRetry?: (index: number, attempt: number, delay: number, error: any) => void;
+}
+
+/**
+ * An error carrying the HTTP status of a failed request, so the runner can tell rate limits
+ * and outages (worth retrying) from bad requests (not).
+ */
+export class RequestError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+  }
+}
+
+export const isRetryableStatus = (status?: number): boolean =>
+  status === 429 || (status !== undefined && status >= 500 && status < 600);
+
+export const createJobController = (): JobController => {
+  const abort = new AbortController();
+  let state: JobState = 'running';
+  let waiting: (() => void)[] = [];
+
+  const release = () => {
+    waiting.forEach(resolve => resolve());
+    waiting = [];
+  };
+
+  return {
+    signal: abort.signal,
+    get state() { return state; },
+    pause: () => {
+      if (state === 'running') state = 'paused';
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      state = 'running';
+      release();
+    },
+    cancel: () => {
+      if (state === 'cancelled') return;
+      state = 'cancelled';
+      abort.abort();
+      release();
+    },
+    whenRunning: () => state === 'paused' ? new Promise<void>(resolve => waiting.push(resolve)) : Promise.resolve()
+  };
+};
+
+// Resolves early when the job is cancelled
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  if (signal.aborted) return resolve();
+  const done = () => {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal.addEventListener('abort', done);
+});
+
+// Half of the delay is fixed and half random, so parallel workers hitting the same limit spread out
+const backoffDelay = (attempt: number, baseDelay: number, maxDelay: number) => {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * delay / 2;
+};
+
+/**
+ * Run tasks through the controller. Never rejects: each task's outcome is returned in task order.
+ */
+export const runJob = async <T>(
+  tasks: JobTask<T>[],
+  options: JobOptions,
+  controller: JobController = createJobController()
+): Promise<TaskOutcome<T>[]> => {
+  const { concurrency, delayBetweenTasks = 0, maxRetries = 3, baseDelay = 2000, maxDelay = 60000, onRetry } = options;
+  const { signal } = controller;
+  const outcomes: TaskOutcome<T>[] = new Array(tasks.length);
+  let next = 0;
+
+  const runTask = async (index: number): Promise<TaskOutcome<T>> => {
+    for (let attempt = 1; ; attempt++) {
+      await controller.whenRunning();
+      if (signal.aborted) return { status: 'cancelled', attempts: attempt - 1 };
+
+      try {
+        return { status: 'done', value: await tasks[index](signal), attempts: attempt };
+      } catch (e: any) {
+        if (signal.aborted) return { status: 'cancelled', attempts: attempt };
+        if (attempt > maxRetries || !isRetryableStatus(e?.status)) {
+          return { status: 'failed', error: e?.message || String(e), attempts: attempt };
+        }
+        const delay = backoffDelay(attempt, baseDelay, maxDelay);
+        onRetry?.(index, attempt, delay, e);
+        await wait(delay, signal);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      outcomes[index] = await runTask(index);
+      if (delayBetweenTasks > 0 && next < tasks.length) await wait(delayBetweenTasks, signal);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(tasks.length, concurrency) }, worker));
+  return outcomes;
+};
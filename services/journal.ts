@@ -0,0 +1,86 @@
+import { RekordboxTrack, FieldWrite, JournalEntry, JournalJob, JournalAnalysis, AIAnalysis } from '../types';
+import { readTrackField, writeTrackField, removeTrackField } from './fields';
+
+let entrySequence = 0;
+
+export const createJournalJob = (label: string): JournalJob => {
+  const startedAt = Date.now();
+  return { id: `job_${startedAt}_${Math.random().toString(36).slice(2, 8)}`, label, startedAt, entries: [] };
+};
+
+export const createJournalEntries = (jobId: string, track: RekordboxTrack, writes: FieldWrite[]): JournalEntry[] => {
+  const timestamp = Date.now();
+  return writes.map(w => ({
+    id: `${jobId}:${++entrySequence}`,
+    jobId,
+    trackId: track.TrackID,
+    trackLabel: `${track.Artist} - ${track.Name}`,
+    field: w.field,
+    before: w.before,
+    after: w.after,
+    ...(w.added ? { added: true } : {}),
+    timestamp,
+    undone: false
+  }));
+};
+
+// Add analyses a job changed. A track keeps the analysis it had before the job's first change to it.
+export const withJobAnalyses = (job: JournalJob, changes: Record<string, JournalAnalysis>): JournalJob => {
+  const analyses = { ...job.analyses };
+  Object.entries(changes).forEach(([trackId, change]) => {
+    analyses[trackId] = { before: analyses[trackId] ? analyses[trackId].before : change.before, after: change.after };
+  });
+  return { ...job, analyses };
+};
+
+/**
+ * The analysis each track should have once entries are undone or redone, by TrackID.
+ * Tracks whose job didn't record analyses (sessions saved before it did) are left out.
+ */
+export const journalAnalysesFor = (journal: JournalJob[], entries: JournalEntry[], direction: 'undo' | 'redo'): Map<string, AIAnalysis | undefined> => {
+  const jobById = new Map(journal.map(job => [job.id, job]));
+  const analyses = new Map<string, AIAnalysis | undefined>();
+  // Undo ends at the oldest job's before, redo at the newest job's after
+  const ordered = direction === 'undo' ? [...entries].reverse() : entries;
+  ordered.forEach(entry => {
+    const recorded = jobById.get(entry.jobId)?.analyses?.[entry.trackId];
+    if (recorded) analyses.set(entry.trackId, direction === 'undo' ? recorded.before : recorded.after);
+  });
+  return analyses;
+};
+
+export interface JournalApplyResult {
+  applied: JournalEntry[];
+  // Entries whose field was changed again afterwards; left alone so later edits are not lost
+  conflicts: JournalEntry[];
+}
+
+/**
+ * Undo or redo journal entries against the XML nodes.
+ * Undo walks newest-first so several writes to the same field unwind in order.
+ */
+export const applyJournalEntries = (tracks: RekordboxTrack[], entries: JournalEntry[], direction: 'undo' | 'redo'): JournalApplyResult => {
+  const trackById = new Map(tracks.map(t => [t.TrackID, t]));
+  const pending = entries.filter(e => direction === 'undo' ? !e.undone : e.undone);
+  const ordered = direction === 'undo' ? [...pending].reverse() : pending;
+
+  const result: JournalApplyResult = { applied: [], conflicts: [] };
+  ordered.forEach(entry => {
+    const track = trackById.get(entry.trackId);
+    const from = direction === 'undo' ? entry.after : entry.before;
+    const to = direction === 'undo' ? entry.before : entry.after;
+    if (!track || readTrackField(track, entry.field) !== from) {
+      result.conflicts.push(entry);
+      return;
+    }
+    // An attribute the write created is taken out again, not left behind empty
+    if (direction === 'undo' && entry.added) removeTrackField(track, entry.field);
+    else writeTrackField(track, entry.field, to);
+    result.applied.push(entry);
+  });
+  return result;
+};
+
+// The newest job that still has writes applied
+export const findUndoableJob = (journal: JournalJob[]): JournalJob | undefined =>
+  [...journal].reverse().find(job => job.entries.some(e => !e.undone));
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonItems } from './jsonRepair';
+
+describe('parseJsonItems', () => {
+  it('reads a valid array as is', () => {
+    expect(parseJsonItems('[{"id":"1"},{"id":"2"}]')).toEqual({ items: [{ id: '1' }, { id: '2' }], repaired: false, dropped: 0 });
+  });
+
+  it('unwraps markdown fences and surrounding talk', () => {
+    const text = 'Here you go:\n```json\n[{"id":"1"}]\n```\nLet me know!';
+    expect(parseJsonItems(text).items).toEqual([{ id: '1' }]);
+  });
+
+  it('tolerates trailing commas', () => {
+    expect(parseJsonItems('[{"id":"1","tags":["a",],},]')).toEqual({ items: [{ id: '1', tags: ['a'] }], repaired: false, dropped: 0 });
+  });
+
+  it('leaves commas before brackets inside strings alone', () => {
+    const text = '[{"id":"1","title":"Live, ]mix","reason":"a, }",},]';
+    expect(parseJsonItems(text).items).toEqual([{ id: '1', title: 'Live, ]mix', reason: 'a, }' }]);
+  });
+
+  it('finds the item list under a wrapper object', () => {
+    expect(parseJsonItems('{"results":[{"id":"1"}]}').items).toEqual([{ id: '1' }]);
+    expect(parseJsonItems('{"id":"1","vibes":[]}').items).toEqual([{ id: '1', vibes: [] }]);
+  });
+
+  it('salvages the complete items of a truncated answer', () => {
+    const text = '[{"id":"1","vibe":"Dark"},{"id":"2","vibe":"Raw"},{"id":"3","vi';
+    expect(parseJsonItems(text)).toEqual({ items: [{ id: '1', vibe: 'Dark' }, { id: '2', vibe: 'Raw' }], repaired: true, dropped: 0 });
+  });
+
+  it('salvages a truncated answer inside an unclosed fence', () => {
+    expect(parseJsonItems('```json\n[{"id":"1"},{"id":"2"').items).toEqual([{ id: '1' }]);
+  });
+
+  it('is not thrown off by brackets and quotes inside strings', () => {
+    const text = '[{"id":"1","comment":"a } b ] \\" {"},{"id":"2"';
+    expect(parseJsonItems(text).items).toEqual([{ id: '1', comment: 'a } b ] " {' }]);
+  });
+
+  it('counts complete items that still do not parse', () => {
+    const text = '[{"id":"1"},{"id": oops},{"id":"3"},{"id":';
+    expect(parseJsonItems(text)).toEqual({ items: [{ id: '1' }, { id: '3' }], repaired: true, dropped: 1 });
+  });
+
+  it('returns nothing for an answer without JSON', () => {
+    expect(parseJsonItems('Sorry, I cannot help with that.')).toEqual({ items: [], repaired: false, dropped: 0 });
+    expect(parseJsonItems('')).toEqual({ items: [], repaired: false, dropped: 0 });
+  });
+});
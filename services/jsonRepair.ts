@@ -0,0 +1,117 @@
+// Models sometimes wrap their JSON in markdown fences, talk around it, or stop mid-array when they
+// run out of output tokens. Rather than lose the whole answer to one JSON.parse, every complete
+// item is recovered on its own.
+
+export interface ParsedItems {
+  items: any[];
+  repaired: boolean; // The answer wasn't valid JSON; items were salvaged one by one
+  dropped: number; // Complete items that still couldn't be parsed
+}
+
+const FENCED = /```(?:json)?\s*([\s\S]*?)(?:```|$)/i;
+
+/**
+ * Visit every character outside string literals, from `from` on, until `visit` returns false.
+ * Escaped quotes are honoured, so brackets and commas inside values are never seen.
+ */
+const scanOutsideStrings = (text: string, from: number, visit: (ch: string, index: number) => boolean | void) => {
+  let inString = false;
+  let escaped = false;
+
+  for (let i = from; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    if (visit(ch, i) === false) return;
+  }
+};
+
+// Commas right before a closing bracket; the ones inside string values are left alone
+const withoutTrailingCommas = (json: string) => {
+  const trailing = new Set<number>();
+  let lastComma = -1;
+  scanOutsideStrings(json, 0, (ch, i) => {
+    if (ch === ',') lastComma = i;
+    else if ((ch === '}' || ch === ']') && lastComma >= 0) trailing.add(lastComma);
+    if (ch !== ',' && !/\s/.test(ch)) lastComma = -1;
+  });
+  return json.split('').filter((_, i) => !trailing.has(i)).join('');
+};
+
+const tryParse = (json: string): any => {
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    try {
+      return JSON.parse(withoutTrailingCommas(json));
+    } catch (e) {
+      return undefined;
+    }
+  }
+};
+
+// The item list of a parsed answer: the array itself, an array under a wrapper key, or a lone object
+const toItems = (parsed: any): any[] => {
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && typeof parsed === 'object') {
+    const list = Object.values(parsed).find(Array.isArray);
+    return list && !('id' in parsed) ? list : [parsed];
+  }
+  return [];
+};
+
+/**
+ * Every complete object directly inside the first array (or at the top level when there is none).
+ * Strings are skipped over, so brackets inside values don't throw the scan off; an object cut off
+ * at the end is left out.
+ */
+const scanObjects = (text: string): string[] => {
+  const arrayStart = text.indexOf('[');
+  const from = arrayStart >= 0 ? arrayStart : 0;
+  const itemDepth = arrayStart >= 0 ? 1 : 0;
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+
+  scanOutsideStrings(text, from, (ch, i) => {
+    if (ch === '{' || ch === '[') {
+      if (ch === '{' && depth === itemDepth) start = i;
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      depth--;
+      if (ch === '}' && depth === itemDepth && start >= 0) {
+        objects.push(text.slice(start, i + 1));
+        start = -1;
+      }
+      if (depth < itemDepth) return false; // End of the item array
+    }
+  });
+  return objects;
+};
+
+/**
+ * The items of a model's JSON answer, salvaging what it can when the answer is malformed or truncated.
+ */
+export const parseJsonItems = (text: string): ParsedItems => {
+  const body = (text.match(FENCED)?.[1] ?? text).trim();
+  const start = body.search(/[[{]/);
+  if (start < 0) return { items: [], repaired: false, dropped: 0 };
+
+  const end = Math.max(body.lastIndexOf(']'), body.lastIndexOf('}'));
+  const whole = end > start ? tryParse(body.slice(start, end + 1)) : undefined;
+  if (whole !== undefined) return { items: toItems(whole), repaired: false, dropped: 0 };
+
+  const items: any[] = [];
+  let dropped = 0;
+  scanObjects(body.slice(start)).forEach(json => {
+    const item = tryParse(json);
+    if (item && typeof item === 'object') items.push(item);
+    else dropped++;
+  });
+  return { items, repaired: true, dropped };
+};
@@ -0,0 +1,62 @@
+import { LibraryBackup } from '../types';
+
+// Library files are only written in place on desktop; the browser build downloads a copy instead.
+
+/**
+ * The on-disk path of an imported file, or undefined in the browser.
+ */
+export const getImportPath = (file: File): string | undefined => {
+  if (!window.electron) return undefined;
+  return window.electron.getFilePath(file) || undefined;
+};
+
+/**
+ * Ask where to save with the native save dialog. Resolves to null if the user cancels.
+ */
+export const chooseSavePath = async (defaultPath: string): Promise<string | null> => {
+  if (!window.electron) throw new Error("Saving to disk needs the desktop app");
+  return window.electron.showSaveDialog(defaultPath);
+};
+
+/**
+ * Write a library file, first keeping up to `backupCount` timestamped copies of the file it replaces.
+ */
+export const saveLibraryFile = async (filePath: string, content: string, backupCount: number): Promise<void> => {
+  if (!window.electron) throw new Error("Saving to disk needs the desktop app");
+  const result = await window.electron.saveFile({ filePath, content, backupCount });
+  if (!result.success) throw new Error(result.error);
+};
+
+/**
+ * Backups of every library file, newest first.
+ */
+export const listBackups = async (): Promise<LibraryBackup[]> => {
+  if (!window.electron) return [];
+  return window.electron.listBackups();
+};
+
+/**
+ * Put a backup back in place of its file. The current file is backed up first. Returns the restored path.
+ */
+export const restoreBackup = async (id: string, backupCount: number): Promise<string> => {
+  if (!window.electron) throw new Error("Backups need the desktop app");
+  const result = await window.electron.restoreBackup({ id, backupCount });
+  if (!result.success || !result.filePath) throw new Error(result.error || "Restore failed");
+  return result.filePath;
+};
+
+/**
+ * Watch the open library file for changes made outside CrateBatch (e.g. a re-export from Rekordbox).
+ * Pass null to stop watching.
+ */
+export const watchLibraryFile = async (filePath: string | null): Promise<void> => {
+  if (!window.electron) return;
+  const result = await window.electron.watchFile(filePath);
+  if (!result.success) throw new Error(result.error);
+};
+
+// Returns an unsubscribe function
+export const onLibraryFileChanged = (callback: (filePath: string) => void): (() => void) => {
+  if (!window.electron) return () => {};
+  return window.electron.onFileChanged(callback);
+};
@@ -0,0 +1,44 @@
+import { ParsedCollection, ParseProgress, LibraryFormat } from '../types';
+import type { ParserWorkerRequest, ParserWorkerResponse } from './parser.worker';
+import { buildRekordboxCollection } from './parser';
+import { buildTraktorCollection } from './traktor';
+import { getActiveTaxonomy } from './taxonomy';
+
+/**
+ * Parse a Rekordbox XML or Traktor NML library off the UI thread.
+ * Accepts a File (streamed from disk) or the already loaded file contents.
+ */
+export const loadLibrary = (
+  source: File | string,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ParsedCollection> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (e: MessageEvent<ParserWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.error));
+    };
+
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "Parser worker crashed"));
+    };
+
+    const request: ParserWorkerRequest = { source, taxonomy: getActiveTaxonomy() };
+    worker.postMessage(request);
+  });
+};
+
+/**
+ * Rebuild the collection from a previously parsed tree (e.g. a saved session).
+ */
+export const restoreLibrary = (fullData: any, format: LibraryFormat): ParsedCollection => {
+  return format === 'traktor' ? buildTraktorCollection(fullData) : buildRekordboxCollection(fullData);
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { JournalJob, ReviewItem } from '../types';
+import { mergeReloadedLibrary, remapJournal, remapPlaylists, remapReviewQueue } from './libraryMerge';
+import { parseLibraryChunks } from './libraryParse';
+import { snapshotTrackFields } from './exportDiff';
+import { readTrackField, writeTrackField } from './fields';
+
+const rekordbox = (tracks: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<DJ_PLAYLISTS Version="1.0.0"><PRODUCT Name="rekordbox"/><COLLECTION Entries="0">${tracks}</COLLECTION>
+<PLAYLISTS><NODE Type="0" Name="ROOT" Count="0"/></PLAYLISTS></DJ_PLAYLISTS>`;
+
+const track = (id: string, file: string, attributes: string = '') =>
+  `<TRACK TrackID="${id}" Name="${file}" Artist="Artist" Comments="" Genre="" ${attributes} Location="file://localhost/music/${file}.mp3"/>`;
+
+const load = (xml: string) => parseLibraryChunks([xml]);
+
+describe('mergeReloadedLibrary', () => {
+  it('matches tracks whose TrackIDs changed by their location', async () => {
+    const current = await load(rekordbox(track('1', 'a') + track('2', 'b') + track('3', 'c')));
+    const snapshot = snapshotTrackFields(current.tracks);
+    writeTrackField(current.tracks[0], 'Comments', '[CB: #Groovy]');
+    const analysis = { vibe: 'Groovy', subGenre: 'Unknown', situation: 'Unknown' };
+    current.tracks[0].Analysis = analysis;
+
+    // Re-exported from Rekordbox: new IDs, c removed, d added
+    const reloaded = await load(rekordbox(track('20', 'b') + track('10', 'a') + track('40', 'd')));
+    const merge = mergeReloadedLibrary(current.tracks, snapshot, reloaded);
+
+    expect(Array.from(merge.idMap)).toEqual([['2', '20'], ['1', '10']]);
+    expect(merge.added.map(t => t.TrackID)).toEqual(['40']);
+    expect(merge.removedCount).toBe(1);
+    expect(merge.reappliedCount).toBe(1);
+
+    const a = merge.tracks.find(t => t.TrackID === '10')!;
+    expect(a.Comments).toBe('[CB: #Groovy]');
+    expect(readTrackField(a, 'Comments')).toBe('[CB: #Groovy]');
+    expect(a.Analysis).toBe(analysis);
+    // The export is now diffed against the reloaded file
+    expect(merge.snapshot.get('10')?.Comments).toBe('');
+  });
+
+  it('keeps edits the reloaded file made to a field CrateBatch also changed', async () => {
+    const current = await load(rekordbox(track('1', 'a')));
+    const snapshot = snapshotTrackFields(current.tracks);
+    writeTrackField(current.tracks[0], 'Genre', 'House');
+
+    const reloaded = await load(rekordbox(track('1', 'a', 'Year="1999"').replace('Genre=""', 'Genre="Techno"')));
+    const merge = mergeReloadedLibrary(current.tracks, snapshot, reloaded);
+
+    expect(readTrackField(merge.tracks[0], 'Genre')).toBe('Techno');
+    expect(readTrackField(merge.tracks[0], 'Year')).toBe('1999');
+    expect(merge.reappliedCount).toBe(0);
+  });
+
+  it('never matches two reloaded tracks to the same track', async () => {
+    const current = await load(rekordbox(track('1', 'a')));
+    const reloaded = await load(rekordbox(track('1', 'a') + track('2', 'a')));
+    const merge = mergeReloadedLibrary(current.tracks, snapshotTrackFields(current.tracks), reloaded);
+    expect(Array.from(merge.idMap)).toEqual([['1', '1']]);
+    expect(merge.added.map(t => t.TrackID)).toEqual(['2']);
+  });
+});
+
+describe('remapping session state', () => {
+  const idMap = new Map([['1', '10'], ['2', '20']]);
+
+  it('moves journal entries to the new IDs and drops jobs left empty', () => {
+    const entry = (trackId: string) => ({ trackId } as JournalJob['entries'][number]);
+    const journal = [
+      { id: 'a', label: 'A', entries: [entry('1'), entry('3')] },
+      { id: 'b', label: 'B', entries: [entry('3')] }
+    ] as JournalJob[];
+    expect(remapJournal(journal, idMap).map(job => [job.id, job.entries.map(e => e.trackId)])).toEqual([['a', ['10']]]);
+  });
+
+  it('moves the analyses a job kept to the new IDs', () => {
+    const analysis = { vibe: 'Dark', subGenre: 'Techno', situation: 'Peak Time' };
+    const journal = [{
+      id: 'a', label: 'A', startedAt: 0,
+      entries: [{ trackId: '1' } as JournalJob['entries'][number]],
+      analyses: { '1': { after: analysis }, '3': { after: analysis } }
+    }] as JournalJob[];
+    expect(remapJournal(journal, idMap)[0].analyses).toEqual({ '10': { after: analysis } });
+  });
+
+  it('moves saved playlists and review items to the new IDs', () => {
+    expect(remapPlaylists([{ id: 'p', name: 'P', trackIds: ['2', '3', '1'] } as any], idMap)[0].trackIds).toEqual(['20', '10']);
+    const items = [{ id: '1:vibe', trackId: '1', field: 'vibe' }, { id: '3:year', trackId: '3', field: 'year' }] as ReviewItem[];
+    expect(remapReviewQueue(items, idMap).map(item => item.id)).toEqual(['10:vibe']);
+  });
+});
@@ -0,0 +1,102 @@
+import { RekordboxTrack, ParsedCollection, JournalJob, CustomPlaylist, ReviewItem } from '../types';
+import { readAllTrackFields, readTrackField, writeTrackField } from './fields';
+import { FieldSnapshot } from './exportDiff';
+
+export interface LibraryMerge {
+  tracks: RekordboxTrack[];
+  snapshot: FieldSnapshot;
+  idMap: Map<string, string>; // Old TrackID -> TrackID in the reloaded file, for tracks in both
+  added: RekordboxTrack[];
+  removedCount: number;
+  reappliedCount: number; // Tracks whose unsaved CrateBatch writes were carried over
+}
+
+// Rekordbox TrackIDs and Traktor primary keys survive re-exports; the path catches tracks whose ID changed anyway
+const findPrevious = (
+  track: RekordboxTrack,
+  byId: Map<string, RekordboxTrack>,
+  byLocation: Map<string, RekordboxTrack>
+): RekordboxTrack | undefined => {
+  const byPath = track.Location ? byLocation.get(track.Location) : undefined;
+  return byId.get(track.TrackID) || byPath;
+};
+
+/**
+ * Merge a re-parsed copy of the library file into the current session. The reloaded file is the new
+ * base, so edits made in Rekordbox/Traktor are kept. Tracks found in both keep their analysis, and
+ * fields CrateBatch changed this session are written again unless the reloaded file changed them too.
+ */
+export const mergeReloadedLibrary = (
+  current: RekordboxTrack[],
+  snapshot: FieldSnapshot,
+  reloaded: ParsedCollection
+): LibraryMerge => {
+  const byId = new Map(current.map(t => [t.TrackID, t]));
+  const byLocation = new Map(current.filter(t => t.Location).map(t => [t.Location, t]));
+  const idMap = new Map<string, string>();
+  const nextSnapshot: FieldSnapshot = new Map();
+  const added: RekordboxTrack[] = [];
+  let reappliedCount = 0;
+
+  const tracks = reloaded.tracks.map(track => {
+    // The reloaded values are what an export is now diffed against
+    nextSnapshot.set(track.TrackID, readAllTrackFields(track));
+
+    const previous = findPrevious(track, byId, byLocation);
+    if (!previous || idMap.has(previous.TrackID)) {
+      added.push(track);
+      return track;
+    }
+    idMap.set(previous.TrackID, track.TrackID);
+
+    const imported = snapshot.get(previous.TrackID) || {};
+    const columns: Record<string, string> = {};
+    Object.entries(readAllTrackFields(previous)).forEach(([field, value]) => {
+      const original = imported[field] ?? "";
+      if (value === original || readTrackField(track, field) !== original) return;
+      writeTrackField(track, field, value);
+      columns[field] = readTrackField(track, field);
+    });
+    if (Object.keys(columns).length > 0) reappliedCount++;
+
+    return { ...track, ...columns, Analysis: previous.Analysis || track.Analysis };
+  });
+
+  return { tracks, snapshot: nextSnapshot, idMap, added, removedCount: current.length - idMap.size, reappliedCount };
+};
+
+/**
+ * Point journal entries at the reloaded tracks. Entries for removed tracks are dropped, as are jobs left empty.
+ */
+export const remapJournal = (journal: JournalJob[], idMap: Map<string, string>): JournalJob[] => {
+  return journal
+    .map(job => ({
+      ...job,
+      entries: job.entries
+        .filter(e => idMap.has(e.trackId))
+        .map(e => ({ ...e, trackId: idMap.get(e.trackId)! })),
+      ...(job.analyses ? {
+        analyses: Object.fromEntries(Object.entries(job.analyses)
+          .filter(([trackId]) => idMap.has(trackId))
+          .map(([trackId, analysis]) => [idMap.get(trackId)!, analysis]))
+      } : {})
+    }))
+    .filter(job => job.entries.length > 0);
+};
+
+export const remapPlaylists = (playlists: CustomPlaylist[], idMap: Map<string, string>): CustomPlaylist[] => {
+  return playlists.map(p => ({
+    ...p,
+    trackIds: p.trackIds.filter(id => idMap.has(id)).map(id => idMap.get(id)!)
+  }));
+};
+
+// Items for removed tracks are dropped
+export const remapReviewQueue = (queue: ReviewItem[], idMap: Map<string, string>): ReviewItem[] => {
+  return queue
+    .filter(item => idMap.has(item.trackId))
+    .map(item => {
+      const trackId = idMap.get(item.trackId)!;
+      return { ...item, trackId, id: `${trackId}:${item.field}` };
+    });
+};
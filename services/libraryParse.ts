@@ -0,0 +1,21 @@
+import { ParsedCollection } from '../types';
+import { createXmlTreeBuilder } from './xmlStream';
+import { buildRekordboxCollection } from './parser';
+import { buildTraktorCollection } from './traktor';
+
+// Library files are read with the streaming parser everywhere: in the app's parser worker and in the CLI.
+
+/**
+ * Build the collection from a parsed tree. The format is detected from the root element rather than the file name.
+ */
+export const buildCollection = (parsedData: any[]): ParsedCollection =>
+  parsedData.some((node: any) => node.NML) ? buildTraktorCollection(parsedData) : buildRekordboxCollection(parsedData);
+
+/**
+ * Parse a library file fed in chunks of any size (e.g. a Node read stream with an encoding set).
+ */
+export const parseLibraryChunks = async (chunks: AsyncIterable<string> | Iterable<string>): Promise<ParsedCollection> => {
+  const builder = createXmlTreeBuilder();
+  for await (const chunk of chunks) builder.write(chunk);
+  return buildCollection(builder.end());
+};
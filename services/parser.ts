@@ -1,6 +1,10 @@
-import { XMLParser, XMLBuilder } from 'fast-xml-parser';
-import { ParsedCollection, RekordboxTrack, AIAnalysis, CustomPlaylist } from '../types';
-import { VIBE_TAGS, MICRO_GENRE_TAGS, SITUATION_TAGS } from './taxonomy';
+import { XMLBuilder } from 'fast-xml-parser';
+import { ParsedCollection, RekordboxTrack, AIAnalysis, RankedTag, CustomPlaylist, PlaylistNode, AnalysisDimension, FieldMapping, FieldWrite } from '../types';
+import { getTags, toTagKey, resolveTag } from './taxonomy';
+import { readTrackField, writeTrackField, hasTrackField } from './fields';
+import { buildXmlDocument } from './xmlStream';
+import { DEFAULT_FIELD_MAPPING, formatMappedValue } from './fieldMapping';
+import { groupTracksByAnalysis, groupSubGenresByMainGenre, playlistPath, getRankedTags, TagDimension } from './utils';
 
 // Helper to decode XML entities manually if parser didn't
 const decodeEntities = (str: string): string => {
@@ -24,119 +28,205 @@ export const generateHashtags = (analysis: AIAnalysis): string => {
   return parts.join(' ');
 };
 
-// Helper to parse hashtags back into Analysis object
-const extractAnalysisFromComments = (comments: string): AIAnalysis | undefined => {
-  if (!comments) return undefined;
-  
+// CrateBatch-owned tags live in one delimited block inside the comment,
+// e.g. "Great opener [CB: #Groovy #TechHouse #PeakHour]". It is replaced in place on re-analysis.
+const TAG_BLOCK_REGEX = /\s*\[CB:([^\]]*)\]/g;
+// Allow letters, numbers, underscores, dashes, and ampersands
+const HASHTAG_REGEX = /#[a-zA-Z0-9_\-&]+/g;
+
+// Before the tag block existed, hashtags were appended bare to the end of the comment.
+// A trailing run made up only of taxonomy hashtags is treated as ours and removed.
+const stripLegacyHashtags = (comments: string): string => {
+  const match = comments.match(/(?:\s*#[a-zA-Z0-9_\-&]+)+\s*$/);
+  if (!match || match.index === undefined) return comments;
+
+  // Tags from older taxonomy versions count as ours too
+  const tags = match[0].match(HASHTAG_REGEX) || [];
+  const isOwned = tags.every(t => (['vibe', 'subGenre', 'situation'] as const).some(d => resolveTag(d, t.slice(1))));
+  return isOwned ? comments.slice(0, match.index) : comments;
+};
+
+/**
+ * Remove the CrateBatch tag block (and legacy appended hashtags), leaving only the user's own text.
+ */
+export const stripTagBlock = (comments: string): string => {
+  if (!comments) return "";
+  return stripLegacyHashtags(comments.replace(TAG_BLOCK_REGEX, '')).trim();
+};
+
+/**
+ * Replace the CrateBatch tag block with new hashtags, keeping the user's text untouched.
+ */
+export const writeTagBlock = (comments: string, hashtags: string): string => {
+  const userText = stripTagBlock(comments);
+  if (!hashtags) return userText;
+  const block = `[CB: ${hashtags}]`;
+  return userText ? `${userText} ${block}` : block;
+};
+
+/**
+ * Strip CrateBatch tags from a track's comment in the XML tree.
+ * Returns the write, or undefined if the track had no tags to remove.
+ */
+export const stripCrateBatchTags = (track: RekordboxTrack): FieldWrite | undefined => {
+  const current = readTrackField(track, 'Comments');
+  const cleaned = stripTagBlock(current);
+  if (cleaned === current) return undefined;
+  writeTrackField(track, 'Comments', cleaned);
+  return { field: 'Comments', before: current, after: cleaned };
+};
+
+/**
+ * Hashtags (without the #) from the tag block, or from the whole comment if it has no block.
+ */
+export const readCommentHashtags = (comments: string): string[] => {
+  if (!comments) return [];
   // 1. Decode entities (e.g. #R&amp;B -> #R&B)
   const decodedComments = decodeEntities(comments);
 
-  // 2. Find all hashtags (case insensitive match for extraction)
-  // Updated Regex: Allow letters, numbers, underscores, dashes, and ampersands
-  const hashtags = decodedComments.match(/#[a-zA-Z0-9_\-&]+/g);
-  if (!hashtags) return undefined;
+  // 2. The CrateBatch tag block takes priority over loose hashtags elsewhere in the comment
+  const blockMatch = decodedComments.match(/\[CB:([^\]]*)\]/);
+  const hashtags = (blockMatch ? blockMatch[1] : decodedComments).match(HASHTAG_REGEX) || [];
+  return hashtags.map(t => t.slice(1));
+};
+
+/**
+ * Swap hashtags for new tags, keyed by tag key. Inside a tag block duplicates are dropped,
+ * so two tags merged into one leave a single hashtag.
+ */
+export const rewriteCommentHashtags = (comments: string, replacements: Map<string, string>): string => {
+  const replace = (hashtag: string) => {
+    const tag = replacements.get(hashtag.slice(1).toLowerCase());
+    return tag ? `#${tag.replace(/\s+/g, '')}` : hashtag;
+  };
+
+  if (!/\[CB:[^\]]*\]/.test(comments)) return comments.replace(HASHTAG_REGEX, replace);
+  return comments.replace(/\[CB:([^\]]*)\]/, (_, inner: string) => {
+    const hashtags = (inner.match(HASHTAG_REGEX) || []).map(replace);
+    return `[CB: ${Array.from(new Set(hashtags)).join(' ')}]`;
+  });
+};
+
+// Helper to parse hashtags back into Analysis object
+export const extractAnalysisFromComments = (comments: string): AIAnalysis | undefined => {
+  const hashtags = readCommentHashtags(comments);
+  if (hashtags.length === 0) return undefined;
   
-  // Normalize found tags: remove #, lowercase, ensure no spaces
-  const foundTags = new Set(hashtags.map(t => t.slice(1).toLowerCase()));
-
-  // Helper to find a matching tag from a taxonomy list
-  const findInList = (list: string[]): string => {
-    for (const item of list) {
-      // Create the expected hashtag version of the taxonomy item
-      // e.g. "R&B" -> "r&b", "Drum & Bass" -> "drum&bass"
-      const normalizedItem = item.toLowerCase().replace(/\s+/g, '');
-      if (foundTags.has(normalizedItem)) {
-        return item;
-      }
-    }
-    return "";
+  // Normalize found tags: lowercase, ensure no spaces. Order matters: the block lists each
+  // dimension's primary tag before its secondary ones
+  const foundTags = hashtags.map(t => t.toLowerCase());
+
+  // The dimension's tags in the order they were written.
+  // Tags from older taxonomy versions are mapped through the migration rules
+  const findInDimension = (dimension: TagDimension): string[] => {
+    // e.g. "R&B" -> "r&b", "Drum & Bass" -> "drum&bass"
+    const current = new Map(getTags(dimension).map(item => [toTagKey(item), item]));
+    const tags = foundTags.map(key => current.get(key) || resolveTag(dimension, key)?.tag || "");
+    return Array.from(new Set(tags.filter(Boolean)));
   };
 
-  const vibe = findInList(VIBE_TAGS);
-  const subGenre = findInList(MICRO_GENRE_TAGS); // UPDATED
-  const situation = findInList(SITUATION_TAGS);
+  // Secondary tags were only written once they cleared the threshold, so they read back as certain
+  const ranked = (tags: string[]): RankedTag[] | undefined =>
+    tags.length > 1 ? tags.map(value => ({ value, confidence: 1 })) : undefined;
+
+  const vibes = findInDimension('vibe');
+  const subGenres = findInDimension('subGenre');
+  const situations = findInDimension('situation');
 
   // If we found at least one relevant tag, return an analysis object
-  if (vibe || subGenre || situation) {
-    return {
-      vibe: vibe || "Unknown",
-      subGenre: subGenre || "Unknown", // UPDATED
-      situation: situation || "Unknown"
+  if (vibes.length > 0 || subGenres.length > 0 || situations.length > 0) {
+    const analysis: AIAnalysis = {
+      vibe: vibes[0] || "Unknown",
+      subGenre: subGenres[0] || "Unknown",
+      situation: situations[0] || "Unknown"
     };
+    if (ranked(vibes)) analysis.vibes = ranked(vibes);
+    if (ranked(subGenres)) analysis.subGenres = ranked(subGenres);
+    if (ranked(situations)) analysis.situations = ranked(situations);
+    return analysis;
   }
 
   return undefined;
 };
 
-// Update the Master XML Node in-place
-export const updateTrackNode = (track: RekordboxTrack, analysis: AIAnalysis, mode: 'full' | 'missing_genre' | 'missing_year') => {
-  if (!track._rawNode || !track._rawNode[':@']) {
-    return;
+// Which analysis dimensions each enrichment mode produces
+const MODE_DIMENSIONS: Record<'full' | 'missing_genre' | 'missing_year', AnalysisDimension[]> = {
+  full: ['vibe', 'subGenre', 'situation', 'year'],
+  missing_genre: ['mainGenre'],
+  missing_year: ['year']
+};
+
+const isEmptyFieldValue = (value: string) => !value || value === "0";
+
+const isTagDimension = (dimension: AnalysisDimension): dimension is TagDimension =>
+  dimension === 'vibe' || dimension === 'subGenre' || dimension === 'situation';
+
+/**
+ * Update the Master XML Node in-place, writing each analysis dimension where the field mapping says.
+ * Hashtag fields also get the secondary tags that clear the confidence threshold.
+ * Returns the attributes that actually changed.
+ */
+export const updateTrackNode = (
+  track: RekordboxTrack,
+  analysis: AIAnalysis,
+  mode: 'full' | 'missing_genre' | 'missing_year',
+  mapping: FieldMapping = DEFAULT_FIELD_MAPPING,
+  threshold: number = 0
+): FieldWrite[] => {
+  if (!track._rawNode) {
+    return [];
   }
 
-  const attributes = track._rawNode[':@'];
-
-  // MODE: Only fix missing Genre
-  if (mode === 'missing_genre') {
-    // NOTE: This mode specifically asks to fix the MAIN Genre field in Rekordbox
-    // We use the AI's 'genre' (which we treat as Main Genre in this mode)
-    // We do NOT use subGenre here unless mainGenre is missing
-    const genreToUse = analysis.mainGenre || analysis.subGenre;
-    
-    if (genreToUse && genreToUse !== "Unknown") {
-      attributes['@_Genre'] = genreToUse;
-    }
-  } 
-  // MODE: Only fix missing Year
-  else if (mode === 'missing_year') {
-    if (analysis.year && analysis.year !== "0") {
-      // Safety Check: Update ONLY if the existing year is empty, null, or equals '0'
-      const currentYear = attributes['@_Year'];
-      if (!currentYear || currentYear === "" || currentYear === "0") {
-        attributes['@_Year'] = analysis.year;
-      }
-    }
-  } 
-  // MODE: Full Enrichment
-  else {
-    // In Full Mode (AI ENRICH), we add micro-genres and other vibes to the COMMENTS field
-    // as hashtags, but we PRESERVE existing comments.
-    const currentComments = attributes['@_Comments'] || "";
-    
-    // Generate new hashtags but filter out "Unknown" tags first
-    const toHashtag = (str: string) => str && str !== "Unknown" ? `#${str.replace(/\s+/g, '')}` : '';
-    const parts = [
-      analysis.vibe ? toHashtag(analysis.vibe) : '',
-      analysis.subGenre ? toHashtag(analysis.subGenre) : '', // UPDATED
-      analysis.situation ? toHashtag(analysis.situation) : ''
-    ].filter(Boolean);
-    
-    const hashtags = parts.join(' ');
-    
-    if (hashtags) {
-      // If hashtags already exist in the comments, don't duplicate them
-      if (!currentComments.includes(hashtags)) {
-        attributes['@_Comments'] = currentComments ? `${currentComments} ${hashtags}` : hashtags;
-      }
+  const resolveValue = (dimension: AnalysisDimension): string => {
+    // The Fix Missing Genre tool falls back to the sub-genre when no main genre was found
+    if (dimension === 'mainGenre' && mode === 'missing_genre') return analysis.mainGenre || analysis.subGenre;
+    return analysis[dimension] || "";
+  };
+
+  // Several dimensions may share a target field (e.g. all hashtags in Comments)
+  const valuesByField = new Map<string, { values: string[]; overwrite: boolean }>();
+  MODE_DIMENSIONS[mode].forEach(dimension => {
+    const rule = mapping[dimension];
+    if (!rule?.target) return;
+    // Colours, ratings and plain text hold one value; hashtags list the ranked tags, primary first
+    const values = rule.format === 'hashtag' && isTagDimension(dimension)
+      ? getRankedTags(analysis, dimension, threshold).map(tag => tag.value)
+      : [resolveValue(dimension)];
+    const formatted = values.map(value => formatMappedValue(dimension, value, rule.format)).filter(Boolean);
+    if (formatted.length === 0) return;
+
+    const entry = valuesByField.get(rule.target) || { values: [], overwrite: true };
+    entry.values.push(...formatted);
+    entry.overwrite = entry.overwrite && rule.overwrite;
+    valuesByField.set(rule.target, entry);
+  });
+
+  const writes: FieldWrite[] = [];
+  valuesByField.forEach(({ values, overwrite }, field) => {
+    const before = readTrackField(track, field);
+    let after: string;
+
+    if (field === 'Comments') {
+      // Comments keep the user's own text; only the CrateBatch tag block is replaced
+      if (!overwrite && before.match(TAG_BLOCK_REGEX)) return;
+      after = writeTagBlock(before, Array.from(new Set(values)).join(' '));
+    } else {
+      if (!overwrite && !isEmptyFieldValue(before)) return;
+      after = values.join(' ');
     }
 
-    // Also fix basic metadata if missing
-    if (analysis.year && analysis.year !== "0") {
-      const currentYear = attributes['@_Year'];
-      if (!currentYear || currentYear === "" || currentYear === "0") {
-        attributes['@_Year'] = analysis.year;
-      }
+    if (after !== before) {
+      const added = !hasTrackField(track, field);
+      writeTrackField(track, field, after);
+      // Read back so the recorded value matches how the library stores it (e.g. Traktor colours)
+      writes.push({ field, before, after: readTrackField(track, field), ...(added ? { added } : {}) });
     }
-    
-    // NOTE: We deliberately DO NOT overwrite the main Genre column with Sub-Genre in Full Mode
-    // to avoid confusion as requested by user.
-    // If the main genre is completely missing, we COULD theoretically fill it,
-    // but the user requested strict separation.
-    // So we only update Year and Comments (Hashtags) in Full Mode.
-  }
+  });
+
+  return writes;
 };
 
-const formatRekordboxPath = (path: string): string => {
+export const formatRekordboxPath = (path: string): string => {
   if (!path) return "";
   
   // 1. Decode first to handle mix of encoded/unencoded
@@ -166,112 +256,142 @@ const formatRekordboxPath = (path: string): string => {
   return `file://localhost${encodedPath}`;
 };
 
-export const parseRekordboxXML = async (xmlContent: string): Promise<ParsedCollection> => {
-  return new Promise((resolve, reject) => {
-    try {
-      const parser = new XMLParser({
-        ignoreAttributes: false,
-        attributeNamePrefix: "@_",
-        preserveOrder: true,        
-        parseAttributeValue: false, 
-        trimValues: true,
-        processEntities: true       
-      });
+/**
+ * Walks the user's PLAYLISTS tree into typed folder/playlist nodes.
+ * Playlist entries are keyed by TrackID (KeyType 0) or by Location (KeyType 1).
+ */
+export const parsePlaylistTree = (fullData: any, tracks: RekordboxTrack[]): PlaylistNode[] => {
+  const djPlaylists = fullData?.find((n: any) => n.DJ_PLAYLISTS)?.DJ_PLAYLISTS;
+  const playlistsNode = djPlaylists?.find((n: any) => n.PLAYLISTS);
+  const rootNode = playlistsNode?.PLAYLISTS?.find((n: any) => n.NODE);
+  if (!rootNode || !Array.isArray(rootNode.NODE)) return [];
+
+  const idByLocation = new Map(tracks.map(t => [t.Location, t.TrackID]));
+  const knownIds = new Set(tracks.map(t => t.TrackID));
+
+  const walk = (node: any, id: string): PlaylistNode => {
+    const attributes = node[':@'] || {};
+    const children = Array.isArray(node.NODE) ? node.NODE : [];
+
+    if (attributes['@_Type'] === '1') {
+      const byLocation = attributes['@_KeyType'] === '1';
+      const trackIds = children
+        .filter((c: any) => c.TRACK)
+        .map((c: any) => {
+          const key = c[':@']?.['@_Key'] || "";
+          return byLocation ? idByLocation.get(key) : key;
+        })
+        .filter((trackId: string | undefined) => trackId && knownIds.has(trackId));
+      return { id, name: attributes['@_Name'] || "Untitled", type: 'playlist', children: [], trackIds };
+    }
 
-      const parsedData = parser.parse(xmlContent);
-      
-      const root = parsedData?.find((node: any) => node.DJ_PLAYLISTS);
-      if (!root) throw new Error("Missing DJ_PLAYLISTS");
-
-      const djPlaylists = root.DJ_PLAYLISTS;
-      const collectionNode = djPlaylists?.find((node: any) => node.COLLECTION);
-      if (!collectionNode) throw new Error("Missing COLLECTION");
-
-      const collectionChildren = collectionNode.COLLECTION;
-      
-      const tracks: RekordboxTrack[] = [];
-
-      collectionChildren.forEach((child: any) => {
-        if (child.TRACK) {
-          const attributes = child[':@'] || {};
-          const trackChildren = child.TRACK; 
-
-          let energy = "";
-          let cueCount = 0;
-
-          // Energy Logic...
-          const energyValues: number[] = [];
-          if (Array.isArray(trackChildren)) {
-             trackChildren.forEach((node: any) => {
-                 if (node.POSITION_MARK) {
-                     cueCount++;
-                     const pmAttr = node[':@'];
-                     if (pmAttr && pmAttr['@_Name']) {
-                         const match = pmAttr['@_Name'].match(/Energy\s+(\d+)/i);
-                         if (match) energyValues.push(parseInt(match[1], 10));
-                     }
+    return {
+      id,
+      name: attributes['@_Name'] || "Untitled",
+      type: 'folder',
+      children: children.filter((c: any) => c.NODE).map((c: any, i: number) => walk(c, `${id}/${i}`)),
+      trackIds: []
+    };
+  };
+
+  return rootNode.NODE.filter((n: any) => n.NODE).map((n: any, i: number) => walk(n, i.toString()));
+};
+
+/**
+ * Build the collection from an already parsed preserveOrder tree
+ * (either fast-xml-parser or the streaming parser in services/xmlStream.ts).
+ */
+export const buildRekordboxCollection = (parsedData: any): ParsedCollection => {
+  const root = parsedData?.find((node: any) => node.DJ_PLAYLISTS);
+  if (!root) throw new Error("Missing DJ_PLAYLISTS");
+
+  const djPlaylists = root.DJ_PLAYLISTS;
+  const collectionNode = djPlaylists?.find((node: any) => node.COLLECTION);
+  if (!collectionNode) throw new Error("Missing COLLECTION");
+
+  const collectionChildren = collectionNode.COLLECTION;
+  
+  const tracks: RekordboxTrack[] = [];
+
+  collectionChildren.forEach((child: any) => {
+    if (child.TRACK) {
+      const attributes = child[':@'] || {};
+      const trackChildren = child.TRACK; 
+
+      let energy = "";
+      let cueCount = 0;
+
+      // Energy Logic...
+      const energyValues: number[] = [];
+      if (Array.isArray(trackChildren)) {
+         trackChildren.forEach((node: any) => {
+             if (node.POSITION_MARK) {
+                 cueCount++;
+                 const pmAttr = node[':@'];
+                 if (pmAttr && pmAttr['@_Name']) {
+                     const match = pmAttr['@_Name'].match(/Energy\s+(\d+)/i);
+                     if (match) energyValues.push(parseInt(match[1], 10));
                  }
-             });
-          }
+             }
+         });
+      }
 
-          if (energyValues.length > 0) {
-              const counts: Record<number, number> = {};
-              let maxCount = 0;
-              let modeVal = energyValues[0];
-              for (const val of energyValues) {
-                  counts[val] = (counts[val] || 0) + 1;
-                  if (counts[val] > maxCount) {
-                      maxCount = counts[val];
-                      modeVal = val;
-                  }
+      if (energyValues.length > 0) {
+          const counts: Record<number, number> = {};
+          let maxCount = 0;
+          let modeVal = energyValues[0];
+          for (const val of energyValues) {
+              counts[val] = (counts[val] || 0) + 1;
+              if (counts[val] > maxCount) {
+                  maxCount = counts[val];
+                  modeVal = val;
               }
-              energy = modeVal.toString();
-          }
-
-          const comments = attributes['@_Comments'] || "";
-          if (!energy) {
-            const energyMatch = comments.match(/Energy\s*:\s*(\d+)/i);
-            if (energyMatch) energy = energyMatch[1];
           }
+          energy = modeVal.toString();
+      }
 
-          if (!energy && attributes['@_Rating']) {
-            const r = parseInt(attributes['@_Rating'], 10);
-            if (!isNaN(r) && r > 0) energy = Math.round(r / 51).toString();
-          }
+      const comments = attributes['@_Comments'] || "";
+      if (!energy) {
+        const energyMatch = comments.match(/Energy\s*:\s*(\d+)/i);
+        if (energyMatch) energy = energyMatch[1];
+      }
 
-          const existingAnalysis = extractAnalysisFromComments(comments);
-
-          tracks.push({
-            TrackID: attributes['@_TrackID'] || "",
-            Name: attributes['@_Name'] || "Unknown Title",
-            Artist: attributes['@_Artist'] || "Unknown Artist",
-            AverageBpm: attributes['@_AverageBpm'] || "0",
-            Tonality: attributes['@_Tonality'] || "",
-            Year: attributes['@_Year'] || "",
-            TotalTime: attributes['@_TotalTime'] || "0", 
-            BitRate: attributes['@_BitRate'] || "0",
-            Kind: attributes['@_Kind'] || "",
-            CueCount: cueCount,
-            Comments: comments,
-            Energy: energy,
-            Genre: attributes['@_Genre'] || "", 
-            Analysis: existingAnalysis, 
-            _rawNode: child 
-          });
-        }
-      });
+      if (!energy && attributes['@_Rating']) {
+        const r = parseInt(attributes['@_Rating'], 10);
+        if (!isNaN(r) && r > 0) energy = Math.round(r / 51).toString();
+      }
 
-      resolve({
-        tracks,
-        count: tracks.length,
-        fullData: parsedData
+      const existingAnalysis = extractAnalysisFromComments(comments);
+
+      tracks.push({
+        TrackID: attributes['@_TrackID'] || "",
+        Name: attributes['@_Name'] || "Unknown Title",
+        Artist: attributes['@_Artist'] || "Unknown Artist",
+        AverageBpm: attributes['@_AverageBpm'] || "0",
+        Tonality: attributes['@_Tonality'] || "",
+        Year: attributes['@_Year'] || "",
+        TotalTime: attributes['@_TotalTime'] || "0", 
+        BitRate: attributes['@_BitRate'] || "0",
+        Kind: attributes['@_Kind'] || "",
+        CueCount: cueCount,
+        Comments: comments,
+        Energy: energy,
+        Genre: attributes['@_Genre'] || "", 
+        Location: attributes['@_Location'] || "",
+        Analysis: existingAnalysis, 
+        _rawNode: child,
+        _source: 'rekordbox'
       });
-
-    } catch (error) {
-      console.error("XML Parse Error:", error);
-      reject(error);
     }
   });
+
+  return {
+    tracks,
+    count: tracks.length,
+    fullData: parsedData,
+    format: 'rekordbox',
+    playlists: parsePlaylistTree(parsedData, tracks)
+  };
 };
 
 export const generateSmartPlaylists = (
@@ -279,34 +399,15 @@ export const generateSmartPlaylists = (
   tracks: RekordboxTrack[], 
   duplicateIds: string[] = [],
   customPlaylists: CustomPlaylist[] = [],
-  rootFolderName: string = "AI_GENERATED"
+  rootFolderName: string = "AI_GENERATED",
+  excludedPlaylists: Set<string> = new Set(),
+  confidenceThreshold: number = 0,
+  nestSubGenres: boolean = false
 ) => {
-  // 1. Group Data
-  const vibes: Record<string, string[]> = {};
-  const subGenres: Record<string, string[]> = {}; // UPDATED from genres
-  const situations: Record<string, string[]> = {};
-
-  tracks.forEach(t => {
-    if (!t.Analysis) return;
-    
-    // Group by Vibe
-    if (t.Analysis.vibe && t.Analysis.vibe !== "Unknown") {
-      if (!vibes[t.Analysis.vibe]) vibes[t.Analysis.vibe] = [];
-      vibes[t.Analysis.vibe].push(t.TrackID);
-    }
-    
-    // Group by Sub-Genre (AI Generated)
-    if (t.Analysis.subGenre && t.Analysis.subGenre !== "Unknown") { // UPDATED
-       if (!subGenres[t.Analysis.subGenre]) subGenres[t.Analysis.subGenre] = [];
-       subGenres[t.Analysis.subGenre].push(t.TrackID);
-    }
+  const isExcluded = (...parts: string[]) => excludedPlaylists.has(playlistPath(rootFolderName, ...parts));
 
-    // Group by Situation
-    if (t.Analysis.situation && t.Analysis.situation !== "Unknown") {
-       if (!situations[t.Analysis.situation]) situations[t.Analysis.situation] = [];
-       situations[t.Analysis.situation].push(t.TrackID);
-    }
-  });
+  // 1. Group Data
+  const { vibes, subGenres, situations } = groupTracksByAnalysis(tracks, confidenceThreshold);
 
   // 2. Helpers for creating nodes
   const createFolderNode = (name: string, children: any[] = []) => ({
@@ -334,27 +435,36 @@ export const generateSmartPlaylists = (
     };
   };
 
-  const createSubFolderWithPlaylists = (folderName: string, map: Record<string, string[]>) => {
-    const playlists = Object.keys(map).sort().map(key => 
+  const createSubFolderWithPlaylists = (folderName: string, map: Record<string, string[]>, parentPath: string[] = []) => {
+    const playlists = Object.keys(map).sort().filter(key => !isExcluded(...parentPath, folderName, key)).map(key => 
       createPlaylistNode(key, map[key])
     );
     return createFolderNode(folderName, playlists);
   };
 
+  const createSubGenreFolder = () => {
+    if (!nestSubGenres) return createSubFolderWithPlaylists("Sub-Genres", subGenres);
+    const nested = groupSubGenresByMainGenre(subGenres);
+    return createFolderNode("Sub-Genres", Object.keys(nested).sort().map(mainGenre =>
+      createSubFolderWithPlaylists(mainGenre, nested[mainGenre], ["Sub-Genres"])
+    ));
+  };
+
   // 3. Build the AI Structure - UPDATED: Genres -> Sub-Genres
   const aiRootChildren: any[] = [
     createSubFolderWithPlaylists("Vibes", vibes),
-    createSubFolderWithPlaylists("Sub-Genres", subGenres), // UPDATED FOLDER NAME
+    createSubGenreFolder(), // UPDATED FOLDER NAME
     createSubFolderWithPlaylists("Situations", situations)
   ];
 
-  if (customPlaylists.length > 0) {
-    const savedPlaylistsNodes = customPlaylists.map(cp => createPlaylistNode(cp.name, cp.trackIds));
+  const includedCustomPlaylists = customPlaylists.filter(cp => !isExcluded("SAVED_SEARCHES", cp.name));
+  if (includedCustomPlaylists.length > 0) {
+    const savedPlaylistsNodes = includedCustomPlaylists.map(cp => createPlaylistNode(cp.name, cp.trackIds));
     const savedFolder = createFolderNode("SAVED_SEARCHES", savedPlaylistsNodes);
     aiRootChildren.push(savedFolder);
   }
 
-  if (duplicateIds.length > 0) {
+  if (duplicateIds.length > 0 && !isExcluded("[POSSIBLE DUPLICATES]")) {
     aiRootChildren.unshift(createPlaylistNode("[POSSIBLE DUPLICATES]", duplicateIds));
   }
 
@@ -391,13 +501,14 @@ export const generateSmartPlaylists = (
   }
 };
 
-export const exportRekordboxXML = (fullData: any): string => {
+export const exportRekordboxXML = (fullData: any, skipLocationIds: Set<string> = new Set()): string => {
   const root = fullData.find((node: any) => node.DJ_PLAYLISTS);
   if (root?.DJ_PLAYLISTS) {
     const collectionNode = root.DJ_PLAYLISTS.find((node: any) => node.COLLECTION);
     if (collectionNode?.COLLECTION) {
       collectionNode.COLLECTION.forEach((child: any) => {
-        if (child.TRACK && child[':@']) {
+        // Tracks whose Location rewrite was excluded in the export preview keep their path
+        if (child.TRACK && child[':@'] && !skipLocationIds.has(child[':@']['@_TrackID'])) {
           const currentLocation = child[':@']['@_Location'];
           if (currentLocation) {
             child[':@']['@_Location'] = formatRekordboxPath(currentLocation);
@@ -415,6 +526,5 @@ export const exportRekordboxXML = (fullData: any): string => {
     suppressBooleanAttributes: false
   });
 
-  const xmlStr = builder.build(fullData);
-  return `<?xml version="1.0" encoding="UTF-8"?>\n${xmlStr}`;
+  return buildXmlDocument(builder, fullData, '<?xml version="1.0" encoding="UTF-8"?>');
 };
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { createXmlTreeBuilder } from './xmlStream';
+import { buildCollection } from './libraryParse';
+import { setActiveTaxonomy } from './taxonomy';
+import { ParsedCollection, ParseProgress, Taxonomy } from '../types';
+
+// Strings (e.g. read through Electron IPC) are fed to the parser in slices of this size
+const STRING_CHUNK_SIZE = 1024 * 1024;
+const PROGRESS_INTERVAL_MS = 100;
+
+const ctx = self as unknown as Worker;
+const encoder = new TextEncoder();
+
+// Progress is in bytes of the UTF-8 file, whether it arrives as a File or as a string
+const byteLength = (text: string) => encoder.encode(text).byteLength;
+
+// The worker has its own module state, so comment parsing needs the UI's taxonomy passed in
+export type ParserWorkerRequest = { source: File | string; taxonomy: Taxonomy };
+
+export type ParserWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; result: ParsedCollection }
+  | { type: 'error'; error: string };
+
+const post = (message: ParserWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (e: MessageEvent<ParserWorkerRequest>) => {
+  try {
+    const { source, taxonomy } = e.data;
+    setActiveTaxonomy(taxonomy);
+    const builder = createXmlTreeBuilder();
+    let totalBytes = 0;
+    if (typeof source === 'string') {
+      for (let i = 0; i < source.length; i += STRING_CHUNK_SIZE) totalBytes += byteLength(source.slice(i, i + STRING_CHUNK_SIZE));
+    } else {
+      totalBytes = source.size;
+    }
+    let bytesRead = 0;
+    let lastReport = 0;
+
+    const report = (force: boolean = false) => {
+      const now = performance.now();
+      if (!force && now - lastReport < PROGRESS_INTERVAL_MS) return;
+      lastReport = now;
+      post({ type: 'progress', progress: { bytesRead, totalBytes, tracksFound: builder.collectionEntries() } });
+    };
+
+    if (typeof source === 'string') {
+      for (let i = 0; i < source.length; i += STRING_CHUNK_SIZE) {
+        const chunk = source.slice(i, i + STRING_CHUNK_SIZE);
+        builder.write(chunk);
+        bytesRead += byteLength(chunk);
+        report();
+      }
+    } else {
+      const reader = source.stream().getReader();
+      const decoder = new TextDecoder('utf-8');
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        builder.write(decoder.decode(value, { stream: true }));
+        bytesRead += value.byteLength;
+        report();
+      }
+      builder.write(decoder.decode());
+    }
+
+    report(true);
+    const parsedData = builder.end();
+
+    const result = buildCollection(parsedData);
+
+    // Posting tracks and fullData in one message keeps each track's _rawNode
+    // pointing into the same tree after structured cloning
+    post({ type: 'done', result });
+  } catch (error: any) {
+    post({ type: 'error', error: error?.message || "Parse failed" });
+  }
+};
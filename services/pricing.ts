@@ -0,0 +1,85 @@
+import { BatchUsage, ModelUsage } from '../types';
+
+export interface ModelPricing {
+  input: number; // USD per million prompt tokens, search tool prompts included
+  output: number; // USD per million output tokens, thinking included
+  searchQuery?: number; // USD per Google Search query the model runs (Gemini 3)
+  groundedPrompt?: number; // USD per request grounded with Google Search (Gemini 2.x)
+}
+
+// Gemini API paid-tier prices. Versioned ids (e.g. "gemini-2.5-flash-001") use the longest matching entry.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-pro-preview': { input: 2.00, output: 12.00, searchQuery: 0.014 },
+  'gemini-3-flash-preview': { input: 0.50, output: 3.00, searchQuery: 0.014 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00, groundedPrompt: 0.035 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50, groundedPrompt: 0.035 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40, groundedPrompt: 0.035 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40, groundedPrompt: 0.035 },
+  'gemini-2.0-flash-thinking-exp': { input: 0.10, output: 0.40, groundedPrompt: 0.035 } // Billed as 2.0 Flash
+};
+
+// Unknown models are priced like the most expensive Flash model, so estimates err high.
+// Their usage is flagged `unpriced` so jobs can say so in their log.
+const FALLBACK_PRICING = MODEL_PRICING['gemini-3-flash-preview'];
+
+const findPricing = (model: string): ModelPricing | undefined => {
+  const match = Object.keys(MODEL_PRICING)
+    .filter(id => model === id || model.startsWith(`${id}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : undefined;
+};
+
+export const getModelPricing = (model: string): ModelPricing => findPricing(model) || FALLBACK_PRICING;
+
+export const priceTokens = (pricing: ModelPricing, inputTokens: number, outputTokens: number) =>
+  (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+
+/**
+ * Usage and cost of one Gemini response. Thinking tokens and search tool prompts are reported
+ * separately in usageMetadata but billed as output and input; grounded searches are billed per query
+ * (Gemini 3) or per request (Gemini 2.x).
+ */
+export const priceGeminiResponse = (model: string, data: any): BatchUsage => {
+  const metadata = data?.usageMetadata || {};
+  const thinkingTokens = metadata.thoughtsTokenCount || 0;
+  const inputTokens = (metadata.promptTokenCount || 0) + (metadata.toolUsePromptTokenCount || 0);
+  const outputTokens = (metadata.candidatesTokenCount || 0) + thinkingTokens;
+
+  const grounding = data?.candidates?.[0]?.groundingMetadata;
+  const searchQueries = grounding?.webSearchQueries?.length || 0;
+
+  const known = findPricing(model);
+  const pricing = known || FALLBACK_PRICING;
+  const searchCost = grounding
+    ? pricing.searchQuery !== undefined ? searchQueries * pricing.searchQuery : pricing.groundedPrompt || 0
+    : 0;
+  const cost = priceTokens(pricing, inputTokens, outputTokens) + searchCost;
+
+  return { inputTokens, outputTokens, cost, models: [{ model, requests: 1, inputTokens, outputTokens, thinkingTokens, searchQueries, cost, ...(known ? {} : { unpriced: true }) }] };
+};
+
+/**
+ * Sum two usages, keeping the per-model breakdown.
+ */
+export const addUsage = (a: BatchUsage, b: BatchUsage): BatchUsage => {
+  const byModel = new Map<string, ModelUsage>();
+  [...(a.models || []), ...(b.models || [])].forEach(m => {
+    const prev = byModel.get(m.model);
+    byModel.set(m.model, prev ? {
+      model: m.model,
+      requests: prev.requests + m.requests,
+      inputTokens: prev.inputTokens + m.inputTokens,
+      outputTokens: prev.outputTokens + m.outputTokens,
+      thinkingTokens: prev.thinkingTokens + m.thinkingTokens,
+      searchQueries: prev.searchQueries + m.searchQueries,
+      cost: prev.cost + m.cost,
+      ...(prev.unpriced || m.unpriced ? { unpriced: true } : {})
+    } : m);
+  });
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cost: a.cost + b.cost,
+    models: Array.from(byModel.values())
+  };
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { AIAnalysis, RekordboxTrack, ReviewItem } from '../types';
+import { holdForReview, mergeReviewItems, applyReviewValue } from './reviewQueue';
+
+const track = (id: string, analysis?: AIAnalysis): RekordboxTrack => ({
+  TrackID: id, Name: `Title ${id}`, Artist: 'Artist', AverageBpm: '120', Tonality: '', Year: '0', TotalTime: '200', Comments: '', Analysis: analysis
+});
+
+const result = (overrides: Partial<AIAnalysis> = {}): AIAnalysis => ({
+  vibe: 'Groovy', subGenre: 'Tech House', situation: 'Peak Hour', year: '2019',
+  confidence: { vibe: 0.9, subGenre: 0.9, situation: 0.9, year: 0.9 },
+  ...overrides
+});
+
+describe('holdForReview', () => {
+  it('holds nothing with the threshold off', () => {
+    const results = { '1': result({ confidence: { vibe: 0.1 } }) };
+    expect(holdForReview([track('1')], results, 'full', 0)).toEqual({ results, held: [] });
+  });
+
+  it('holds low-confidence fields and puts the previous value back', () => {
+    const previous: AIAnalysis = { vibe: 'Dark', subGenre: 'Minimal', situation: 'After Party', year: '0', vibes: [{ value: 'Dark', confidence: 0.8 }] };
+    const proposed = result({
+      confidence: { vibe: 0.4, subGenre: 0.9, situation: 0.9, year: 0.9 },
+      vibes: [{ value: 'Groovy', confidence: 0.4 }, { value: 'Bouncy', confidence: 0.3 }]
+    });
+    const { results, held } = holdForReview([track('1', previous)], { '1': proposed }, 'full', 0.6);
+
+    expect(held).toEqual([{
+      id: '1:vibe', trackId: '1', trackLabel: 'Artist - Title 1', mode: 'full', field: 'vibe',
+      proposed: 'Groovy', confidence: 0.4, unsupported: undefined, ranked: proposed.vibes
+    }]);
+    expect(results['1'].vibe).toBe('Dark');
+    expect(results['1'].vibes).toEqual(previous.vibes);
+    expect(results['1'].subGenre).toBe('Tech House');
+  });
+
+  it('holds a searched year no source backed, whatever its confidence', () => {
+    const { results, held } = holdForReview([track('1')], { '1': result({ yearSources: [] }) }, 'missing_year', 0.5);
+    expect(held.map(item => [item.field, item.proposed, item.unsupported])).toEqual([['year', '2019', true]]);
+    expect(results['1'].year).toBe('0');
+  });
+
+  it('keeps values without a confidence and skips empty ones', () => {
+    const { held } = holdForReview([track('1'), track('2')], {
+      '1': result({ confidence: undefined }),
+      '2': result({ vibe: 'Unknown', confidence: { vibe: 0.1, subGenre: 0.9, situation: 0.9, year: 0.9 } })
+    }, 'full', 0.5);
+    expect(held).toEqual([]);
+  });
+
+  it('reviews the sub-genre a missing main genre fell back to', () => {
+    const analysis = result({ mainGenre: undefined, subGenre: 'Tech House', confidence: { mainGenre: 0.2 } });
+    const { results, held } = holdForReview([track('1')], { '1': analysis }, 'missing_genre', 0.5);
+    expect(held.map(item => [item.field, item.proposed])).toEqual([['mainGenre', 'Tech House']]);
+    expect(results['1'].subGenre).toBe('Unknown');
+  });
+
+  it('leaves tracks without a result out', () => {
+    expect(holdForReview([track('1')], {}, 'full', 0.5)).toEqual({ results: {}, held: [] });
+  });
+});
+
+describe('mergeReviewItems', () => {
+  it('replaces items still waiting for the same track and field', () => {
+    const item = (id: string, proposed: string) => ({ id, proposed } as ReviewItem);
+    const merged = mergeReviewItems([item('1:vibe', 'Dark'), item('2:vibe', 'Raw')], [item('1:vibe', 'Groovy')]);
+    expect(merged.map(i => [i.id, i.proposed])).toEqual([['2:vibe', 'Raw'], ['1:vibe', 'Groovy']]);
+  });
+});
+
+describe('applyReviewValue', () => {
+  it('ranks an accepted tag first with full confidence', () => {
+    const item: ReviewItem = {
+      id: '1:vibe', trackId: '1', trackLabel: '', mode: 'full', field: 'vibe', proposed: 'Groovy', confidence: 0.4,
+      ranked: [{ value: 'Groovy', confidence: 0.4 }, { value: 'Bouncy', confidence: 0.3 }]
+    };
+    const next = applyReviewValue(undefined, item, 'Bouncy');
+    expect(next.vibe).toBe('Bouncy');
+    expect(next.confidence?.vibe).toBe(1);
+    expect(next.vibes).toEqual([{ value: 'Bouncy', confidence: 1 }, { value: 'Groovy', confidence: 0.4 }]);
+  });
+});
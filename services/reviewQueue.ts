@@ -0,0 +1,114 @@
+import { RekordboxTrack, AIAnalysis, AnalysisDimension, EnrichmentMode, ReviewItem } from '../types';
+
+type RankedField = 'vibes' | 'subGenres' | 'situations';
+
+// Values the model is less sure of than this wait for review; settings can lower it to 0 (off)
+export const DEFAULT_REVIEW_THRESHOLD = 0.5;
+
+// The fields each mode writes, as in updateTrackNode
+const REVIEW_FIELDS: Record<EnrichmentMode, AnalysisDimension[]> = {
+  full: ['vibe', 'subGenre', 'situation', 'year'],
+  missing_genre: ['mainGenre'],
+  missing_year: ['year']
+};
+
+const RANKED_FIELDS: Partial<Record<AnalysisDimension, RankedField>> = {
+  vibe: 'vibes',
+  subGenre: 'subGenres',
+  situation: 'situations'
+};
+
+const EMPTY_ANALYSIS: AIAnalysis = { vibe: 'Unknown', subGenre: 'Unknown', situation: 'Unknown', year: '0' };
+
+const isEmptyValue = (value?: string) => !value || value === 'Unknown' || value === '0';
+
+// A year from a web search that none of the search's sources backed
+export const hasUnsupportedYear = (analysis?: AIAnalysis): boolean =>
+  !!analysis && !isEmptyValue(analysis.year) && analysis.yearSources?.length === 0;
+
+// The value updateTrackNode would write for the field; missing_genre falls back to the sub-genre
+const proposedValue = (analysis: AIAnalysis, field: AnalysisDimension, mode: EnrichmentMode): string =>
+  (field === 'mainGenre' && mode === 'missing_genre' ? analysis.mainGenre || analysis.subGenre : analysis[field]) || '';
+
+// Put the track's previous value back, so the write leaves the field (and its share of a tag block) as it was
+const revertField = (analysis: AIAnalysis, previous: AIAnalysis | undefined, field: AnalysisDimension): AIAnalysis => {
+  const reverted: AIAnalysis = { ...analysis, confidence: { ...analysis.confidence, [field]: previous?.confidence?.[field] } };
+  if (field === 'mainGenre') {
+    reverted.mainGenre = previous?.mainGenre;
+    if (!previous?.mainGenre) reverted.subGenre = 'Unknown';
+    return reverted;
+  }
+  reverted[field] = previous?.[field] || EMPTY_ANALYSIS[field]!;
+  if (field === 'year') reverted.yearSources = previous?.yearSources;
+  const ranked = RANKED_FIELDS[field];
+  if (ranked) reverted[ranked] = previous?.[ranked];
+  return reverted;
+};
+
+/**
+ * Split a batch's results into what can be written now and the fields to review: those below the
+ * confidence threshold, and searched years no source backed. Held fields are reverted in the returned
+ * results. Values without a confidence are kept.
+ */
+export const holdForReview = (
+  chunk: RekordboxTrack[],
+  results: Record<string, AIAnalysis>,
+  mode: EnrichmentMode,
+  threshold: number
+): { results: Record<string, AIAnalysis>; held: ReviewItem[] } => {
+  if (threshold <= 0) return { results, held: [] };
+
+  const kept: Record<string, AIAnalysis> = {};
+  const held: ReviewItem[] = [];
+  chunk.forEach(track => {
+    const result = results[track.TrackID];
+    if (!result) return;
+    let next = result;
+    REVIEW_FIELDS[mode].forEach(field => {
+      const confidence = result.confidence?.[field];
+      const unsupported = field === 'year' && hasUnsupportedYear(result);
+      const proposed = proposedValue(result, field, mode);
+      const lowConfidence = confidence !== undefined && confidence < threshold;
+      if (!(lowConfidence || unsupported) || isEmptyValue(proposed)) return;
+      const ranked = RANKED_FIELDS[field];
+      held.push({
+        id: `${track.TrackID}:${field}`,
+        trackId: track.TrackID,
+        trackLabel: `${track.Artist} - ${track.Name}`,
+        mode,
+        field,
+        proposed,
+        confidence,
+        unsupported: unsupported || undefined,
+        ranked: ranked ? result[ranked] : undefined
+      });
+      next = revertField(next, track.Analysis, field);
+    });
+    kept[track.TrackID] = next;
+  });
+  return { results: kept, held };
+};
+
+/**
+ * Add newly held items, replacing any still waiting for the same track and field.
+ */
+export const mergeReviewItems = (queue: ReviewItem[], held: ReviewItem[]): ReviewItem[] => {
+  const ids = new Set(held.map(item => item.id));
+  return [...queue.filter(item => !ids.has(item.id)), ...held];
+};
+
+/**
+ * The track's analysis with an accepted (or edited) value. A person confirmed it, so it ranks first
+ * with full confidence, and a year no longer rests on the search's sources.
+ */
+export const applyReviewValue = (analysis: AIAnalysis | undefined, item: ReviewItem, value: string): AIAnalysis => {
+  const base = analysis || EMPTY_ANALYSIS;
+  const next: AIAnalysis = { ...base, [item.field]: value, confidence: { ...base.confidence, [item.field]: 1 } };
+  if (item.field === 'year') delete next.yearSources;
+  const ranked = RANKED_FIELDS[item.field];
+  if (ranked) {
+    const others = (item.ranked || base[ranked] || []).filter(tag => tag.value !== value);
+    next[ranked] = [{ value, confidence: 1 }, ...others];
+  }
+  return next;
+};
@@ -0,0 +1,152 @@
+import { AppSettings, SessionData, SessionSummary, CachedAnalysis, UsageRecord } from '../types';
+
+// Sessions (and the analysis cache and usage ledger) are kept in the Electron userData folder on desktop and in IndexedDB in the browser.
+// Summaries live in their own store so the recent list never loads whole libraries.
+const DB_NAME = 'cratebatch';
+const DB_VERSION = 3;
+const MAX_SESSIONS = 10;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => {
+        const db = request.result;
+        if (e.oldVersion < 1) {
+          db.createObjectStore('sessions', { keyPath: 'id' });
+          db.createObjectStore('summaries', { keyPath: 'id' });
+          db.createObjectStore('settings');
+        }
+        if (e.oldVersion < 2) {
+          db.createObjectStore('analysisCache', { keyPath: 'key' });
+        }
+        if (e.oldVersion < 3) {
+          db.createObjectStore('usage', { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = work(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const summarize = ({ id, name, format, trackCount, analyzedCount, savedAt }: SessionData): SessionSummary =>
+  ({ id, name, format, trackCount, analyzedCount, savedAt });
+
+/**
+ * Recent sessions, newest first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  if (window.electron) return window.electron.listSessions();
+  const summaries = await runTransaction<SessionSummary[]>(['summaries'], 'readonly', tx => tx.objectStore('summaries').getAll());
+  return (summaries || []).sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const loadSession = async (id: string): Promise<SessionData | undefined> => {
+  if (window.electron) return (await window.electron.loadSession(id)) || undefined;
+  return runTransaction<SessionData>(['sessions'], 'readonly', tx => tx.objectStore('sessions').get(id));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  if (window.electron) {
+    const result = await window.electron.deleteSession(id);
+    if (!result.success) throw new Error(result.error);
+    return;
+  }
+  await runTransaction(['sessions', 'summaries'], 'readwrite', tx => {
+    tx.objectStore('sessions').delete(id);
+    tx.objectStore('summaries').delete(id);
+  });
+};
+
+export const saveSession = async (session: SessionData): Promise<void> => {
+  if (window.electron) {
+    const result = await window.electron.saveSession(session);
+    if (!result.success) throw new Error(result.error);
+    return;
+  }
+  await runTransaction(['sessions', 'summaries'], 'readwrite', tx => {
+    tx.objectStore('sessions').put(session);
+    tx.objectStore('summaries').put(summarize(session));
+  });
+
+  // Keep only the most recent sessions, libraries are large
+  const stale = (await listSessions()).slice(MAX_SESSIONS);
+  for (const summary of stale) {
+    await deleteSession(summary.id);
+  }
+};
+
+export const loadSettings = async (): Promise<AppSettings | undefined> => {
+  if (window.electron) return (await window.electron.loadSettings()) || undefined;
+  return runTransaction<AppSettings>(['settings'], 'readonly', tx => tx.objectStore('settings').get('app'));
+};
+
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  if (window.electron) {
+    const result = await window.electron.saveSettings(settings);
+    if (!result.success) throw new Error(result.error);
+    return;
+  }
+  await runTransaction(['settings'], 'readwrite', tx => {
+    tx.objectStore('settings').put(settings, 'app');
+  });
+};
+
+export const loadAnalysisCache = async (): Promise<CachedAnalysis[]> => {
+  if (window.electron) return window.electron.loadAnalysisCache();
+  return (await runTransaction<CachedAnalysis[]>(['analysisCache'], 'readonly', tx => tx.objectStore('analysisCache').getAll())) || [];
+};
+
+/**
+ * Persist new or updated cache entries. The Electron store is a single file, so it receives the full cache.
+ */
+export const saveAnalysisCache = async (changed: CachedAnalysis[], all: CachedAnalysis[]): Promise<void> => {
+  if (window.electron) {
+    const result = await window.electron.saveAnalysisCache(all);
+    if (!result.success) throw new Error(result.error);
+    return;
+  }
+  await runTransaction(['analysisCache'], 'readwrite', tx => {
+    const store = tx.objectStore('analysisCache');
+    changed.forEach(entry => store.put(entry));
+  });
+};
+
+export const loadUsageLedger = async (): Promise<UsageRecord[]> => {
+  if (window.electron) return window.electron.loadUsage();
+  return (await runTransaction<UsageRecord[]>(['usage'], 'readonly', tx => tx.objectStore('usage').getAll())) || [];
+};
+
+/**
+ * Persist new or updated ledger rows. Like the analysis cache, the Electron store receives every row.
+ */
+export const saveUsageLedger = async (changed: UsageRecord[], all: UsageRecord[]): Promise<void> => {
+  if (window.electron) {
+    const result = await window.electron.saveUsage(all);
+    if (!result.success) throw new Error(result.error);
+    return;
+  }
+  await runTransaction(['usage'], 'readwrite', tx => {
+    const store = tx.objectStore('usage');
+    changed.forEach(record => store.put(record));
+  });
+};
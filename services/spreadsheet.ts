@@ -0,0 +1,177 @@
+import { RekordboxTrack, AIAnalysis, AttributeChange, AnalysisDimension, FieldMapping } from '../types';
+import { getTags, findTag, resolveTag } from './taxonomy';
+import { toCSV, parseCSV } from './utils';
+
+// Analysis dimensions exported as "Analysis.<name>" columns; these are the only columns read back on import
+const ANALYSIS_COLUMNS: AnalysisDimension[] = ['vibe', 'subGenre', 'situation', 'year', 'mainGenre'];
+
+const RANKED_FIELDS: Partial<Record<AnalysisDimension, 'vibes' | 'subGenres' | 'situations'>> = {
+  vibe: 'vibes',
+  subGenre: 'subGenres',
+  situation: 'situations'
+};
+
+// Every plain track field in order of first appearance; internal fields (_rawNode etc.) are left out
+const collectTrackColumns = (tracks: RekordboxTrack[]): string[] => {
+  const columns = new Set<string>(['TrackID', 'Artist', 'Name']);
+  tracks.forEach(t => Object.keys(t).forEach(key => {
+    if (!key.startsWith('_') && key !== 'Analysis') columns.add(key);
+  }));
+  return Array.from(columns);
+};
+
+export const tracksToCSV = (tracks: RekordboxTrack[]): string => {
+  const columns = collectTrackColumns(tracks);
+  const header = [...columns, ...ANALYSIS_COLUMNS.map(c => `Analysis.${c}`)];
+  const rows = tracks.map(t => [
+    ...columns.map(c => t[c] ?? ""),
+    ...ANALYSIS_COLUMNS.map(c => t.Analysis?.[c] ?? "")
+  ]);
+  return toCSV([header, ...rows]);
+};
+
+export const tracksToJSON = (tracks: RekordboxTrack[]): string => {
+  const columns = collectTrackColumns(tracks);
+  const rows = tracks.map(t => {
+    const row: Record<string, any> = {};
+    columns.forEach(c => { if (t[c] !== undefined) row[c] = t[c]; });
+    row.Analysis = Object.fromEntries(ANALYSIS_COLUMNS.map(c => [c, t.Analysis?.[c] ?? ""]));
+    return row;
+  });
+  return JSON.stringify(rows, null, 2);
+};
+
+export interface SpreadsheetIssue {
+  row: number; // 1-based record number in the file, header included
+  trackId: string;
+  column: string;
+  value: string;
+  reason: string;
+}
+
+export interface SpreadsheetImport {
+  changes: AttributeChange[]; // field is "Analysis.<name>"
+  issues: SpreadsheetIssue[];
+}
+
+// Returns the canonical value, or an error message
+const validateCell = (column: AnalysisDimension, value: string): { value: string } | { error: string } => {
+  const trimmed = value.trim();
+  if (column === 'year') {
+    if (!trimmed || trimmed === "0") return { value: "0" };
+    const year = parseInt(trimmed, 10);
+    const maxYear = new Date().getFullYear();
+    if (!/^\d{4}$/.test(trimmed) || year < 1950 || year > maxYear) return { error: `Year must be 1950-${maxYear} or empty` };
+    return { value: trimmed };
+  }
+
+  if (!trimmed || trimmed.toLowerCase() === "unknown") return { value: "Unknown" };
+  // Tags from older taxonomy versions are accepted and mapped to their current name
+  const match = findTag(trimmed, getTags(column)) || resolveTag(column, trimmed)?.tag;
+  return match ? { value: match } : { error: "Not in the taxonomy" };
+};
+
+/**
+ * Compare an edited CSV against the current tracks. Rows are matched by TrackID and only
+ * Analysis columns are considered; invalid values are reported instead of offered as changes.
+ */
+export const diffSpreadsheet = (tracks: RekordboxTrack[], csvText: string): SpreadsheetImport => {
+  const [header, ...rows] = parseCSV(csvText);
+  if (!header) throw new Error("The file is empty");
+
+  const idIndex = header.indexOf('TrackID');
+  if (idIndex < 0) throw new Error("Missing TrackID column");
+
+  const analysisIndexes = ANALYSIS_COLUMNS
+    .map(column => ({ column, index: header.indexOf(`Analysis.${column}`) }))
+    .filter(c => c.index >= 0);
+  if (analysisIndexes.length === 0) throw new Error("No Analysis.* columns found");
+
+  const trackById = new Map(tracks.map(t => [t.TrackID, t]));
+  const result: SpreadsheetImport = { changes: [], issues: [] };
+
+  rows.forEach((cells, i) => {
+    const rowNumber = i + 2;
+    const trackId = (cells[idIndex] || "").trim();
+    const track = trackById.get(trackId);
+    if (!track) {
+      result.issues.push({ row: rowNumber, trackId, column: 'TrackID', value: trackId, reason: "No track with this ID" });
+      return;
+    }
+
+    analysisIndexes.forEach(({ column, index }) => {
+      const raw = cells[index] ?? "";
+      const validated = validateCell(column, raw);
+      const field = `Analysis.${column}`;
+      if ('error' in validated) {
+        result.issues.push({ row: rowNumber, trackId, column: field, value: raw, reason: validated.error });
+        return;
+      }
+
+      // Compare against the same normalisation so untouched cells are not reported
+      const currentRaw = track.Analysis?.[column] || "";
+      const currentCheck = validateCell(column, currentRaw);
+      const current = 'value' in currentCheck ? currentCheck.value : currentRaw;
+      if (validated.value === current) return;
+
+      result.changes.push({
+        id: `${trackId}:${field}`,
+        trackId,
+        trackLabel: `${track.Artist} - ${track.Name}`,
+        field,
+        before: currentRaw,
+        after: validated.value
+      });
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Fold accepted changes into new analyses per TrackID, starting from each track's current analysis.
+ */
+export const applySpreadsheetChanges = (tracks: RekordboxTrack[], changes: AttributeChange[]): Record<string, AIAnalysis> => {
+  const trackById = new Map(tracks.map(t => [t.TrackID, t]));
+  const analyses: Record<string, AIAnalysis> = {};
+  changes.forEach(change => {
+    const track = trackById.get(change.trackId);
+    if (!track) return;
+    const analysis: AIAnalysis = analyses[change.trackId] || { vibe: "Unknown", subGenre: "Unknown", situation: "Unknown", ...track.Analysis };
+    const column = change.field.replace(/^Analysis\./, '') as AnalysisDimension;
+    const updated: AIAnalysis = { ...analysis, [column]: change.after };
+
+    // A hand-picked tag becomes the certain top entry of its ranked list
+    const rankedField = RANKED_FIELDS[column];
+    if (rankedField) {
+      const others = (analysis[rankedField] || []).filter(t => t.value !== change.after && t.value !== analysis[column]);
+      updated[rankedField] = change.after === "Unknown" ? others : [{ value: change.after, confidence: 1 }, ...others];
+    }
+    analyses[change.trackId] = updated;
+  });
+  return analyses;
+};
+
+// The dimensions each track had an accepted change to, by TrackID
+export const editedDimensions = (changes: AttributeChange[]): Map<string, Set<AnalysisDimension>> => {
+  const edited = new Map<string, Set<AnalysisDimension>>();
+  changes.forEach(change => {
+    const dimensions = edited.get(change.trackId) || new Set<AnalysisDimension>();
+    dimensions.add(change.field.replace(/^Analysis\./, '') as AnalysisDimension);
+    edited.set(change.trackId, dimensions);
+  });
+  return edited;
+};
+
+/**
+ * The mapping for writing hand edits: only the fields an edited dimension maps to are written, and
+ * they may replace values the mapping would otherwise keep. Dimensions sharing such a field (e.g. the
+ * Comments tag block) are written with it; every other dimension is left alone.
+ */
+export const mappingForEdits = (mapping: FieldMapping, edited: Set<AnalysisDimension>): FieldMapping => {
+  const targets = new Set(Array.from(edited).map(dimension => mapping[dimension]?.target).filter(Boolean));
+  return Object.fromEntries(Object.entries(mapping).map(([dimension, rule]) => [
+    dimension,
+    targets.has(rule.target) ? { ...rule, overwrite: true } : { ...rule, target: '' }
+  ])) as FieldMapping;
+};
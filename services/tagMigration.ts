@@ -0,0 +1,108 @@
+import { RekordboxTrack, AIAnalysis, RankedTag, TagMigration, TaxonomyDimension, FieldWrite } from '../types';
+import { getTags, resolveTag, toTagKey } from './taxonomy';
+import { readCommentHashtags, rewriteCommentHashtags } from './parser';
+import { readTrackField, writeTrackField } from './fields';
+
+const HASHTAG_DIMENSIONS: TaxonomyDimension[] = ['vibe', 'subGenre', 'situation'];
+
+type Replacement = { dimension: TaxonomyDimension; to: string; split: boolean };
+
+const isCurrent = (dimension: TaxonomyDimension, tag: string) =>
+  getTags(dimension).some(t => toTagKey(t) === toTagKey(tag));
+
+// The current tag an outdated one maps to, or undefined if the tag is current or not covered by a rule
+const findReplacement = (dimensions: TaxonomyDimension[], tag: string): Replacement | undefined => {
+  if (dimensions.some(d => isCurrent(d, tag))) return undefined;
+  for (const dimension of dimensions) {
+    const resolved = resolveTag(dimension, tag);
+    if (resolved) return { dimension, to: resolved.tag, split: resolved.split };
+  }
+  return undefined;
+};
+
+const findGenreReplacement = (track: RekordboxTrack): Replacement | undefined => {
+  const genre = readTrackField(track, 'Genre').trim();
+  return genre ? findReplacement(['mainGenre'], genre) : undefined;
+};
+
+/**
+ * Outdated tags in comment hashtags (and main genres in the Genre field), grouped by old and new tag.
+ */
+export const findTagMigrations = (tracks: RekordboxTrack[]): TagMigration[] => {
+  const migrations = new Map<string, TagMigration>();
+  const record = (from: string, replacement: Replacement, trackId: string) => {
+    const key = `${replacement.dimension}:${toTagKey(from)}`;
+    const migration = migrations.get(key) || { dimension: replacement.dimension, from, to: replacement.to, split: replacement.split, trackIds: [] };
+    if (!migration.trackIds.includes(trackId)) migration.trackIds.push(trackId);
+    migrations.set(key, migration);
+  };
+
+  tracks.forEach(track => {
+    readCommentHashtags(readTrackField(track, 'Comments')).forEach(hashtag => {
+      const replacement = findReplacement(HASHTAG_DIMENSIONS, hashtag);
+      if (replacement) record(hashtag, replacement, track.TrackID);
+    });
+    const genreReplacement = findGenreReplacement(track);
+    if (genreReplacement) record(readTrackField(track, 'Genre').trim(), genreReplacement, track.TrackID);
+  });
+
+  return Array.from(migrations.values()).sort((a, b) => b.trackIds.length - a.trackIds.length);
+};
+
+/**
+ * Rewrite a track's outdated hashtags and main genre in the XML tree. Returns the writes made.
+ */
+export const migrateTrackTags = (track: RekordboxTrack): FieldWrite[] => {
+  const writes: FieldWrite[] = [];
+
+  const comments = readTrackField(track, 'Comments');
+  const replacements = new Map<string, string>();
+  readCommentHashtags(comments).forEach(hashtag => {
+    const replacement = findReplacement(HASHTAG_DIMENSIONS, hashtag);
+    if (replacement) replacements.set(hashtag.toLowerCase(), replacement.to);
+  });
+  const updatedComments = replacements.size > 0 ? rewriteCommentHashtags(comments, replacements) : comments;
+  if (updatedComments !== comments) {
+    writeTrackField(track, 'Comments', updatedComments);
+    writes.push({ field: 'Comments', before: comments, after: readTrackField(track, 'Comments') });
+  }
+
+  const genreReplacement = findGenreReplacement(track);
+  if (genreReplacement) {
+    const genre = readTrackField(track, 'Genre');
+    writeTrackField(track, 'Genre', genreReplacement.to);
+    writes.push({ field: 'Genre', before: genre, after: readTrackField(track, 'Genre') });
+  }
+
+  return writes;
+};
+
+const migrateValue = (dimension: TaxonomyDimension, value: string): string => {
+  if (!value || value === "Unknown") return value;
+  return resolveTag(dimension, value)?.tag || value;
+};
+
+// Merged tags can collapse onto the same value; the first (highest ranked) one is kept
+const migrateRanked = (dimension: TaxonomyDimension, ranked: RankedTag[]): RankedTag[] => {
+  const seen = new Set<string>();
+  return ranked
+    .map(t => ({ ...t, value: migrateValue(dimension, t.value) }))
+    .filter(t => !seen.has(t.value) && !!seen.add(t.value));
+};
+
+/**
+ * Map an analysis onto the active taxonomy. Returns the same object when nothing changed.
+ */
+export const migrateAnalysis = (analysis: AIAnalysis): AIAnalysis => {
+  const migrated: AIAnalysis = {
+    ...analysis,
+    vibe: migrateValue('vibe', analysis.vibe),
+    subGenre: migrateValue('subGenre', analysis.subGenre),
+    situation: migrateValue('situation', analysis.situation),
+    ...(analysis.mainGenre ? { mainGenre: migrateValue('mainGenre', analysis.mainGenre) } : {}),
+    ...(analysis.vibes ? { vibes: migrateRanked('vibe', analysis.vibes) } : {}),
+    ...(analysis.subGenres ? { subGenres: migrateRanked('subGenre', analysis.subGenres) } : {}),
+    ...(analysis.situations ? { situations: migrateRanked('situation', analysis.situations) } : {})
+  };
+  return JSON.stringify(migrated) === JSON.stringify(analysis) ? analysis : migrated;
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Taxonomy } from '../types';
+import { DEFAULT_TAXONOMY, resolveTag, upgradeTaxonomy } from './taxonomy';
+
+const taxonomy = (overrides: Partial<Taxonomy>): Taxonomy => ({ ...DEFAULT_TAXONOMY, ...overrides });
+
+describe('resolveTag', () => {
+  it('finds current tags by their hashtag key', () => {
+    expect(resolveTag('subGenre', 'drum&bass')).toEqual({ tag: 'Drum & Bass', split: false });
+    expect(resolveTag('situation', 'Peak Hour')).toEqual({ tag: 'Peak Hour', split: false });
+  });
+
+  it('follows the built-in rename of old tags', () => {
+    expect(resolveTag('vibe', 'Euphorric')).toEqual({ tag: 'Euphoric', split: false });
+  });
+
+  it('returns undefined for unknown tags', () => {
+    expect(resolveTag('vibe', 'NotATag')).toBeUndefined();
+    expect(resolveTag('subGenre', 'Euphorric')).toBeUndefined();
+  });
+
+  it('follows chains of rules, newest first', () => {
+    const chained = taxonomy({
+      vibe: ['Mellow'],
+      rules: [
+        { version: 3, type: 'rename', dimension: 'vibe', from: ['Chill'], to: ['Laid Back'] },
+        { version: 4, type: 'rename', dimension: 'vibe', from: ['Laid Back'], to: ['Mellow'] }
+      ]
+    });
+    expect(resolveTag('vibe', 'Chill', chained)).toEqual({ tag: 'Mellow', split: false });
+  });
+
+  it('falls through split targets that were removed since', () => {
+    const split = taxonomy({
+      vibe: ['Moody'],
+      rules: [{ version: 3, type: 'split', dimension: 'vibe', from: ['Dark'], to: ['Brooding', 'Moody'] }]
+    });
+    expect(resolveTag('vibe', 'Dark', split)).toEqual({ tag: 'Moody', split: true });
+  });
+
+  it('stops on rules that undo each other', () => {
+    const cyclic = taxonomy({
+      vibe: ['Groovy'],
+      rules: [
+        { version: 3, type: 'rename', dimension: 'vibe', from: ['A'], to: ['B'] },
+        { version: 4, type: 'rename', dimension: 'vibe', from: ['B'], to: ['A'] }
+      ]
+    });
+    expect(resolveTag('vibe', 'A', cyclic)).toBeUndefined();
+  });
+});
+
+describe('upgradeTaxonomy', () => {
+  it('falls back to the default for missing or incomplete taxonomies', () => {
+    expect(upgradeTaxonomy(undefined)).toBe(DEFAULT_TAXONOMY);
+    expect(upgradeTaxonomy({ vibe: ['Groovy'] })).toBe(DEFAULT_TAXONOMY);
+  });
+
+  it('leaves current taxonomies alone', () => {
+    const current = taxonomy({ vibe: ['Groovy'] });
+    expect(upgradeTaxonomy(current)).toBe(current);
+  });
+
+  it('dedupes version 1 lists and applies the built-in rules in place', () => {
+    const legacy = {
+      vibe: ['Groovy', 'Euphorric', 'groovy', 'Dark'],
+      subGenre: ['Tech House', 'Trap', 'Trap'],
+      situation: ['Peak Hour'],
+      mainGenre: ['House', 'Hip Hop']
+    };
+    const upgraded = upgradeTaxonomy(legacy);
+    expect(upgraded.vibe).toEqual(['Groovy', 'Euphoric', 'Dark']);
+    expect(upgraded.subGenre).toEqual(['Tech House', 'Trap']);
+    expect(upgraded.version).toBe(DEFAULT_TAXONOMY.version);
+    expect(upgraded.rules).toEqual(DEFAULT_TAXONOMY.rules);
+    expect(upgraded.genreParents).toEqual({ 'Tech House': 'House', 'Trap': 'Hip Hop' });
+  });
+
+  it('adds the default genre links, for its own tags only, to taxonomies saved before them', () => {
+    const { genreParents, ...saved } = taxonomy({ subGenre: ['Tech House', 'Drill'], mainGenre: ['House'] });
+    expect(upgradeTaxonomy(saved).genreParents).toEqual({ 'Tech House': 'House' });
+  });
+});
@@ -1,5 +1,7 @@
+import { Taxonomy, TaxonomyDimension, TaxonomyRule, TaxonomyRuleType } from '../types';
+
 export const VIBE_TAGS = [
-  "Euphorric", "Gritty", "Breezy", "Sultry", "Aggressive", 
+  "Euphoric", "Gritty", "Breezy", "Sultry", "Aggressive", 
   "Hypnotic", "Bouncy", "Soulful", "Nostalgic", "Trippy", 
   "Raw", "Cinematic", "Groovy", "Dark", "Cheesy"
 ];
@@ -21,7 +23,7 @@ export const MICRO_GENRE_TAGS = [
   "Glitch Hop", "Hardstyle", "Indie Dance", "Italo Disco", "Jersey Club", 
   "Latin Tech", "Liquid DnB", "Lo-Fi HipHop", "Melodic Techno", "Minimal", 
   "Moombahton", "Motown", "Neo Soul", "Nu Disco", "Progressive Trance", 
-  "Psytrance", "Reggaeton", "Synthwave", "Tech House", "Trap", 
+  "Psytrance", "Reggaeton", "Synthwave", "Tech House", 
   "Tribal House", "Tropical House", "Yacht Rock", "00s Pop", 
   "90s HipHop", "80s NewWave",
 
@@ -40,8 +42,261 @@ export const MICRO_GENRE_TAGS = [
   "Reggae", "Roots Reggae", "Ska", "Blues", "Country", "Folk", "Classical"
 ];
 
+// Which main genre each sub-genre belongs to (used to fill missing genres and nest playlists)
+const DEFAULT_GENRE_PARENTS: Record<string, string> = {
+  "Acid Jazz": "Jazz", "Afro House": "House", "Afrobeats": "Dance", "Amapiano": "House",
+  "Bass House": "House", "Big Room": "Electronic", "Boom Bap": "Hip Hop", "Chicago House": "House",
+  "Complextro": "Electronic", "Dancehall": "Reggae", "Deep Tech": "House", "Detroit Techno": "Techno",
+  "Disco Edit": "Disco", "Drum & Bass": "Electronic", "Dubstep": "Electronic", "Electro Swing": "Electronic",
+  "Eurodance": "Dance", "Future Bass": "Electronic", "Future House": "House", "G-House": "House",
+  "Garage / UKG": "Electronic", "Glitch Hop": "Electronic", "Hardstyle": "Electronic", "Indie Dance": "Dance",
+  "Italo Disco": "Disco", "Jersey Club": "Dance", "Latin Tech": "House", "Liquid DnB": "Electronic",
+  "Lo-Fi HipHop": "Hip Hop", "Melodic Techno": "Techno", "Minimal": "Techno", "Moombahton": "Latin",
+  "Motown": "Soul", "Neo Soul": "Soul", "Nu Disco": "Disco", "Progressive Trance": "Electronic",
+  "Psytrance": "Electronic", "Reggaeton": "Latin", "Synthwave": "Electronic", "Tech House": "House",
+  "Tribal House": "House", "Tropical House": "House", "Yacht Rock": "Rock", "00s Pop": "Pop",
+  "90s HipHop": "Hip Hop", "80s NewWave": "Alternative",
+  "Drill": "Hip Hop", "Grime": "Hip Hop", "Southern HipHop": "Hip Hop", "Gangsta Rap": "Hip Hop",
+  "Cloud Rap": "Hip Hop", "Conscious HipHop": "Hip Hop", "Jazz Rap": "Hip Hop", "Hyphy": "Hip Hop",
+  "Crunk": "Hip Hop", "Trap": "Hip Hop",
+  "Heavy Metal": "Rock", "Hard Rock": "Rock", "Thrash Metal": "Rock", "Classic Rock": "Rock",
+  "Alternative Rock": "Alternative", "Indie Rock": "Alternative", "Punk Rock": "Rock", "Pop Punk": "Rock",
+  "Grunge": "Alternative", "Industrial": "Alternative", "Nu Metal": "Rock", "Emo": "Alternative",
+  "Ska Punk": "Rock",
+  "Contemporary R&B": "R&B", "Slow Jams": "R&B", "New Jack Swing": "R&B", "Funk": "Funk",
+  "Soul": "Soul", "Hyperpop": "Pop", "Electropop": "Pop", "City Pop": "Pop", "K-Pop": "Pop",
+  "Latin Pop": "Latin", "Dembow": "Latin", "Baile Funk": "Latin", "Reggae": "Reggae",
+  "Roots Reggae": "Reggae", "Ska": "Reggae", "Blues": "Blues", "Country": "Country",
+  "Folk": "Folk", "Classical": "Classical"
+};
+
 export const SITUATION_TAGS = [
   "Warm Up", "Cocktail Hour", "Sunset Session", "Poolside", "Peak Hour", 
   "Festival Stage", "After Party", "Gym Workout", "Road Trip", "Date Night", 
   "Beach Club", "Radio Friendly", "Closing Set", "Transition Tool", "Crowd Control"
 ];
+
+export const TAXONOMY_DIMENSIONS: TaxonomyDimension[] = ['vibe', 'subGenre', 'situation', 'mainGenre'];
+
+export const TAXONOMY_RULE_TYPES: TaxonomyRuleType[] = ['rename', 'merge', 'split'];
+
+const TAXONOMY_VERSION = 2;
+
+// Version 2 fixed the "Euphorric" misspelling and folded the two "Trap" entries into one
+const BUILT_IN_RULES: TaxonomyRule[] = [
+  { version: 2, type: 'rename', dimension: 'vibe', from: ["Euphorric"], to: ["Euphoric"] }
+];
+
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  vibe: VIBE_TAGS,
+  subGenre: MICRO_GENRE_TAGS,
+  situation: SITUATION_TAGS,
+  mainGenre: MAIN_GENRE_TAGS,
+  version: TAXONOMY_VERSION,
+  rules: BUILT_IN_RULES,
+  genreParents: DEFAULT_GENRE_PARENTS
+};
+
+// Prompts, validation and comment parsing all read the active taxonomy; App replaces it when the user edits theirs
+let activeTaxonomy: Taxonomy = DEFAULT_TAXONOMY;
+
+export const getActiveTaxonomy = (): Taxonomy => activeTaxonomy;
+
+export const setActiveTaxonomy = (taxonomy: Taxonomy) => {
+  activeTaxonomy = taxonomy;
+};
+
+export const getTags = (dimension: TaxonomyDimension): string[] => activeTaxonomy[dimension];
+
+/**
+ * The main genre a sub-genre belongs to, or undefined if it has none. Old sub-genre names are resolved first.
+ */
+export const getMainGenreFor = (subGenre: string | undefined): string | undefined => {
+  if (!subGenre || subGenre === "Unknown") return undefined;
+  const current = resolveTag('subGenre', subGenre);
+  return current ? activeTaxonomy.genreParents[current.tag] : undefined;
+};
+
+// Drop links whose sub-genre or main genre is no longer in the taxonomy
+const pruneGenreParents = (taxonomy: Taxonomy, parents: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(parents).filter(([sub, main]) =>
+    taxonomy.subGenre.includes(sub) && taxonomy.mainGenre.includes(main)
+  ));
+
+/**
+ * Link a sub-genre to a main genre, or unlink it when mainGenre is undefined.
+ */
+export const setGenreParent = (taxonomy: Taxonomy, subGenre: string, mainGenre: string | undefined): Taxonomy => {
+  const genreParents = { ...taxonomy.genreParents };
+  if (mainGenre) genreParents[subGenre] = mainGenre;
+  else delete genreParents[subGenre];
+  return { ...taxonomy, genreParents };
+};
+
+/**
+ * Replace the tag lists, keeping the genre links consistent with them.
+ */
+export const withTags = (taxonomy: Taxonomy, dimension: TaxonomyDimension, tags: string[]): Taxonomy => {
+  const next = { ...taxonomy, [dimension]: tags };
+  return { ...next, genreParents: pruneGenreParents(next, taxonomy.genreParents) };
+};
+
+// How a tag is compared with hashtags read back from comments, e.g. "Drum & Bass" -> "drum&bass"
+export const toTagKey = (tag: string) => tag.toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Map a tag (or hashtag key) onto the current taxonomy, following migration rules for tags
+ * from older versions. Returns undefined if the tag is neither current nor covered by a rule.
+ */
+export const resolveTag = (
+  dimension: TaxonomyDimension,
+  tag: string,
+  taxonomy: Taxonomy = activeTaxonomy
+): { tag: string; split: boolean } | undefined => {
+  const visited = new Set<string>();
+  let split = false;
+
+  const resolve = (key: string): string | undefined => {
+    const current = taxonomy[dimension].find(t => toTagKey(t) === key);
+    if (current) return current;
+    if (visited.has(key)) return undefined; // Rules that undo each other
+    visited.add(key);
+
+    // The newest rule wins when a tag was migrated more than once
+    const rules = taxonomy.rules
+      .filter(r => r.dimension === dimension && r.from.some(f => toTagKey(f) === key))
+      .sort((a, b) => b.version - a.version);
+    for (const rule of rules) {
+      // Split targets are tried in order, so a removed default falls through to the next one
+      for (const target of rule.to) {
+        const resolved = resolve(toTagKey(target));
+        if (resolved) {
+          if (rule.type === 'split') split = true;
+          return resolved;
+        }
+      }
+    }
+    return undefined;
+  };
+
+  const resolved = resolve(toTagKey(tag));
+  return resolved ? { tag: resolved, split } : undefined;
+};
+
+/**
+ * Apply a rule to the tag lists and record it: the old tags are removed and the new ones
+ * take the place of the first of them. Does not bump the version.
+ */
+export const applyTaxonomyRule = (taxonomy: Taxonomy, rule: TaxonomyRule): Taxonomy => {
+  const tags = taxonomy[rule.dimension];
+  const fromKeys = new Set(rule.from.map(toTagKey));
+  const position = tags.findIndex(t => fromKeys.has(toTagKey(t)));
+  const kept = tags.filter(t => !fromKeys.has(toTagKey(t)));
+  const added = rule.to.filter(t => !findTag(t, kept));
+  kept.splice(position < 0 ? kept.length : position, 0, ...added);
+
+  // Genre links follow the rule: new sub-genres inherit the old one's main genre, and links to a renamed main genre move with it
+  const genreParents = { ...taxonomy.genreParents };
+  if (rule.dimension === 'subGenre') {
+    const parent = rule.from.map(f => genreParents[findTag(f, tags) || f]).find(Boolean);
+    if (parent) rule.to.forEach(t => { if (!genreParents[t]) genreParents[t] = parent; });
+  } else if (rule.dimension === 'mainGenre') {
+    Object.entries(genreParents).forEach(([sub, main]) => {
+      if (fromKeys.has(toTagKey(main))) genreParents[sub] = rule.to[0];
+    });
+  }
+
+  const next = { ...taxonomy, [rule.dimension]: kept, rules: [...taxonomy.rules, rule] };
+  return { ...next, genreParents: pruneGenreParents(next, genreParents) };
+};
+
+/**
+ * Bring a stored taxonomy up to date. Taxonomies saved before versioning count as version 1
+ * and receive the built-in rules.
+ */
+export const upgradeTaxonomy = (taxonomy: Partial<Taxonomy> | undefined): Taxonomy => {
+  if (!taxonomy || !TAXONOMY_DIMENSIONS.every(d => Array.isArray(taxonomy[d]))) return DEFAULT_TAXONOMY;
+  if (typeof taxonomy.version === 'number' && Array.isArray(taxonomy.rules)) {
+    if (taxonomy.genreParents) return taxonomy as Taxonomy;
+    // Saved before the genre hierarchy existed
+    const upgraded = taxonomy as Taxonomy;
+    return { ...upgraded, genreParents: pruneGenreParents(upgraded, DEFAULT_GENRE_PARENTS) };
+  }
+
+  // Version 1 lists could hold the same tag twice
+  const legacy = { version: TAXONOMY_VERSION, rules: [], genreParents: DEFAULT_GENRE_PARENTS } as unknown as Taxonomy;
+  TAXONOMY_DIMENSIONS.forEach(d => {
+    legacy[d] = taxonomy[d]!.filter((tag, i, list) => !findTag(tag, list.slice(0, i)));
+  });
+  legacy.genreParents = pruneGenreParents(legacy, DEFAULT_GENRE_PARENTS);
+  return BUILT_IN_RULES.reduce(applyTaxonomyRule, legacy);
+};
+
+// Tags are written to comments as hashtags with the spaces removed, and only these characters are read back
+export const isHashtagSafe = (tag: string): boolean => /^[A-Za-z0-9_\-&]+$/.test(tag.replace(/\s+/g, ''));
+
+/**
+ * Check a new or renamed tag against the rest of its list. Returns an error message, or undefined if it is valid.
+ */
+export const validateTagName = (tag: string, others: string[]): string | undefined => {
+  const trimmed = tag.trim();
+  if (!trimmed) return "Tag can't be empty";
+  if (trimmed.toLowerCase() === "unknown") return "\"Unknown\" is reserved";
+  if (/[\[\]#,]/.test(trimmed)) return "Tags can't contain [ ] # or commas";
+  if (findTag(trimmed, others)) return "Already in this list";
+  return undefined;
+};
+
+export const taxonomyToJSON = (taxonomy: Taxonomy): string => JSON.stringify(taxonomy, null, 2);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string' && v.trim() !== "");
+
+/**
+ * Parse an exported taxonomy file. Invalid and duplicate tags (and malformed rules) are dropped;
+ * throws if a dimension is missing or ends up empty. Files without a version are upgraded.
+ */
+export const parseTaxonomyJSON = (text: string): Taxonomy => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a valid JSON file");
+  }
+
+  const taxonomy = {} as Taxonomy;
+  TAXONOMY_DIMENSIONS.forEach(dimension => {
+    const list = data?.[dimension];
+    if (!Array.isArray(list)) throw new Error(`Missing "${dimension}" list`);
+
+    const tags: string[] = [];
+    list.forEach((tag: unknown) => {
+      if (typeof tag === 'string' && !validateTagName(tag, tags)) tags.push(tag.trim());
+    });
+    if (tags.length === 0) throw new Error(`"${dimension}" has no valid tags`);
+    taxonomy[dimension] = tags;
+  });
+
+  if (typeof data.version !== 'number') return upgradeTaxonomy(taxonomy);
+
+  taxonomy.version = Math.max(1, Math.floor(data.version));
+  taxonomy.rules = (Array.isArray(data.rules) ? data.rules : [])
+    .filter((r: any) =>
+      TAXONOMY_RULE_TYPES.includes(r?.type) && TAXONOMY_DIMENSIONS.includes(r?.dimension) &&
+      isStringList(r.from) && isStringList(r.to) && typeof r.version === 'number'
+    )
+    .map((r: any): TaxonomyRule => ({ version: r.version, type: r.type, dimension: r.dimension, from: r.from, to: r.to }));
+
+  const parents = data.genreParents && typeof data.genreParents === 'object' ? data.genreParents : DEFAULT_GENRE_PARENTS;
+  taxonomy.genreParents = pruneGenreParents(taxonomy, parents);
+  return taxonomy;
+};
+
+/**
+ * Find the canonical spelling of a tag in a taxonomy list (case-insensitive), or undefined if it is not in the list.
+ */
+export const findTag = (tag: string | undefined, allowed: string[]): string | undefined => {
+  if (!tag) return undefined;
+  const normalized = tag.trim().toLowerCase();
+  return allowed.find(t => t.toLowerCase() === normalized);
+};
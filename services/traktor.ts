@@ -0,0 +1,275 @@
+import { XMLBuilder } from 'fast-xml-parser';
+import { ParsedCollection, RekordboxTrack, CustomPlaylist, PlaylistNode } from '../types';
+import { extractAnalysisFromComments } from './parser';
+import { traktorDateToYear } from './fields';
+import { buildXmlDocument } from './xmlStream';
+import { groupTracksByAnalysis, groupSubGenresByMainGenre, playlistPath } from './utils';
+
+// Traktor MUSICAL_KEY values: 0-11 = C..B Major, 12-23 = Cm..Bm Minor
+// Mapped to Camelot so the dashboard key wheel works unchanged
+const TRAKTOR_KEY_TO_CAMELOT = [
+  "8B", "3B", "10B", "5B", "12B", "7B", "2B", "9B", "4B", "11B", "6B", "1B",
+  "5A", "12A", "7A", "2A", "9A", "4A", "11A", "6A", "1A", "8A", "3A", "10A"
+];
+
+// Traktor playlists are always written under this folder
+export const TRAKTOR_FOLDER_NAME = "CrateBatch";
+
+const getChild = (children: any[], name: string) =>
+  Array.isArray(children) ? children.find((n: any) => n[name]) : undefined;
+
+// Traktor's primary key for a track: VOLUME + DIR + FILE (DIR uses "/:" as separator)
+const buildPrimaryKey = (location: any): string => {
+  if (!location) return "";
+  return `${location['@_VOLUME'] || ""}${location['@_DIR'] || ""}${location['@_FILE'] || ""}`;
+};
+
+const buildFileLocation = (location: any): string => {
+  if (!location) return "";
+  const volume = location['@_VOLUME'] || "";
+  const dir = (location['@_DIR'] || "").replace(/\/:/g, '/');
+  const file = location['@_FILE'] || "";
+  // Windows volumes are drive letters ("C:"), macOS volumes are mounted under /Volumes
+  const prefix = /^[A-Za-z]:$/.test(volume) ? `/${volume}` : volume ? `/Volumes/${volume}` : "";
+  return `file://localhost${encodeURI(`${prefix}${dir}${file}`)}`;
+};
+
+const generateUUID = (): string => crypto.randomUUID().replace(/-/g, '');
+
+// Walks PLAYLISTS > $ROOT > SUBNODES into typed folder/playlist nodes (smartlists are skipped)
+const parseTraktorPlaylistTree = (nml: any[], tracks: RekordboxTrack[]): PlaylistNode[] => {
+  const playlistsNode = getChild(nml, 'PLAYLISTS');
+  const rootNode = getChild(playlistsNode?.PLAYLISTS, 'NODE');
+  if (!rootNode) return [];
+
+  // Playlists reference tracks by primary key, which is also their TrackID
+  const knownIds = new Set(tracks.map(t => t.TrackID));
+
+  const walk = (node: any, id: string): PlaylistNode | undefined => {
+    const attributes = node[':@'] || {};
+    const name = attributes['@_NAME'] || "Untitled";
+
+    if (attributes['@_TYPE'] === 'PLAYLIST') {
+      const playlist = getChild(node.NODE, 'PLAYLIST');
+      const entries = Array.isArray(playlist?.PLAYLIST) ? playlist.PLAYLIST : [];
+      const trackIds = entries
+        .map((e: any) => getChild(e.ENTRY, 'PRIMARYKEY')?.[':@']?.['@_KEY'])
+        .filter((key: string | undefined) => key && knownIds.has(key));
+      return { id, name, type: 'playlist', children: [], trackIds };
+    }
+
+    if (attributes['@_TYPE'] === 'FOLDER') {
+      const subnodes = getChild(node.NODE, 'SUBNODES')?.SUBNODES || [];
+      const children = subnodes
+        .filter((c: any) => c.NODE)
+        .map((c: any, i: number) => walk(c, `${id}/${i}`))
+        .filter(Boolean) as PlaylistNode[];
+      return { id, name, type: 'folder', children, trackIds: [] };
+    }
+
+    return undefined;
+  };
+
+  // The $ROOT folder itself is not shown, only its children
+  return walk(rootNode, 'root')?.children || [];
+};
+
+// Build the collection from an already parsed preserveOrder tree
+export const buildTraktorCollection = (parsedData: any): ParsedCollection => {
+  const root = parsedData?.find((node: any) => node.NML);
+  if (!root) throw new Error("Missing NML");
+
+  const collectionNode = getChild(root.NML, 'COLLECTION');
+  if (!collectionNode) throw new Error("Missing COLLECTION");
+
+  const tracks: RekordboxTrack[] = [];
+  const seenKeys = new Set<string>();
+
+  collectionNode.COLLECTION.forEach((child: any) => {
+    if (!child.ENTRY) return;
+
+    const attributes = child[':@'] || {};
+    const entryChildren = child.ENTRY;
+
+    const location = getChild(entryChildren, 'LOCATION')?.[':@'];
+    const info = getChild(entryChildren, 'INFO')?.[':@'] || {};
+    const tempo = getChild(entryChildren, 'TEMPO')?.[':@'] || {};
+    const musicalKey = getChild(entryChildren, 'MUSICAL_KEY')?.[':@'];
+
+    const cueCount = Array.isArray(entryChildren) ? entryChildren.filter((n: any) => n.CUE_V2).length : 0;
+
+    const keyIndex = musicalKey ? parseInt(musicalKey['@_VALUE'], 10) : NaN;
+    const tonality = TRAKTOR_KEY_TO_CAMELOT[keyIndex] || info['@_KEY'] || "";
+
+    // Traktor reports bitrate in bits per second
+    const bitRate = info['@_BITRATE'] ? Math.round(parseInt(info['@_BITRATE'], 10) / 1000).toString() : "0";
+
+    const comments = info['@_COMMENT'] || "";
+    let energy = "";
+    const energyMatch = comments.match(/Energy\s*:\s*(\d+)/i);
+    if (energyMatch) energy = energyMatch[1];
+
+    if (!energy && info['@_RANKING']) {
+      const r = parseInt(info['@_RANKING'], 10);
+      if (!isNaN(r) && r > 0) energy = Math.round(r / 51).toString();
+    }
+
+    // Traktor has no track IDs; playlists reference tracks by primary key, which also survives
+    // reordering the collection. Entries without a location fall back to their position
+    const primaryKey = buildPrimaryKey(location);
+    const trackId = primaryKey && !seenKeys.has(primaryKey) ? primaryKey : `#${tracks.length + 1}`;
+    seenKeys.add(primaryKey);
+
+    const fileName = location?.['@_FILE'] || "";
+    const extension = fileName.includes('.') ? fileName.split('.').pop()!.toUpperCase() : "";
+
+    tracks.push({
+      TrackID: trackId,
+      Name: attributes['@_TITLE'] || "Unknown Title",
+      Artist: attributes['@_ARTIST'] || "Unknown Artist",
+      AverageBpm: tempo['@_BPM'] ? parseFloat(tempo['@_BPM']).toFixed(2) : "0",
+      Tonality: tonality,
+      Year: traktorDateToYear(info['@_RELEASE_DATE'] || ""),
+      TotalTime: info['@_PLAYTIME'] || "0",
+      BitRate: bitRate,
+      Kind: extension ? `${extension} File` : "",
+      CueCount: cueCount,
+      Comments: comments,
+      Energy: energy,
+      Genre: info['@_GENRE'] || "",
+      Location: buildFileLocation(location),
+      Analysis: extractAnalysisFromComments(comments),
+      _traktorKey: primaryKey,
+      _rawNode: child,
+      _source: 'traktor'
+    });
+  });
+
+  return {
+    tracks,
+    count: tracks.length,
+    fullData: parsedData,
+    format: 'traktor',
+    playlists: parseTraktorPlaylistTree(root.NML, tracks)
+  };
+};
+
+export const generateTraktorPlaylists = (
+  fullData: any,
+  tracks: RekordboxTrack[],
+  duplicateIds: string[] = [],
+  customPlaylists: CustomPlaylist[] = [],
+  rootFolderName: string = TRAKTOR_FOLDER_NAME,
+  excludedPlaylists: Set<string> = new Set(),
+  confidenceThreshold: number = 0,
+  nestSubGenres: boolean = false
+) => {
+  const isExcluded = (...parts: string[]) => excludedPlaylists.has(playlistPath(rootFolderName, ...parts));
+
+  // 1. Group Data
+  const { vibes, subGenres, situations } = groupTracksByAnalysis(tracks, confidenceThreshold);
+  const keyById = new Map(tracks.map(t => [t.TrackID, t._traktorKey as string]));
+
+  // 2. Helpers for creating nodes
+  const createFolderNode = (name: string, children: any[] = []) => ({
+    NODE: [{
+      SUBNODES: children,
+      ':@': { '@_COUNT': children.length.toString() }
+    }],
+    ':@': { '@_TYPE': 'FOLDER', '@_NAME': name }
+  });
+
+  const createPlaylistNode = (name: string, trackIds: string[]) => {
+    const entries = trackIds
+      .map(id => keyById.get(id))
+      .filter(Boolean)
+      .map(key => ({
+        ENTRY: [{ PRIMARYKEY: [], ':@': { '@_TYPE': 'TRACK', '@_KEY': key } }]
+      }));
+    return {
+      NODE: [{
+        PLAYLIST: entries,
+        ':@': { '@_ENTRIES': entries.length.toString(), '@_TYPE': 'LIST', '@_UUID': generateUUID() }
+      }],
+      ':@': { '@_TYPE': 'PLAYLIST', '@_NAME': name }
+    };
+  };
+
+  const createSubFolderWithPlaylists = (folderName: string, map: Record<string, string[]>, parentPath: string[] = []) => {
+    const playlists = Object.keys(map).sort().filter(key => !isExcluded(...parentPath, folderName, key)).map(key =>
+      createPlaylistNode(key, map[key])
+    );
+    return createFolderNode(folderName, playlists);
+  };
+
+  const createSubGenreFolder = () => {
+    if (!nestSubGenres) return createSubFolderWithPlaylists("Sub-Genres", subGenres);
+    const nested = groupSubGenresByMainGenre(subGenres);
+    return createFolderNode("Sub-Genres", Object.keys(nested).sort().map(mainGenre =>
+      createSubFolderWithPlaylists(mainGenre, nested[mainGenre], ["Sub-Genres"])
+    ));
+  };
+
+  // 3. Build the CrateBatch Structure
+  const aiRootChildren: any[] = [
+    createSubFolderWithPlaylists("Vibes", vibes),
+    createSubGenreFolder(),
+    createSubFolderWithPlaylists("Situations", situations)
+  ];
+
+  const includedCustomPlaylists = customPlaylists.filter(cp => !isExcluded("SAVED_SEARCHES", cp.name));
+  if (includedCustomPlaylists.length > 0) {
+    const savedPlaylistsNodes = includedCustomPlaylists.map(cp => createPlaylistNode(cp.name, cp.trackIds));
+    aiRootChildren.push(createFolderNode("SAVED_SEARCHES", savedPlaylistsNodes));
+  }
+
+  if (duplicateIds.length > 0 && !isExcluded("[POSSIBLE DUPLICATES]")) {
+    aiRootChildren.unshift(createPlaylistNode("[POSSIBLE DUPLICATES]", duplicateIds));
+  }
+
+  const aiRootNode = createFolderNode(rootFolderName, aiRootChildren);
+
+  // 4. Inject into fullData under $ROOT
+  const nml = fullData.find((n: any) => n.NML)?.NML;
+  if (!nml) return;
+
+  let playlistsNode = getChild(nml, 'PLAYLISTS');
+  if (!playlistsNode) {
+    playlistsNode = { PLAYLISTS: [] };
+    nml.push(playlistsNode);
+  }
+
+  let rootNode = getChild(playlistsNode.PLAYLISTS, 'NODE');
+  if (!rootNode) {
+    rootNode = createFolderNode("$ROOT", []);
+    playlistsNode.PLAYLISTS.push(rootNode);
+  }
+
+  let subnodes = getChild(rootNode.NODE, 'SUBNODES');
+  if (!subnodes) {
+    subnodes = { SUBNODES: [], ':@': { '@_COUNT': '0' } };
+    rootNode.NODE.push(subnodes);
+  }
+
+  const children = subnodes.SUBNODES;
+  const existingIndex = children.findIndex((n: any) => n.NODE && n[':@']?.['@_NAME'] === rootFolderName);
+  if (existingIndex >= 0) {
+    children.splice(existingIndex, 1);
+  }
+  children.push(aiRootNode);
+
+  if (!subnodes[':@']) subnodes[':@'] = {};
+  subnodes[':@']['@_COUNT'] = children.length.toString();
+};
+
+export const exportTraktorNML = (fullData: any): string => {
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    preserveOrder: true,
+    format: true,
+    suppressBooleanAttributes: false
+  });
+
+  return buildXmlDocument(builder, fullData, '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>');
+};
@@ -0,0 +1,125 @@
+import { BatchUsage, UsageMode, UsageRecord } from '../types';
+import { getActiveAIProvider } from './aiProviders';
+import { loadUsageLedger, saveUsageLedger } from './sessionStore';
+import { toCSV } from './utils';
+
+// Every AI call's usage, folded into one row per day, job, mode and model.
+// The monthly budget and the usage screen both read from here.
+
+export interface UsageJob {
+  id: string;
+  label: string;
+}
+
+export interface UsagePeriod {
+  period: string; // "2026-10-19" or "2026-10"
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  searchQueries: number;
+  cost: number;
+  byModel: Record<string, number>; // Cost per model
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const localDay = (date: Date = new Date()) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export interface UsageLedgerStore {
+  load: () => Promise<UsageRecord[]>;
+  save: (changed: UsageRecord[], all: UsageRecord[]) => Promise<void>;
+}
+
+// The app persists through the session store; the CLI swaps in a JSON file
+let store: UsageLedgerStore = { load: loadUsageLedger, save: saveUsageLedger };
+
+let ledger: Promise<Map<string, UsageRecord>> | null = null;
+let pendingSave: Promise<void> = Promise.resolve();
+
+const getLedger = () => {
+  if (!ledger) {
+    ledger = store.load()
+      .catch(e => {
+        console.error("Failed to load usage ledger", e);
+        return [] as UsageRecord[];
+      })
+      .then(records => new Map(records.map(r => [r.key, r])));
+  }
+  return ledger;
+};
+
+/**
+ * Use a different place to persist the ledger. Rows already loaded from the old store are dropped.
+ */
+export const setUsageLedgerStore = (next: UsageLedgerStore) => {
+  store = next;
+  ledger = null;
+};
+
+export const loadUsage = async (): Promise<UsageRecord[]> => Array.from((await getLedger()).values());
+
+/**
+ * Add one response's usage to the ledger. Saves are queued so rows never go backwards.
+ */
+export const recordUsage = async (job: UsageJob, mode: UsageMode, usage: BatchUsage) => {
+  if (!usage.models?.length) return;
+  const records = await getLedger();
+  const provider = getActiveAIProvider().id;
+  const day = localDay();
+  const changed: UsageRecord[] = [];
+
+  usage.models.forEach(m => {
+    const key = [day, job.id, mode, m.model].join('|');
+    const prev = records.get(key);
+    const record: UsageRecord = {
+      key, day, mode, provider,
+      jobId: job.id,
+      jobLabel: job.label,
+      model: m.model,
+      requests: (prev?.requests || 0) + m.requests,
+      inputTokens: (prev?.inputTokens || 0) + m.inputTokens,
+      outputTokens: (prev?.outputTokens || 0) + m.outputTokens,
+      thinkingTokens: (prev?.thinkingTokens || 0) + m.thinkingTokens,
+      searchQueries: (prev?.searchQueries || 0) + m.searchQueries,
+      cost: (prev?.cost || 0) + m.cost
+    };
+    records.set(key, record);
+    changed.push(record);
+  });
+
+  pendingSave = pendingSave
+    .then(() => store.save(changed, Array.from(records.values())))
+    .catch(e => console.error("Failed to save usage ledger", e));
+  await pendingSave;
+};
+
+export const getMonthSpend = async (): Promise<number> => {
+  const month = localDay().slice(0, 7);
+  return (await loadUsage()).filter(r => r.day.startsWith(month)).reduce((sum, r) => sum + r.cost, 0);
+};
+
+/**
+ * Totals per day or per month, newest first.
+ */
+export const summarizeUsage = (records: UsageRecord[], by: 'day' | 'month'): UsagePeriod[] => {
+  const periods = new Map<string, UsagePeriod>();
+  records.forEach(r => {
+    const period = by === 'day' ? r.day : r.day.slice(0, 7);
+    const total = periods.get(period) || { period, requests: 0, inputTokens: 0, outputTokens: 0, searchQueries: 0, cost: 0, byModel: {} };
+    total.requests += r.requests;
+    total.inputTokens += r.inputTokens;
+    total.outputTokens += r.outputTokens;
+    total.searchQueries += r.searchQueries;
+    total.cost += r.cost;
+    total.byModel[r.model] = (total.byModel[r.model] || 0) + r.cost;
+    periods.set(period, total);
+  });
+  return Array.from(periods.values()).sort((a, b) => b.period.localeCompare(a.period));
+};
+
+export const usageToCSV = (records: UsageRecord[]): string => {
+  const rows: (string | number)[][] = [["Date", "Job", "Mode", "Provider", "Model", "Requests", "Input Tokens", "Output Tokens", "Thinking Tokens", "Search Queries", "Cost USD"]];
+  [...records]
+    .sort((a, b) => a.day.localeCompare(b.day) || a.jobId.localeCompare(b.jobId))
+    .forEach(r => rows.push([r.day, r.jobLabel, r.mode, r.provider, r.model, r.requests, r.inputTokens, r.outputTokens, r.thinkingTokens, r.searchQueries, r.cost.toFixed(6)]));
+  return toCSV(rows);
+};
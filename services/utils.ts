@@ -1,4 +1,5 @@
-import { RekordboxTrack, LibraryStats, DuplicateGroup, KeyDistItem } from '../types';
+import { RekordboxTrack, LibraryStats, DuplicateGroup, KeyDistItem, AIAnalysis, RankedTag } from '../types';
+import { findTag, getTags, getMainGenreFor } from './taxonomy';
 
 export const chunkArray = <T>(array: T[], size: number): T[][] => {
   const chunked: T[][] = [];
@@ -11,55 +12,164 @@ export const chunkArray = <T>(array: T[], size: number): T[][] => {
 export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 /**
- * Execute tasks with limited concurrency
+ * Serialize rows to CSV, quoting values that contain separators, quotes or line breaks
  */
-export const runConcurrent = async <T>(
-  tasks: (() => Promise<T>)[],
-  concurrency: number,
-  delayBetweenTasks: number = 0
-): Promise<void> => {
-  const queue = [...tasks];
-  
-  const worker = async () => {
-    while (queue.length > 0) {
-      const task = queue.shift();
-      if (task) {
-        try {
-          await task();
-        } catch (e) {
-          console.error("Task failed in concurrent runner", e);
-        }
-        if (delayBetweenTasks > 0 && queue.length > 0) {
-            await sleep(delayBetweenTasks);
-        }
-      }
+export const toCSV = (rows: (string | number)[][]): string => {
+  const escape = (value: string | number) => {
+    const str = String(value ?? "");
+    return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  return rows.map(row => row.map(escape).join(',')).join('\n');
+};
+
+/**
+ * Parse CSV text into rows. Handles quoted values with embedded separators, quotes and line breaks.
+ */
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let inQuotes = false;
+  // Spreadsheet apps often prepend a byte order mark
+  const input = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (inQuotes) {
+      if (c === '"' && input[i + 1] === '"') { value += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else value += c;
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(value); value = "";
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++;
+      row.push(value); value = "";
+      rows.push(row); row = [];
+    } else {
+      value += c;
     }
+  }
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter(r => r.some(v => v.trim() !== ""));
+};
+
+/**
+ * Trigger a browser download for generated text content
+ */
+export const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a'); a.href = url; a.download = filename; a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Path of a generated playlist (e.g. "AI_GENERATED/Vibes/Groovy"), used for export preview exclusions
+export const playlistPath = (...parts: string[]) => parts.join('/');
+
+/**
+ * Groups TrackIDs by their AI Analysis dimensions (used for smart playlist generation)
+ */
+export type TagDimension = 'vibe' | 'subGenre' | 'situation';
+
+const RANKED_FIELDS: Record<TagDimension, 'vibes' | 'subGenres' | 'situations'> = {
+  vibe: 'vibes',
+  subGenre: 'subGenres',
+  situation: 'situations'
+};
+
+/**
+ * Tags of one dimension at or above the confidence threshold, highest first.
+ * Analyses without a ranked list (older results, tags read from comments) count their single value as certain.
+ */
+export const getRankedTags = (analysis: AIAnalysis | undefined, dimension: TagDimension, threshold: number = 0): RankedTag[] => {
+  if (!analysis) return [];
+  const ranked = analysis[RANKED_FIELDS[dimension]];
+  const tags = ranked && ranked.length > 0 ? ranked : [{ value: analysis[dimension], confidence: 1 }];
+  // The primary tag always counts; secondary tags must clear the threshold
+  return tags.filter((t, i) => t.value && t.value !== "Unknown" && (i === 0 || t.confidence >= threshold));
+};
+
+export const hasTag = (analysis: AIAnalysis | undefined, dimension: TagDimension, value: string, threshold: number = 0): boolean =>
+  getRankedTags(analysis, dimension, threshold).some(t => t.value === value);
+
+// A track is placed in every playlist whose tag clears the threshold
+export const groupTracksByAnalysis = (tracks: RekordboxTrack[], confidenceThreshold: number = 0) => {
+  const vibes: Record<string, string[]> = {};
+  const subGenres: Record<string, string[]> = {};
+  const situations: Record<string, string[]> = {};
+
+  const addTo = (groups: Record<string, string[]>, track: RekordboxTrack, dimension: TagDimension) => {
+    getRankedTags(track.Analysis, dimension, confidenceThreshold).forEach(({ value }) => {
+      if (!groups[value]) groups[value] = [];
+      groups[value].push(track.TrackID);
+    });
   };
 
-  const workers = Array(Math.min(tasks.length, concurrency))
-    .fill(null)
-    .map(() => worker());
-    
-  await Promise.all(workers);
+  tracks.forEach(t => {
+    if (!t.Analysis) return;
+    addTo(vibes, t, 'vibe');
+    addTo(subGenres, t, 'subGenre'); // AI Generated
+    addTo(situations, t, 'situation');
+  });
+
+  return { vibes, subGenres, situations };
+};
+
+/**
+ * The sub-genre a track belongs to: its analysed sub-genre, or its Genre field if that names a sub-genre.
+ */
+export const trackSubGenre = (track: RekordboxTrack): string | undefined => {
+  const analysed = track.Analysis?.subGenre;
+  if (analysed && analysed !== "Unknown") return analysed;
+  return findTag(track.Genre, getTags('subGenre'));
+};
+
+/**
+ * The main genre a track rolls up to. A Genre field naming a sub-genre counts as that sub-genre's main genre;
+ * any other Genre text is kept (title-cased), and an empty Genre falls back to the analysed sub-genre's parent.
+ */
+export const trackMainGenre = (track: RekordboxTrack): string => {
+  const genre = (track.Genre || "").trim();
+  if (!genre) return getMainGenreFor(track.Analysis?.subGenre) || "Unknown";
+  const mainGenre = findTag(genre, getTags('mainGenre')) || getMainGenreFor(findTag(genre, getTags('subGenre')));
+  if (mainGenre) return mainGenre;
+  return genre.split(' ').map((w: string) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ');
+};
+
+// Sub-genre playlists grouped under their main genre; sub-genres without one go under "Other"
+export const groupSubGenresByMainGenre = (subGenres: Record<string, string[]>): Record<string, Record<string, string[]>> => {
+  const nested: Record<string, Record<string, string[]>> = {};
+  Object.entries(subGenres).forEach(([subGenre, ids]) => {
+    const mainGenre = getMainGenreFor(subGenre) || "Other";
+    if (!nested[mainGenre]) nested[mainGenre] = {};
+    nested[mainGenre][subGenre] = ids;
+  });
+  return nested;
 };
 
 /**
  * Finds duplicates based on fuzzy name matching and strict duration checking.
  * Returns both the list of IDs (for counting) and the Groups (for UI review).
  */
+// Normalized artist + title, shared by duplicate detection and the analysis cache
+export const trackFingerprint = (track: RekordboxTrack): string => {
+  const normalize = (str: string) => (str || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+  return normalize(track.Artist) + normalize(track.Name);
+};
+
 export const findDuplicates = (tracks: RekordboxTrack[]): { ids: string[], groups: DuplicateGroup[], duplicateCount: number } => {
   const fingerprintMap: Record<string, RekordboxTrack[]> = {};
   const duplicateIds = new Set<string>();
   const duplicateGroups: DuplicateGroup[] = [];
 
-  // Helper to normalize strings
-  const normalize = (str: string) => (str || "").toLowerCase().replace(/[^a-z0-9]/g, "");
-
   // 1. Group by Fingerprint
   tracks.forEach(t => {
-    const artist = normalize(t.Artist);
-    const title = normalize(t.Name);
-    const fingerprint = artist + title;
+    const fingerprint = trackFingerprint(t);
 
     if (!fingerprint) return;
 
@@ -122,8 +232,9 @@ export const findDuplicates = (tracks: RekordboxTrack[]): { ids: string[], group
   };
 };
 
-export const calculateLibraryStats = (tracks: RekordboxTrack[]): LibraryStats => {
+export const calculateLibraryStats = (tracks: RekordboxTrack[], confidenceThreshold: number = 0): LibraryStats => {
   const genreCounts: Record<string, number> = {};
+  const subGenreCounts: Record<string, Record<string, number>> = {};
   const vibeCounts: Record<string, number> = {};
   const situationCounts: Record<string, number> = {};
   const yearCounts: Record<string, number> = {};
@@ -136,29 +247,27 @@ export const calculateLibraryStats = (tracks: RekordboxTrack[]): LibraryStats =>
   const { ids: duplicateIds, groups: duplicateGroups, duplicateCount } = findDuplicates(tracks);
 
   tracks.forEach((track) => {
-    // 1. Genre Distribution
-    let genre = track.Genre ? track.Genre.trim() : "Unknown";
+    // 1. Genre Distribution (sub-genres roll up into their main genre)
     if (!track.Genre || track.Genre.trim() === "") {
         missingGenreCount++;
     }
     
-    if (genre !== "Unknown") {
-      genre = genre.split(' ').map((w: string) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
-    }
-    
+    const genre = trackMainGenre(track);
     genreCounts[genre] = (genreCounts[genre] || 0) + 1;
 
-    // 2. Vibe Distribution
-    if (track.Analysis?.vibe && track.Analysis.vibe !== "Unknown") {
-      const vibe = track.Analysis.vibe;
-      vibeCounts[vibe] = (vibeCounts[vibe] || 0) + 1;
-    }
+    const subGenre = trackSubGenre(track) || "Unsorted";
+    if (!subGenreCounts[genre]) subGenreCounts[genre] = {};
+    subGenreCounts[genre][subGenre] = (subGenreCounts[genre][subGenre] || 0) + 1;
+
+    // 2. Vibe Distribution (a track counts once for every vibe it carries)
+    getRankedTags(track.Analysis, 'vibe', confidenceThreshold).forEach(({ value }) => {
+      vibeCounts[value] = (vibeCounts[value] || 0) + 1;
+    });
 
     // 3. Situation Distribution (Context)
-    if (track.Analysis?.situation && track.Analysis.situation !== "Unknown") {
-      const situation = track.Analysis.situation;
-      situationCounts[situation] = (situationCounts[situation] || 0) + 1;
-    }
+    getRankedTags(track.Analysis, 'situation', confidenceThreshold).forEach(({ value }) => {
+      situationCounts[value] = (situationCounts[value] || 0) + 1;
+    });
 
     // 4. Missing Data (Year) & Year Distribution
     const yearRaw = track.Year || track.Analysis?.year || "0";
@@ -187,6 +296,14 @@ export const calculateLibraryStats = (tracks: RekordboxTrack[]): LibraryStats =>
     .sort((a, b) => b.value - a.value)
     .slice(0, 10); 
 
+  const subGenreDistribution: Record<string, { name: string; value: number }[]> = {};
+  genreDistribution.forEach(({ name }) => {
+    subGenreDistribution[name] = Object.entries(subGenreCounts[name] || {})
+      .map(([sub, value]) => ({ name: sub, value }))
+      .sort((a, b) => b.value - a.value)
+      .slice(0, 10);
+  });
+
   // Vibes
   const vibeDistribution = Object.entries(vibeCounts)
     .map(([name, value]) => ({ name, value }))
@@ -218,7 +335,7 @@ export const calculateLibraryStats = (tracks: RekordboxTrack[]): LibraryStats =>
   // Library Score Calculation
   const total = tracks.length;
   if (total === 0) return {
-    genreDistribution: [], vibeDistribution: [], situationDistribution: [], yearDistribution: [], 
+    genreDistribution: [], subGenreDistribution: {}, vibeDistribution: [], situationDistribution: [], yearDistribution: [], 
     keyDistribution: { major: [], minor: [] }, libraryScore: 0,
     missingData: { missingYear: 0, missingGenre: 0, totalTracks: 0, duplicateCount: 0, duplicateGroups: [] }
   };
@@ -238,6 +355,7 @@ export const calculateLibraryStats = (tracks: RekordboxTrack[]): LibraryStats =>
 
   return {
     genreDistribution,
+    subGenreDistribution,
     vibeDistribution,
     situationDistribution,
     yearDistribution,
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { createXmlTreeBuilder, buildXmlDocument } from './xmlStream';
+
+const LIBRARY = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE DJ_PLAYLISTS [ <!ELEMENT DJ_PLAYLISTS ANY> ]>
+<DJ_PLAYLISTS Version="1.0.0">
+  <!-- exported -->
+  <PRODUCT Name="rekordbox" Version="6.8.0"/>
+  <COLLECTION Entries="2">
+    <TRACK TrackID="1" Name="Ça &amp; Va" Comments="a &gt; b [CB: #Groovy]"/>
+    <TRACK TrackID="2" Name='Single "quoted"' Location="file://localhost/a%20b.mp3"></TRACK>
+  </COLLECTION>
+  <NOTE><![CDATA[<raw> & text]]></NOTE>
+</DJ_PLAYLISTS>`;
+
+const parseInChunks = (text: string, size: number) => {
+  const builder = createXmlTreeBuilder();
+  for (let i = 0; i < text.length; i += size) builder.write(text.slice(i, i + size));
+  return builder.end();
+};
+
+const newBuilder = () => new XMLBuilder({ ignoreAttributes: false, attributeNamePrefix: "@_", preserveOrder: true, format: true, suppressBooleanAttributes: false });
+
+const withoutDoctype = (tree: any[]) => tree.filter(node => !node['!DOCTYPE']);
+
+describe('createXmlTreeBuilder', () => {
+  it('builds the same tree as fast-xml-parser', () => {
+    const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: "@_", preserveOrder: true, parseAttributeValue: false, trimValues: true, processEntities: true });
+    const plain = LIBRARY.replace(/<!DOCTYPE[^\]]*\]>\n/, '').replace(/<!--.*-->\n/, '').replace(/<NOTE>.*<\/NOTE>\n/, '');
+    expect(parseInChunks(plain, 1 << 20)).toEqual(parser.parse(plain));
+  });
+
+  it('gives the same tree however the document is split', () => {
+    const whole = parseInChunks(LIBRARY, LIBRARY.length);
+    [1, 2, 7, 64].forEach(size => expect(parseInChunks(LIBRARY, size)).toEqual(whole));
+  });
+
+  it('decodes entities and keeps CDATA as text', () => {
+    const tree = parseInChunks(LIBRARY, 5);
+    const root = tree.find(node => node.DJ_PLAYLISTS).DJ_PLAYLISTS;
+    const tracks = root.find((node: any) => node.COLLECTION).COLLECTION;
+    expect(tracks[0][':@']['@_Name']).toBe('Ça & Va');
+    expect(tracks[0][':@']['@_Comments']).toBe('a > b [CB: #Groovy]');
+    expect(tracks[1][':@']['@_Name']).toBe('Single "quoted"');
+    expect(root.find((node: any) => node.NOTE).NOTE).toEqual([{ '#text': '<raw> & text' }]);
+  });
+
+  it('keeps the DOCTYPE, internal subset included', () => {
+    const tree = parseInChunks(LIBRARY, 3);
+    expect(tree.find(node => node['!DOCTYPE'])).toEqual({ '!DOCTYPE': [{ '#text': ' DJ_PLAYLISTS [ <!ELEMENT DJ_PLAYLISTS ANY> ]' }] });
+  });
+
+  it('counts collection entries as they arrive', () => {
+    const builder = createXmlTreeBuilder();
+    const cut = LIBRARY.indexOf('<TRACK TrackID="2"');
+    builder.write(LIBRARY.slice(0, cut));
+    expect(builder.collectionEntries()).toBe(1);
+    builder.write(LIBRARY.slice(cut));
+    expect(builder.collectionEntries()).toBe(2);
+  });
+
+  it('rejects mismatched and unclosed tags', () => {
+    expect(() => parseInChunks('<A><B></A>', 4)).toThrow('Unexpected closing tag </A>');
+    expect(() => parseInChunks('<A><B/>', 4)).toThrow('Unclosed tag <A>');
+  });
+});
+
+describe('buildXmlDocument', () => {
+  it('writes the DOCTYPE back after the declaration', () => {
+    const tree = parseInChunks(LIBRARY, 1 << 20);
+    const xml = buildXmlDocument(newBuilder(), tree, '<?xml version="1.0"?>');
+    const lines = xml.split('\n');
+    expect(lines[0]).toBe('<?xml version="1.0" encoding="UTF-8"?>');
+    expect(lines[1]).toBe('<!DOCTYPE DJ_PLAYLISTS [ <!ELEMENT DJ_PLAYLISTS ANY> ]>');
+    expect(lines[2]).toBe('<DJ_PLAYLISTS Version="1.0.0">');
+  });
+
+  it('round-trips through the parser', () => {
+    const tree = parseInChunks(LIBRARY, 1 << 20);
+    const xml = buildXmlDocument(newBuilder(), tree, '');
+    expect(parseInChunks(xml, 10)).toEqual(tree);
+  });
+
+  it('adds the default declaration only when the tree has none', () => {
+    const tree = withoutDoctype(parseInChunks('<!DOCTYPE NML><NML VERSION="19"/>', 100));
+    expect(buildXmlDocument(newBuilder(), tree, '<?xml version="1.0"?>').startsWith('<?xml version="1.0"?>\n<NML')).toBe(true);
+    const withDoctype = parseInChunks('<!DOCTYPE NML><NML VERSION="19"/>', 100);
+    expect(buildXmlDocument(newBuilder(), withDoctype, '<?xml version="1.0"?>').startsWith('<?xml version="1.0"?>\n<!DOCTYPE NML>\n<NML')).toBe(true);
+  });
+});
@@ -0,0 +1,197 @@
+import type { XMLBuilder } from 'fast-xml-parser';
+
+// Incremental XML parser for very large library files.
+// Builds the same preserveOrder tree shape as fast-xml-parser
+// ({ TAG: children[], ':@': { '@_attr': value } }) so XMLBuilder can round-trip it unchanged.
+
+// XMLBuilder can't write a DOCTYPE, so it is kept as { '!DOCTYPE': [{ '#text': ' NML SYSTEM "..."' }] }
+// and put back by buildXmlDocument
+const DOCTYPE_NODE = '!DOCTYPE';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<', gt: '>', amp: '&', quot: '"', apos: "'"
+};
+
+const decodeXmlEntities = (str: string): string => {
+  if (str.indexOf('&') === -1) return str;
+  return str.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity];
+  });
+};
+
+const ATTRIBUTE_REGEX = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const parseAttributes = (source: string): Record<string, string> | undefined => {
+  let attributes: Record<string, string> | undefined;
+  ATTRIBUTE_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_REGEX.exec(source))) {
+    if (!attributes) attributes = {};
+    attributes[`@_${match[1]}`] = decodeXmlEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+};
+
+// Finds the '>' that closes a tag, skipping over quoted attribute values
+const findTagEnd = (buffer: string, from: number): number => {
+  let quote = '';
+  for (let i = from; i < buffer.length; i++) {
+    const c = buffer[i];
+    if (quote) {
+      if (c === quote) quote = '';
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '>') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+export interface XmlTreeBuilder {
+  write: (chunk: string) => void;
+  end: () => any[];
+  // Number of direct children of COLLECTION seen so far (TRACK / ENTRY nodes)
+  collectionEntries: () => number;
+}
+
+/**
+ * Create a parser that accepts the document in arbitrary chunks.
+ * Incomplete tags at the end of a chunk are kept until the next write.
+ */
+export const createXmlTreeBuilder = (): XmlTreeBuilder => {
+  const root: any[] = [];
+  const stack: { name: string; children: any[] }[] = [];
+  let buffer = "";
+  let entryCount = 0;
+
+  const currentChildren = () => stack.length > 0 ? stack[stack.length - 1].children : root;
+
+  const pushText = (raw: string) => {
+    const text = decodeXmlEntities(raw.trim());
+    if (text) currentChildren().push({ '#text': text });
+  };
+
+  const process = (isFinal: boolean) => {
+    let pos = 0;
+
+    while (pos < buffer.length) {
+      const lt = buffer.indexOf('<', pos);
+      if (lt === -1) {
+        // Trailing text may continue in the next chunk
+        if (isFinal) {
+          pushText(buffer.slice(pos));
+          pos = buffer.length;
+        }
+        break;
+      }
+      if (lt > pos) {
+        pushText(buffer.slice(pos, lt));
+        pos = lt;
+      }
+
+      if (buffer.startsWith('<!--', lt)) {
+        const end = buffer.indexOf('-->', lt + 4);
+        if (end === -1) break;
+        pos = end + 3;
+      } else if (buffer.startsWith('<![CDATA[', lt)) {
+        const end = buffer.indexOf(']]>', lt + 9);
+        if (end === -1) break;
+        const text = buffer.slice(lt + 9, end);
+        if (text) currentChildren().push({ '#text': text });
+        pos = end + 3;
+      } else if (buffer.startsWith('<?', lt)) {
+        const end = buffer.indexOf('?>', lt + 2);
+        if (end === -1) break;
+        const inner = buffer.slice(lt + 2, end);
+        const name = inner.match(/^[^\s?]+/)?.[0] || "";
+        const node: any = { [`?${name}`]: [{ '#text': '' }] };
+        const attributes = parseAttributes(inner.slice(name.length));
+        if (attributes) node[':@'] = attributes;
+        currentChildren().push(node);
+        pos = end + 2;
+      } else if (buffer.startsWith('<!DOCTYPE', lt)) {
+        // An internal subset may contain '>' of its own
+        let end = findTagEnd(buffer, lt + 9);
+        const subset = buffer.indexOf('[', lt);
+        if (subset !== -1 && (end === -1 || subset < end)) {
+          const subsetEnd = buffer.indexOf(']', subset);
+          end = subsetEnd === -1 ? -1 : buffer.indexOf('>', subsetEnd);
+        }
+        if (end === -1) break;
+        currentChildren().push({ [DOCTYPE_NODE]: [{ '#text': buffer.slice(lt + 9, end) }] });
+        pos = end + 1;
+      } else if (buffer.startsWith('<!', lt)) {
+        // Other declarations are not kept
+        const end = findTagEnd(buffer, lt + 2);
+        if (end === -1) break;
+        pos = end + 1;
+      } else if (buffer.startsWith('</', lt)) {
+        const end = buffer.indexOf('>', lt + 2);
+        if (end === -1) break;
+        const name = buffer.slice(lt + 2, end).trim();
+        const open = stack.pop();
+        if (!open || open.name !== name) {
+          throw new Error(`Unexpected closing tag </${name}>`);
+        }
+        pos = end + 1;
+      } else {
+        const end = findTagEnd(buffer, lt + 1);
+        if (end === -1) break;
+        const inner = buffer.slice(lt + 1, end);
+        const isSelfClosing = inner.endsWith('/');
+        const name = inner.match(/^[^\s/>]+/)?.[0];
+        if (!name) throw new Error(`Malformed tag at "${buffer.slice(lt, lt + 40)}"`);
+
+        const children: any[] = [];
+        const node: any = { [name]: children };
+        const attributes = parseAttributes(inner.slice(name.length, isSelfClosing ? -1 : undefined));
+        if (attributes) node[':@'] = attributes;
+
+        if (stack.length > 0 && stack[stack.length - 1].name === 'COLLECTION') entryCount++;
+        currentChildren().push(node);
+        if (!isSelfClosing) stack.push({ name, children });
+        pos = end + 1;
+      }
+    }
+
+    buffer = buffer.slice(pos);
+  };
+
+  return {
+    write: (chunk: string) => {
+      buffer += chunk;
+      process(false);
+    },
+    end: () => {
+      process(true);
+      if (buffer.trim()) throw new Error("Unexpected end of document");
+      if (stack.length > 0) throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+      return root;
+    },
+    collectionEntries: () => entryCount
+  };
+};
+
+/**
+ * Serialize a parsed tree, putting a kept DOCTYPE back after the XML declaration.
+ * `declaration` is only used when the tree has none of its own.
+ */
+export const buildXmlDocument = (builder: XMLBuilder, fullData: any[], declaration: string): string => {
+  const doctype = fullData.find((node: any) => node[DOCTYPE_NODE]);
+  const xmlStr = builder.build(fullData.filter((node: any) => node !== doctype));
+  const doctypeLine = doctype ? `<!DOCTYPE${doctype[DOCTYPE_NODE][0]?.['#text'] || ''}>` : '';
+
+  // The parsed tree keeps the original declaration node, only add one if it was missing
+  if (!fullData.some((node: any) => node['?xml'])) {
+    // With formatting on, the builder starts the root element on a new line
+    return [declaration, doctypeLine, xmlStr.replace(/^\n/, '')].filter(Boolean).join('\n');
+  }
+  if (!doctypeLine) return xmlStr;
+  const declarationEnd = xmlStr.indexOf('?>') + 2;
+  return `${xmlStr.slice(0, declarationEnd)}\n${doctypeLine}${xmlStr.slice(declarationEnd)}`;
+};
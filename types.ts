@@ -1,3 +1,14 @@
+export interface RankedTag {
+  value: string;
+  confidence: number; // 0-1
+}
+
+// A web page a grounded search used
+export interface GroundingSource {
+  title: string;
+  uri: string;
+}
+
 export interface AIAnalysis {
   vibe: string;
   subGenre: string; // Micro-Genre (e.g. "Liquid DnB")
@@ -5,6 +16,12 @@ export interface AIAnalysis {
   situation: string;
   year?: string; 
   hashtags?: string; 
+  // All fitting tags, highest confidence first. The single fields above hold the top-ranked value.
+  vibes?: RankedTag[];
+  subGenres?: RankedTag[];
+  situations?: RankedTag[];
+  confidence?: Partial<Record<AnalysisDimension, number>>; // The model's confidence in each field, 0-1
+  yearSources?: GroundingSource[]; // Set when the year came from a web search; empty if nothing backed it
 }
 
 export interface RekordboxTrack {
@@ -22,13 +39,27 @@ export interface RekordboxTrack {
   CueCount?: number;
   Analysis?: AIAnalysis; 
   _rawNode?: any; 
+  _source?: LibraryFormat; // Which library format _rawNode belongs to
   [key: string]: any; 
 }
 
+export type LibraryFormat = 'rekordbox' | 'traktor';
+
+// The user's own folder/playlist hierarchy from the imported library
+export interface PlaylistNode {
+  id: string; // Position path in the tree (e.g. "0/2/1"), unique even when names repeat
+  name: string;
+  type: 'folder' | 'playlist';
+  children: PlaylistNode[];
+  trackIds: string[]; // Only populated for playlists
+}
+
 export interface ParsedCollection {
   tracks: RekordboxTrack[];
   count: number;
   fullData: any; 
+  format: LibraryFormat;
+  playlists: PlaylistNode[];
 }
 
 export enum ParseStatus {
@@ -38,6 +69,13 @@ export enum ParseStatus {
   ERROR = 'ERROR'
 }
 
+// Reported by the parser worker while ParseStatus.PARSING
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  tracksFound: number;
+}
+
 export interface StatItem {
   name: string;
   value: number;
@@ -57,6 +95,7 @@ export interface DuplicateGroup {
 
 export interface LibraryStats {
   genreDistribution: StatItem[];
+  subGenreDistribution: Record<string, StatItem[]>; // By main genre, for the drill-down
   vibeDistribution: StatItem[];
   situationDistribution: StatItem[]; // New: Context Radar
   yearDistribution: StatItem[];
@@ -78,6 +117,48 @@ export interface BatchUsage {
   inputTokens: number;
   outputTokens: number;
   cost: number;
+  models?: ModelUsage[]; // By model, when the provider reports it
+}
+
+// One model's share of a request's usage
+export interface ModelUsage {
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number; // Thinking included
+  thinkingTokens: number;
+  searchQueries: number; // Google Search grounding
+  cost: number;
+  unpriced?: boolean; // The model has no known price; cost uses the fallback rates
+}
+
+export type UsageMode = EnrichmentMode | 'search';
+
+// A usage ledger row: what one job spent with one model on one day
+export interface UsageRecord {
+  key: string; // day|jobId|mode|model
+  day: string; // Local date, e.g. "2026-10-19"
+  jobId: string;
+  jobLabel: string;
+  mode: UsageMode;
+  provider: AIProviderId;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  searchQueries: number;
+  cost: number;
+}
+
+export type EnrichmentMode = 'full' | 'missing_genre' | 'missing_year';
+
+// A locally cached analysis, reused across imports of the same track
+export interface CachedAnalysis {
+  key: string; // Fingerprint + duration, see analysisCache.ts
+  analysis: AIAnalysis;
+  costs: Partial<Record<EnrichmentMode, number>>; // What each mode originally cost for this track
+  updatedAt: number;
 }
 
 export interface ProcessingStats {
@@ -91,6 +172,12 @@ export interface ProcessingStats {
   etaSeconds: number;
   currentBatchLatency: number;
   totalDuration?: number; // New: final duration in ms
+  cacheHits: number; // Tracks answered from the local analysis cache
+  inferredGenres: number; // Main genres filled from the genre hierarchy without an AI call
+  cacheSavings: number; // What those tracks cost the first time
+  failedSongs: number; // Tracks with no result after the retry pass
+  unprocessedIds: string[]; // Tracks never sent because the job was cancelled or hit its budget
+  budgetReached: boolean;
 }
 
 export interface SmartFilterCriteria {
@@ -113,15 +200,222 @@ export interface CustomPlaylist {
   trackIds: string[];
 }
 
+// Pre-export change preview (diff against the library as imported)
+export interface AttributeChange {
+  id: string; // `${TrackID}:${field}`
+  trackId: string;
+  trackLabel: string; // "Artist - Title"
+  field: string;
+  before: string;
+  after: string;
+  added?: boolean; // The attribute isn't in the imported file
+  removed?: boolean; // The attribute is in the imported file but no longer in the library
+}
+
+export interface PlaylistChange {
+  id: string; // Full path, e.g. "AI_GENERATED/Vibes/Groovy"
+  action: 'add' | 'replace' | 'remove';
+  entries: number;
+}
+
+export interface ExportPreview {
+  attributes: AttributeChange[];
+  playlists: PlaylistChange[];
+}
+
+// Where each AI analysis dimension is written in the library file
+export type AnalysisDimension = 'vibe' | 'subGenre' | 'mainGenre' | 'situation' | 'year';
+export type MappingFormat = 'hashtag' | 'text' | 'colour' | 'rating';
+
+export interface FieldMappingRule {
+  target: string; // Logical field name (e.g. "Comments", "Grouping"), empty = not written
+  format: MappingFormat;
+  overwrite: boolean; // May replace a value that is already set
+}
+
+export type FieldMapping = Record<AnalysisDimension, FieldMappingRule>;
+
+// A single attribute written to the library by updateTrackNode
+export interface FieldWrite {
+  field: string;
+  before: string;
+  after: string;
+  added?: boolean; // The attribute wasn't on the node before the write
+}
+
+// One recorded attribute write, undoable on its own or as part of its job
+export interface JournalEntry {
+  id: string;
+  jobId: string;
+  trackId: string;
+  trackLabel: string;
+  field: string;
+  before: string;
+  after: string;
+  added?: boolean; // Undo removes the attribute instead of writing it back empty
+  timestamp: number;
+  undone: boolean;
+}
+
+// A group of writes made by one action (an enrichment run, a single-track analysis, a tag strip...)
+export interface JournalJob {
+  id: string;
+  label: string;
+  startedAt: number;
+  entries: JournalEntry[];
+  analyses?: Record<string, JournalAnalysis>; // By TrackID; restored along with the track's writes
+}
+
+// A track's analysis before and after a job; either is missing when the track had none
+export interface JournalAnalysis {
+  before?: AIAnalysis;
+  after?: AIAnalysis;
+}
+
+// Dimensions with a fixed tag vocabulary (year is free-form)
+export type TaxonomyDimension = 'vibe' | 'subGenre' | 'situation' | 'mainGenre';
+
+export type TaxonomyRuleType = 'rename' | 'merge' | 'split';
+
+// Maps tags from older taxonomy versions onto current ones
+export interface TaxonomyRule {
+  version: number; // Taxonomy version that introduced the rule
+  type: TaxonomyRuleType;
+  dimension: TaxonomyDimension;
+  from: string[]; // Several for a merge, one otherwise
+  to: string[]; // Several for a split (the first is the default), one otherwise
+}
+
+// Allowed tags per dimension, in display order
+export interface Taxonomy extends Record<TaxonomyDimension, string[]> {
+  version: number;
+  rules: TaxonomyRule[];
+  genreParents: Record<string, string>; // Sub-genre -> main genre
+}
+
+// Outdated tags found in a library, and what they migrate to
+export interface TagMigration {
+  dimension: TaxonomyDimension;
+  from: string;
+  to: string;
+  split: boolean; // The old tag was split, so "to" is only the default choice
+  trackIds: string[];
+}
+
+export type AIProviderId = 'gemini-proxy' | 'openai-compatible';
+
+// Which backend enrichment and semantic search are sent to
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  openai: {
+    baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp
+    model: string;
+    inputPricePerMillion: number; // USD per million tokens; 0 for local models
+    outputPricePerMillion: number;
+  };
+}
+
+// Spending caps in USD; 0 means no limit
+export interface BudgetSettings {
+  perJob: number;
+  perMonth: number;
+}
+
+// What an enrichment job is expected to cost, worked out before it starts
+export interface CostEstimate {
+  tracks: number;
+  local: number; // Answered from the analysis cache or the genre hierarchy, free
+  retries: number; // Expected to need the deep pass
+  cost: number; // USD
+}
+
+// A user's own Gemini key, held by the Electron main process. The key itself never reaches the renderer.
+export interface ApiKeyStatus {
+  configured: boolean;
+  source?: 'stored' | 'env'; // Encrypted in userData, or GEMINI_API_KEY from a .env file
+  encryptionAvailable: boolean;
+}
+
+// Same fields the enrichment proxy takes
+export interface LocalEnrichPayload {
+  tracks: any[];
+  prompt: string;
+  model: string;
+  googleSearch: boolean;
+  useThinking: boolean;
+}
+
 export interface AppSettings {
   export: {
     filenameFormat: string;
     folderName: string;
-    backup: boolean;
+    backup: boolean; // Desktop: keep backups before overwriting. Browser: date-stamp the download name
+    backupCount: number; // Backups kept per library file
+    nestSubGenres: boolean; // Sub-Genre playlists go in one folder per main genre
   };
   import: {
     validateOnImport: boolean;
   };
+  mapping: FieldMapping;
+  tags: {
+    confidenceThreshold: number; // Minimum confidence for a tag to count in playlists and stats
+    reviewThreshold: number; // AI values below this confidence wait in the review queue; 0 writes everything
+  };
+  taxonomy: Taxonomy;
+  ai: AIProviderSettings;
+  budget: BudgetSettings;
+}
+
+// An AI value held back for a person to accept, edit or reject before it is written
+export interface ReviewItem {
+  id: string;
+  trackId: string;
+  trackLabel: string;
+  mode: EnrichmentMode;
+  field: AnalysisDimension;
+  proposed: string;
+  confidence?: number; // Missing for a year held only because no source backed it
+  unsupported?: boolean; // A searched year with no source
+  ranked?: RankedTag[]; // The full proposed list, for tag fields
+}
+
+// Shown in the recent sessions list
+export interface SessionSummary {
+  id: string;
+  name: string; // Imported file name
+  format: LibraryFormat;
+  trackCount: number;
+  analyzedCount: number;
+  savedAt: number;
+}
+
+// Everything needed to resume work without re-importing or paying for enrichment again
+export interface SessionData extends SessionSummary {
+  fullData: any; // The parsed library tree, including every write made so far
+  analysis: Record<string, AIAnalysis>; // By TrackID
+  importSnapshot: [string, Record<string, string>][]; // Field values at import, for the export preview
+  savedPlaylists: CustomPlaylist[];
+  settings: AppSettings;
+  journal: JournalJob[];
+  sourcePath?: string; // Where the library was imported from (desktop only), for saving in place
+  reviewQueue?: ReviewItem[];
+}
+
+// What changed when the open library file was re-read after an outside edit
+export interface LibraryReloadSummary {
+  fileName: string;
+  addedIds: string[];
+  removedCount: number;
+  reappliedCount: number; // Tracks whose unsaved CrateBatch writes were carried over
+}
+
+// A copy of a library file taken before it was overwritten (desktop only)
+export interface LibraryBackup {
+  id: string;
+  filePath: string; // The file it is a backup of
+  fileName: string;
+  createdAt: number;
+  size: number; // Bytes
 }
 
 // Global Window Extension for Electron
@@ -129,8 +423,27 @@ declare global {
   interface Window {
     electron?: {
       readFile: (path: string) => Promise<{ success: boolean; data: string; error?: string }>;
-      saveFile: (payload: { filePath: string; content: string }) => Promise<{ success: boolean; error?: string }>;
-      enrichBatch: (payload: { tracks: any[]; prompt: string; apiKey?: string }) => Promise<any[]>;
+      saveFile: (payload: { filePath: string; content: string; backupCount: number }) => Promise<{ success: boolean; error?: string }>;
+      getFilePath: (file: File) => string;
+      showSaveDialog: (defaultPath: string) => Promise<string | null>;
+      listBackups: () => Promise<LibraryBackup[]>;
+      restoreBackup: (payload: { id: string; backupCount: number }) => Promise<{ success: boolean; filePath?: string; error?: string }>;
+      watchFile: (filePath: string | null) => Promise<{ success: boolean; error?: string }>;
+      onFileChanged: (callback: (filePath: string) => void) => () => void; // Returns an unsubscribe function
+      enrichBatch: (requestId: string, payload: LocalEnrichPayload) => Promise<{ success: boolean; data?: any; error?: string; status?: number; cancelled?: boolean }>;
+      abortEnrichBatch: (requestId: string) => Promise<void>;
+      getApiKeyStatus: () => Promise<ApiKeyStatus>;
+      setApiKey: (key: string | null) => Promise<{ success: boolean; error?: string }>;
+      listSessions: () => Promise<SessionSummary[]>;
+      loadSession: (id: string) => Promise<SessionData | null>;
+      saveSession: (session: SessionData) => Promise<{ success: boolean; error?: string }>;
+      deleteSession: (id: string) => Promise<{ success: boolean; error?: string }>;
+      loadSettings: () => Promise<AppSettings | null>;
+      saveSettings: (settings: AppSettings) => Promise<{ success: boolean; error?: string }>;
+      loadAnalysisCache: () => Promise<CachedAnalysis[]>;
+      saveAnalysisCache: (entries: CachedAnalysis[]) => Promise<{ success: boolean; error?: string }>;
+      loadUsage: () => Promise<UsageRecord[]>;
+      saveUsage: (records: UsageRecord[]) => Promise<{ success: boolean; error?: string }>;
     };
   }
 }